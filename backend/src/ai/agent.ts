@@ -0,0 +1,275 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { WorkspaceService } from '../workspace/service';
+import type { CommandResult, RunCommandOptions } from '../services/terminal';
+import type { CallOptions } from './registry';
+import { CodeSearchHit, citation } from './codebase';
+import { AgentError } from './errors';
+import { AgentRun, AgentStep, AgentToolName, ChatMessage, ChatRequest, ChatResponse } from '../types';
+
+/** What the agent's tools act on. `TerminalService` satisfies `terminal`. */
+export interface AgentTools {
+  workspace: WorkspaceService;
+  terminal: { runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> };
+  search(query: string, limit: number): Promise<CodeSearchHit[]>;
+}
+
+export type AgentChat = (provider: string, req: ChatRequest, options: CallOptions) => Promise<ChatResponse>;
+
+export interface AgentOptions {
+  /** Model rounds per user turn or approval */
+  maxSteps: number;
+  commandTimeoutMs: number;
+  /** Characters of tool output handed back to the model */
+  maxOutput: number;
+  /** Finished runs are forgotten oldest first beyond this */
+  maxRuns: number;
+}
+
+/** Tools that change the workspace wait for the user to approve them. */
+const NEEDS_APPROVAL = new Set<AgentToolName>(['write_file', 'run_command']);
+
+const TOOL_ARGS: Record<AgentToolName, z.ZodTypeAny> = {
+  read_file: z.object({ path: z.string().min(1) }),
+  list_tree: z.object({ path: z.string().optional().default('') }),
+  search: z.object({
+    query: z.string().min(1),
+    limit: z.number().int().min(1).max(20).optional().default(8),
+  }),
+  write_file: z.object({ path: z.string().min(1), content: z.string() }),
+  run_command: z.object({ command: z.string().min(1) }),
+};
+
+const AGENT_PROMPT = `You are a coding agent working in the user's workspace. You can use these tools:
+
+- read_file {"path"}: contents of a workspace file
+- list_tree {"path"?}: every file below a directory (default: the workspace root)
+- search {"query", "limit"?}: code chunks matching a natural-language query, cited as path:start-end
+- write_file {"path", "content"}: replace a file with the given content (the user must approve)
+- run_command {"command"}: run a shell command in the workspace root (the user must approve)
+
+To use a tool, say briefly why, then end your reply with exactly one block:
+
+\`\`\`tool
+{"tool": "read_file", "args": {"path": "src/index.ts"}}
+\`\`\`
+
+The result arrives in the next message. Paths are relative to the workspace root. Read files before changing them and write complete file contents. When the task is done, or you need the user, answer without a tool block.`;
+
+interface ToolCall {
+  /** Whatever the model said before the tool block */
+  text: string;
+  tool?: AgentToolName;
+  args: Record<string, unknown>;
+  /** Set when the block couldn't be understood – fed back so the model can retry */
+  error?: string;
+}
+
+/** Finds the fenced tool block in a reply; `undefined` means the model is done. */
+export function parseToolCall(reply: string): ToolCall | undefined {
+  const match = /```tool[^\n]*\n([\s\S]*?)```/.exec(reply);
+  if (!match) return undefined;
+  const text = reply.slice(0, match.index).trim();
+
+  let call: { tool?: unknown; args?: unknown };
+  try {
+    call = JSON.parse(match[1]);
+  } catch {
+    return { text, args: {}, error: 'The tool block is not valid JSON.' };
+  }
+  const args = call.args && typeof call.args === 'object' ? (call.args as Record<string, unknown>) : {};
+  if (typeof call.tool !== 'string' || !(call.tool in TOOL_ARGS)) {
+    return { text, args, error: `Unknown tool: ${String(call.tool)}` };
+  }
+  return { text, tool: call.tool as AgentToolName, args };
+}
+
+interface RunState extends AgentRun {
+  /** The conversation as the model sees it */
+  messages: ChatMessage[];
+}
+
+/**
+ * Tool‑calling loop on top of plain chat. The model asks for a tool in a
+ * fenced block; read‑only tools run straight away, `write_file` and
+ * `run_command` park the run until the user approves or rejects them.
+ * Runs live in memory and are addressed by id between requests.
+ */
+export class Agent {
+  private runs = new Map<string, RunState>();
+
+  constructor(
+    private tools: AgentTools,
+    private chat: AgentChat,
+    private options: AgentOptions
+  ) {}
+
+  async start(provider: string, messages: ChatMessage[], options: CallOptions = {}): Promise<AgentRun> {
+    const run: RunState = { id: randomUUID(), provider, status: 'running', steps: [], messages: [...messages] };
+    this.runs.set(run.id, run);
+    this.forgetOldRuns();
+    await this.advance(run, options);
+    return view(run);
+  }
+
+  get(id: string): AgentRun {
+    return view(this.find(id));
+  }
+
+  /** Carries out (or refuses) the pending action and lets the model continue. */
+  async resolve(id: string, approved: boolean, options: CallOptions = {}): Promise<AgentRun> {
+    const run = this.find(id);
+    const step = run.steps.find((s) => s.status === 'pending');
+    if (run.status !== 'awaiting_approval' || !step) {
+      throw new AgentError(`Agent run ${id} is not waiting for approval`, 409);
+    }
+
+    run.status = 'running';
+    if (approved) {
+      step.status = 'approved';
+      await this.execute(step, options);
+    } else {
+      step.status = 'rejected';
+      step.output = 'The user rejected this action.';
+    }
+    run.messages.push(toolResult(step));
+    await this.advance(run, options);
+    return view(run);
+  }
+
+  private find(id: string) {
+    const run = this.runs.get(id);
+    if (!run) throw new AgentError(`Unknown agent run: ${id}`, 404);
+    return run;
+  }
+
+  private async advance(run: RunState, options: CallOptions) {
+    try {
+      for (let round = 0; round < this.options.maxSteps; round++) {
+        const { reply } = await this.chat(
+          run.provider,
+          { messages: [{ role: 'system', content: AGENT_PROMPT }, ...run.messages] },
+          options
+        );
+        run.messages.push({ role: 'assistant', content: reply });
+
+        const call = parseToolCall(reply);
+        const text = call ? call.text : reply.trim();
+        if (text) run.steps.push({ id: randomUUID(), type: 'message', content: text });
+        if (!call) {
+          run.status = 'done';
+          return;
+        }
+
+        const step: AgentStep = { id: randomUUID(), type: 'tool', tool: call.tool, args: call.args };
+        run.steps.push(step);
+        if (call.error) {
+          step.status = 'error';
+          step.output = call.error;
+        } else if (NEEDS_APPROVAL.has(call.tool!)) {
+          step.status = 'pending';
+          run.status = 'awaiting_approval';
+          return;
+        } else {
+          await this.execute(step, options);
+        }
+        run.messages.push(toolResult(step));
+      }
+
+      run.status = 'done';
+      run.steps.push({
+        id: randomUUID(),
+        type: 'message',
+        content: `Stopped after ${this.options.maxSteps} steps without finishing.`,
+      });
+    } catch (e) {
+      run.status = 'error';
+      run.error = (e as Error).message;
+    }
+  }
+
+  private async execute(step: AgentStep, options: CallOptions) {
+    try {
+      step.output = clip(await this.runTool(step.tool!, step.args ?? {}, options), this.options.maxOutput);
+      step.status = 'done';
+    } catch (e) {
+      step.status = 'error';
+      step.output =
+        e instanceof z.ZodError
+          ? `Invalid arguments: ${e.issues.map((i) => `${i.path.join('.') || 'args'} ${i.message}`).join('; ')}`
+          : (e as Error).message;
+    }
+  }
+
+  private async runTool(tool: AgentToolName, rawArgs: Record<string, unknown>, options: CallOptions): Promise<string> {
+    const { workspace, terminal } = this.tools;
+    const args = TOOL_ARGS[tool].parse(rawArgs);
+
+    switch (tool) {
+      case 'read_file':
+        return workspace.readFile(this.inside(args.path));
+
+      case 'list_tree': {
+        const files = await workspace.listFiles(this.inside(args.path));
+        return files.length ? files.join('\n') : '(no files)';
+      }
+
+      case 'search': {
+        const hits = await this.tools.search(args.query, args.limit);
+        return hits.length ? hits.map((h) => `--- ${citation(h)}\n${h.text}`).join('\n\n') : 'No matches.';
+      }
+
+      case 'write_file': {
+        const rel = this.inside(args.path);
+        await workspace.writeFile(rel, args.content);
+        return `Wrote ${args.content.split('\n').length} lines to ${rel}`;
+      }
+
+      case 'run_command': {
+        const result = await terminal.runCommand(args.command, {
+          cwd: workspace.root,
+          timeoutMs: this.options.commandTimeoutMs,
+          signal: options.signal,
+          maxOutput: this.options.maxOutput,
+        });
+        const outcome = result.timedOut
+          ? `timed out after ${this.options.commandTimeoutMs} ms`
+          : `exit code ${result.exitCode}`;
+        return `$ ${args.command}\n${result.output.trimEnd()}\n[${outcome}]`;
+      }
+    }
+  }
+
+  /** Workspace‑relative form of a model‑supplied path; anything escaping the root is refused. */
+  private inside(rel: string) {
+    const normalized = path.posix.normalize(rel.replace(/\\/g, '/')).replace(/^\/+/, '');
+    const clean = normalized === '.' ? '' : normalized;
+    if (!this.tools.workspace.contains(clean)) {
+      throw new Error(`Path is outside the workspace: ${rel}`);
+    }
+    return clean;
+  }
+
+  private forgetOldRuns() {
+    for (const [id, run] of this.runs) {
+      if (this.runs.size <= this.options.maxRuns) break;
+      if (run.status !== 'awaiting_approval' && run.status !== 'running') this.runs.delete(id);
+    }
+  }
+}
+
+function view({ messages, ...run }: RunState): AgentRun {
+  return { ...run, steps: run.steps.map((s) => ({ ...s })) };
+}
+
+function toolResult(step: AgentStep): ChatMessage {
+  return {
+    role: 'user',
+    content: `Result of ${step.tool ?? 'the tool call'} (${step.status}):\n${step.output ?? ''}`,
+  };
+}
+
+function clip(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max)}\n… truncated` : text;
+}
@@ -0,0 +1,202 @@
+import { ChatMessage, ChatRequest, CompletionRequest, Truncation } from '../types';
+import { Tokenizer, fitToBudget } from './tokens';
+
+/** How much prompt the model a request goes to can take. */
+export interface Budget {
+  contextWindow: number;
+  /** Prompt tokens allowed – the window less room for the reply */
+  budget: number;
+  tokenizer: Tokenizer;
+}
+
+/** A request cut down to a budget, and what was cut when anything was. */
+export interface Fitted<R> {
+  request: R;
+  promptTokens: number;
+  truncation?: Truncation;
+}
+
+/** Share of the budget the suffix may claim when both sides of the cursor are too long */
+const SUFFIX_SHARE = 0.25;
+/** Share of the budget set aside for the summary of dropped chat turns */
+const SUMMARY_SHARE = 0.1;
+/** A clipped message keeps at least this much of its start and end */
+const MIN_CLIPPED_TOKENS = 32;
+/** Room for the marker `clipMiddle` puts where text was left out */
+const MARKER_TOKENS = 12;
+/** Characters a single token rarely exceeds – bounds the search for a cut inside one long line */
+const MAX_TOKEN_CHARS = 32;
+
+/** Tokens cut, or nothing when none were. */
+function cut(before: number, after: number) {
+  return before > after ? before - after : undefined;
+}
+
+/** The longest start (or end) of a single line that fits in `budget`. */
+function cutLine(line: string, budget: number, tokenizer: Tokenizer, fromEnd: boolean) {
+  const slice = (n: number) => (fromEnd ? line.slice(line.length - n) : line.slice(0, n));
+  let lo = 0;
+  let hi = Math.min(line.length, budget * MAX_TOKEN_CHARS);
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (tokenizer.count(slice(mid)) <= budget) lo = mid;
+    else hi = mid - 1;
+  }
+  return slice(lo);
+}
+
+/**
+ * Whole lines from the start (or end) of `text` that fit in `budget`. Only
+ * the line nearest the kept edge is ever cut in two, when it alone is too long.
+ */
+function keepLines(text: string, budget: number, tokenizer: Tokenizer, fromEnd: boolean) {
+  const lines = text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  if (fromEnd) lines.reverse();
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const tokens = tokenizer.count(line);
+    if (used + tokens > budget) {
+      if (kept.length === 0 && budget > 0) kept.push(cutLine(line, budget, tokenizer, fromEnd));
+      break;
+    }
+    kept.push(line);
+    used += tokens;
+  }
+  if (fromEnd) kept.reverse();
+  return kept.join('');
+}
+
+/** The end of `text` within `budget` tokens – what a prefix keeps near the cursor. */
+export function keepTail(text: string, budget: number, tokenizer: Tokenizer) {
+  return keepLines(text, budget, tokenizer, true);
+}
+
+/** The start of `text` within `budget` tokens – what a suffix keeps near the cursor. */
+export function keepHead(text: string, budget: number, tokenizer: Tokenizer) {
+  return keepLines(text, budget, tokenizer, false);
+}
+
+/** `text` shortened to about `budget` tokens by leaving out its middle. */
+export function clipMiddle(text: string, budget: number, tokenizer: Tokenizer) {
+  const total = tokenizer.count(text);
+  if (total <= budget) return text;
+  const room = Math.max(budget - MARKER_TOKENS, 0);
+  const head = keepHead(text, Math.ceil(room / 2), tokenizer);
+  const tail = keepTail(text, Math.floor(room / 2), tokenizer);
+  const omitted = total - tokenizer.count(head) - tokenizer.count(tail);
+  return `${head}\n[… ${omitted} tokens left out …]\n${tail}`;
+}
+
+/**
+ * Fits a completion request to `budget`. What is closest to the cursor
+ * matters most: the prefix loses lines from its top, the suffix from its
+ * bottom, and repository context only gets what the two leave over.
+ */
+export function fitCompletion(req: CompletionRequest, { contextWindow, budget, tokenizer }: Budget): Fitted<CompletionRequest> {
+  const count = (text?: string) => (text ? tokenizer.count(text) : 0);
+  const prefix = count(req.prefix);
+  const suffix = count(req.suffix);
+  const context = count(req.context);
+  if (prefix + suffix + context <= budget) return { request: req, promptTokens: prefix + suffix + context };
+
+  const suffixBudget = Math.min(suffix, Math.max(Math.floor(budget * SUFFIX_SHARE), budget - prefix));
+  const prefixBudget = Math.min(prefix, budget - suffixBudget);
+  const contextBudget = Math.min(context, budget - prefixBudget - suffixBudget);
+
+  const request: CompletionRequest = {
+    ...req,
+    prefix: keepTail(req.prefix, prefixBudget, tokenizer),
+    suffix: req.suffix && keepHead(req.suffix, suffixBudget, tokenizer),
+    context: contextBudget > 0 && req.context ? keepHead(req.context, contextBudget, tokenizer) : undefined,
+  };
+  const after = { prefix: count(request.prefix), suffix: count(request.suffix), context: count(request.context) };
+  const promptTokens = after.prefix + after.suffix + after.context;
+  return {
+    request,
+    promptTokens,
+    truncation: {
+      contextWindow,
+      budget,
+      promptTokens,
+      prefixTokens: cut(prefix, after.prefix),
+      suffixTokens: cut(suffix, after.suffix),
+      contextTokens: cut(context, after.context),
+    },
+  };
+}
+
+/**
+ * A system message standing in for turns that were dropped: how many there
+ * were and the gist of what the user asked, newest questions first to go in.
+ */
+function summarizeDropped(dropped: ChatMessage[], budget: number, tokenizer: Tokenizer): ChatMessage | undefined {
+  const questions = dropped.filter((m) => m.role === 'user');
+  const header = `${dropped.length} earlier messages of this conversation were left out to fit the context window.`;
+  let content = questions.length ? `${header} In them the user asked:` : header;
+  if (tokenizer.count(content) > budget) return undefined;
+
+  const asked: string[] = [];
+  for (const m of [...questions].reverse()) {
+    const line = m.content.trim().split('\n')[0];
+    const item = `- ${line.length > 120 ? `${line.slice(0, 120)}…` : line}`;
+    if (tokenizer.count([content, item, ...asked].join('\n')) > budget) break;
+    asked.unshift(item);
+  }
+  if (questions.length && asked.length === 0) content = header;
+  return { role: 'system', content: [content, ...asked].join('\n') };
+}
+
+/**
+ * Fits a chat request to `budget`: the oldest turns are dropped, and a short
+ * summary of them is sent in their place when there is room for it. A
+ * message too long even on its own – a pasted log, a huge system prompt –
+ * loses its middle, longest message first.
+ */
+export function fitChat(req: ChatRequest, { contextWindow, budget, tokenizer }: Budget): Fitted<ChatRequest> {
+  const total = (ms: ChatMessage[]) => ms.reduce((sum, m) => sum + tokenizer.count(m.content), 0);
+  const before = total(req.messages);
+  if (before <= budget) return { request: req, promptTokens: before };
+
+  const kept = new Set(fitToBudget(req.messages, budget - Math.floor(budget * SUMMARY_SHARE), (t) => tokenizer.count(t)));
+  const dropped = req.messages.filter((m) => !kept.has(m));
+  const messages = req.messages.filter((m) => kept.has(m));
+
+  const summary = dropped.length
+    ? summarizeDropped(dropped, Math.max(budget - total(messages), 0), tokenizer)
+    : undefined;
+  if (summary) {
+    const firstTurn = messages.findIndex((m) => m.role !== 'system');
+    messages.splice(firstTurn === -1 ? messages.length : firstTurn, 0, summary);
+  }
+
+  let excess = total(messages) - budget;
+  let clipped = 0;
+  if (excess > 0) {
+    const longestFirst = messages
+      .map((m, i) => ({ i, tokens: tokenizer.count(m.content) }))
+      .sort((a, b) => b.tokens - a.tokens);
+    for (const { i, tokens } of longestFirst) {
+      if (excess <= 0) break;
+      const take = Math.min(excess, tokens - MIN_CLIPPED_TOKENS);
+      if (take <= 0) continue;
+      messages[i] = { ...messages[i], content: clipMiddle(messages[i].content, tokens - take, tokenizer) };
+      excess -= take;
+      clipped++;
+    }
+  }
+
+  const promptTokens = total(messages);
+  return {
+    request: { ...req, messages },
+    promptTokens,
+    truncation: {
+      contextWindow,
+      budget,
+      promptTokens,
+      droppedMessages: dropped.length || undefined,
+      summarized: summary ? true : undefined,
+      clippedMessages: clipped || undefined,
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import { CompletionRequest, CompletionResponse } from '../types';
+
+export interface CompletionCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+  /** Characters of prefix before the cursor that take part in the key */
+  prefixWindow: number;
+  /** Characters of suffix after the cursor that take part in the key */
+  suffixWindow: number;
+}
+
+export interface CompletionCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  hitRate: number;
+}
+
+interface Entry {
+  value: CompletionResponse;
+  expiresAt: number;
+}
+
+/**
+ * LRU cache for completions. Typing and backspacing over the same spot
+ * produces the same context again and again, so only a window around the
+ * cursor is keyed – text far away rarely changes what the model suggests.
+ */
+export class CompletionCache {
+  private entries = new Map<string, Entry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private options: CompletionCacheOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  key(provider: string, req: CompletionRequest): string {
+    const prefix = normalize(req.prefix).slice(-this.options.prefixWindow);
+    const suffix = normalize(req.suffix ?? '').slice(0, this.options.suffixWindow);
+    return createHash('sha1')
+      .update(
+        JSON.stringify([
+          provider,
+          req.language ?? '',
+          req.maxTokens ?? null,
+          req.temperature ?? null,
+          req.n ?? 1,
+          prefix,
+          suffix,
+          req.context ?? '',
+        ])
+      )
+      .digest('hex');
+  }
+
+  get(key: string): CompletionResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+    // Re‑insert so Map iteration order doubles as recency order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: CompletionResponse) {
+    if (this.options.maxEntries <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + this.options.ttlMs });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  stats(): CompletionCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+      hitRate: lookups ? this.hits / lookups : 0,
+    };
+  }
+}
+
+/** Line endings and trailing blanks on finished lines don't change the suggestion. */
+function normalize(text: string) {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  // The last line holds the cursor, where a trailing space does matter
+  return lines.map((line, i) => (i < lines.length - 1 ? line.trimEnd() : line)).join('\n');
+}
@@ -0,0 +1,24 @@
+/** Whitespace-insensitive identity, so "a  + b" and "a + b\n" count as one suggestion. */
+function identity(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Distinct, non-empty completions, best first, at most `limit`.
+ * Sampled completions that several draws agree on rank higher; ties keep
+ * the provider's order, where the first draw is the least random one.
+ */
+export function rankCandidates(texts: string[], limit: number): string[] {
+  const seen = new Map<string, { text: string; votes: number; order: number }>();
+  texts.forEach((text, order) => {
+    const key = identity(text);
+    if (!key) return;
+    const entry = seen.get(key);
+    if (entry) entry.votes++;
+    else seen.set(key, { text, votes: 1, order });
+  });
+  return [...seen.values()]
+    .sort((a, b) => b.votes - a.votes || a.order - b.order)
+    .slice(0, limit)
+    .map((c) => c.text);
+}
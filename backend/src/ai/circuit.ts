@@ -0,0 +1,78 @@
+export interface CircuitBreakerOptions {
+  /** Failure ratio over the window that opens the circuit, e.g. 0.5 */
+  errorRate: number;
+  /** Calls that must be in the window before the ratio is trusted */
+  minRequests: number;
+  /** Number of most recent outcomes considered */
+  window: number;
+  /** How long an open circuit rejects calls before letting one probe through */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Error‑rate circuit breaker for one provider. While open, callers skip the
+ * provider entirely; after the cooldown a single probe call decides whether
+ * it closes again.
+ */
+export class CircuitBreaker {
+  private outcomes: boolean[] = [];
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    private options: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /** Whether a call may go out now. Claims the probe slot when half‑open. */
+  canRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.probing) return false;
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess() {
+    if (this.openedAt !== null) {
+      this.openedAt = null;
+      this.outcomes = [];
+    }
+    this.probing = false;
+    this.push(true);
+  }
+
+  recordFailure() {
+    if (this.openedAt !== null) {
+      // Failed probe – wait a full cooldown again
+      this.openedAt = this.now();
+      this.probing = false;
+      return;
+    }
+    this.push(false);
+    const failures = this.outcomes.filter((ok) => !ok).length;
+    if (
+      this.outcomes.length >= this.options.minRequests &&
+      failures / this.outcomes.length >= this.options.errorRate
+    ) {
+      this.openedAt = this.now();
+    }
+  }
+
+  /** The call was cancelled by the caller – it says nothing about the provider. */
+  release() {
+    this.probing = false;
+  }
+
+  private push(ok: boolean) {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.options.window) this.outcomes.shift();
+  }
+}
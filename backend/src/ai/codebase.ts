@@ -0,0 +1,201 @@
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { Embedder } from './embeddings';
+
+export interface CodeChunk {
+  path: string;
+  /** 1‑based, inclusive */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface CodeSearchHit extends CodeChunk {
+  score: number;
+}
+
+export interface CodebaseIndexOptions {
+  /** Lines per chunk */
+  chunkLines: number;
+  /** Lines shared by neighbouring chunks, so a function isn't cut in two halves nobody finds */
+  overlapLines: number;
+  /** Files above this size are skipped – usually generated or minified */
+  maxFileBytes: number;
+  /** Quiet period before a changed file is re‑embedded */
+  debounceMs: number;
+}
+
+export interface CodebaseIndexStatus {
+  embedder: string;
+  ready: boolean;
+  files: number;
+  chunks: number;
+}
+
+const TEXT_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.rb',
+  '.php', '.c', '.h', '.cpp', '.hpp', '.cs', '.swift', '.sh', '.sql', '.css', '.scss',
+  '.html', '.vue', '.svelte', '.json', '.yml', '.yaml', '.toml', '.md',
+]);
+
+export function isIndexable(rel: string) {
+  return TEXT_EXTENSIONS.has(path.extname(rel).toLowerCase());
+}
+
+/** Overlapping line windows; blank windows are dropped. */
+export function chunkFile(rel: string, content: string, chunkLines: number, overlapLines: number): CodeChunk[] {
+  const lines = content.split('\n');
+  const step = Math.max(chunkLines - overlapLines, 1);
+  const chunks: CodeChunk[] = [];
+  for (let start = 0; start < lines.length; start += step) {
+    const slice = lines.slice(start, start + chunkLines);
+    const text = slice.join('\n');
+    if (text.trim()) {
+      chunks.push({ path: rel, startLine: start + 1, endLine: start + slice.length, text });
+    }
+    if (start + chunkLines >= lines.length) break;
+  }
+  return chunks;
+}
+
+interface IndexedChunk extends CodeChunk {
+  vector: number[];
+}
+
+/**
+ * In‑memory vector index of the workspace. `start()` embeds every file in
+ * the background and then follows `file:changed` / `file:deleted`, so
+ * answers stay in step with what is on disk.
+ */
+export class CodebaseIndex {
+  private chunks = new Map<string, IndexedChunk[]>();
+  private pending = new Map<string, NodeJS.Timeout>();
+  private ready = false;
+  private started = false;
+
+  constructor(
+    private workspace: WorkspaceService,
+    private embedder: Embedder,
+    private options: CodebaseIndexOptions
+  ) {}
+
+  /** Swap the embedding backend; everything indexed so far is re‑embedded. */
+  async setEmbedder(embedder: Embedder) {
+    this.embedder = embedder;
+    if (this.started) await this.rebuild();
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    this.workspace.on('file:changed', (rel: string) => this.schedule(rel));
+    this.workspace.on('file:deleted', (rel: string) => this.remove(rel));
+    this.rebuild().catch((e) => console.error('❌ Codebase indexing failed:', e));
+  }
+
+  async rebuild() {
+    this.ready = false;
+    await this.workspace.ensureRoot();
+    const files = (await this.workspace.listFiles()).filter(isIndexable);
+    this.chunks.clear();
+    for (const rel of files) {
+      await this.indexFile(rel);
+    }
+    this.ready = true;
+    console.log(`🔎 Indexed ${files.length} workspace files (${this.chunkCount()} chunks)`);
+  }
+
+  async indexFile(rel: string) {
+    if (!isIndexable(rel)) return;
+    let content: string;
+    try {
+      content = await this.workspace.readFile(rel);
+    } catch {
+      this.chunks.delete(rel);
+      return;
+    }
+    if (Buffer.byteLength(content) > this.options.maxFileBytes || content.includes('\0')) {
+      this.chunks.delete(rel);
+      return;
+    }
+
+    const chunks = chunkFile(rel, content, this.options.chunkLines, this.options.overlapLines);
+    // The path is part of what gets embedded – file names carry a lot of meaning
+    const vectors = await this.embedder.embed(chunks.map((c) => `${c.path}\n${c.text}`));
+    this.chunks.set(rel, chunks.map((c, i) => ({ ...c, vector: vectors[i] })));
+  }
+
+  remove(rel: string) {
+    clearTimeout(this.pending.get(rel));
+    this.pending.delete(rel);
+    for (const key of [...this.chunks.keys()]) {
+      if (key === rel || key.startsWith(`${rel}/`)) this.chunks.delete(key);
+    }
+  }
+
+  async search(query: string, limit = 5): Promise<CodeSearchHit[]> {
+    const [q] = await this.embedder.embed([query]);
+    const hits: CodeSearchHit[] = [];
+    for (const fileChunks of this.chunks.values()) {
+      for (const { vector, ...chunk } of fileChunks) {
+        const score = dot(q, vector);
+        if (score > 0) hits.push({ ...chunk, score });
+      }
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  status(): CodebaseIndexStatus {
+    return {
+      embedder: this.embedder.id,
+      ready: this.ready,
+      files: this.chunks.size,
+      chunks: this.chunkCount(),
+    };
+  }
+
+  private schedule(rel: string) {
+    clearTimeout(this.pending.get(rel));
+    this.pending.set(
+      rel,
+      setTimeout(() => {
+        this.pending.delete(rel);
+        this.indexFile(rel).catch((e) => console.error(`❌ Failed to index ${rel}:`, e));
+      }, this.options.debounceMs)
+    );
+  }
+
+  private chunkCount() {
+    let count = 0;
+    for (const fileChunks of this.chunks.values()) count += fileChunks.length;
+    return count;
+  }
+}
+
+/** Human‑readable citation, e.g. `src/routes/workspace.routes.ts:38-43`. */
+export function citation(chunk: CodeChunk) {
+  return `${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+/**
+ * System prompt that hands the retrieved chunks to the model and asks for
+ * answers grounded in them, citing `path:start-end`.
+ */
+export function codebasePrompt(hits: CodeSearchHit[]) {
+  if (!hits.length) {
+    return 'No code in the workspace matched the question. Say so instead of guessing.';
+  }
+  const sources = hits.map((h) => `--- ${citation(h)}\n${h.text}`).join('\n\n');
+  return [
+    'Answer using only the workspace excerpts below.',
+    'Cite every excerpt you rely on as `path:start-end`; if they do not answer the question, say so.',
+    '',
+    sources,
+  ].join('\n');
+}
+
+function dot(a: number[], b: number[]) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * (b[i] ?? 0);
+  return sum;
+}
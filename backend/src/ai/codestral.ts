@@ -1,71 +1,169 @@
-import https from 'https';
-import { CODESTRAL_API_KEY } from '../../config';
+import { IncomingMessage } from 'http';
+import { CODESTRAL_API_KEY, MISTRAL_API_KEY } from '../config';
 import { CompletionRequest, CompletionResponse, ChatRequest } from '../types';
+import { readJSONEvents } from './sse';
+import { readBody, requestJSON, sendUpstream } from './http';
+import { reportUsage } from './usage';
+import { contextualPrefix } from './context';
+import { CallOptions, ProviderAdapter } from './registry';
 import { z } from 'zod';
 
-export async function codestralFIM(req: CompletionRequest): Promise<CompletionResponse> {
+const FIM_URL = 'https://codestral.mistral.ai/v1/fim/completions';
+const CHAT_URL = 'https://api.mistral.ai/v1/chat/completions';
+const MODELS_URL = 'https://codestral.mistral.ai/v1/models';
+
+function buildFIMPayload(req: CompletionRequest) {
   const schema = z.object({
     prefix: z.string(),
     suffix: z.string().optional(),
-    language: z.string(),
+    language: z.string().optional(),
     maxTokens: z.number().optional(),
   });
   const data = schema.parse(req);
 
-  const payload = {
+  return {
     model: 'codestral-22b',
-    prompt: `<suffix>${data.suffix ?? ''}</suffix><prefix>${data.prefix}</prefix><middle>`,
+    prompt: `<suffix>${data.suffix ?? ''}</suffix><prefix>${contextualPrefix(req)}</prefix><middle>`,
     max_tokens: data.maxTokens ?? 120,
     temperature: 0.2,
     stop: ['</middle>', '<prefix>', '<suffix>'],
   };
+}
+
+export async function codestralFIM(
+  req: CompletionRequest,
+  options: CallOptions = {}
+): Promise<CompletionResponse> {
+  const payload = buildFIMPayload(req);
+  const n = req.n ?? 1;
+  if (n <= 1) {
+    const raw = await postJSON<any>(FIM_URL, payload, CODESTRAL_API_KEY, options);
+    reportUsage(options, raw?.usage);
+    const completion = raw?.choices?.[0]?.message?.content ?? '';
+    return { text: completion, completion };
+  }
 
-  const raw = await postJSON<any>('https://codestral.mistral.ai/v1/fim/completions', payload, CODESTRAL_API_KEY);
-  const completion = raw?.choices?.[0]?.message?.content ?? '';
-  return { completion };
+  // The FIM endpoint returns one choice per call; the first draw stays at the
+  // usual temperature so the top candidate matches a single completion
+  const raws = await Promise.all(
+    Array.from({ length: n }, (_, i) =>
+      postJSON<any>(FIM_URL, { ...payload, temperature: i === 0 ? payload.temperature : 0.8 }, CODESTRAL_API_KEY, options)
+    )
+  );
+  reportUsage(options, {
+    prompt_tokens: raws.reduce((sum, raw) => sum + (raw?.usage?.prompt_tokens ?? 0), 0),
+    completion_tokens: raws.reduce((sum, raw) => sum + (raw?.usage?.completion_tokens ?? 0), 0),
+  });
+  const candidates: string[] = raws.map((raw) => raw?.choices?.[0]?.message?.content ?? '');
+  return { text: candidates[0], completion: candidates[0], candidates };
 }
 
 /**
- * Helper – generic HTTPS POST that returns parsed JSON.
+ * Streaming FIM – yields completion tokens as Codestral produces them.
  */
-function postJSON<T>(url: string, payload: any, token: string): Promise<T> {
-  const parsed = new URL(url);
-  const options = {
-    hostname: parsed.hostname,
-    path: parsed.pathname,
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  };
-  return new Promise<T>((resolve, reject) => {
-    const req = https.request(options, (res) => {
-      let data = '';
-      res.on('data', (c) => (data += c));
-      res.on('end', () => {
-        try {
-          resolve(JSON.parse(data));
-        } catch (e) {
-          reject(e);
-        }
-      });
-    });
-    req.on('error', reject);
-    req.write(JSON.stringify(payload));
-    req.end();
+export async function* codestralFIMStream(
+  req: CompletionRequest,
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const payload = { ...buildFIMPayload(req), stream: true };
+  const res = await postStream(FIM_URL, payload, CODESTRAL_API_KEY, options);
+  for await (const event of readJSONEvents<any>(res)) {
+    // The final chunk carries the usage totals
+    reportUsage(options, event?.usage);
+    const token = event?.choices?.[0]?.delta?.content;
+    if (token) yield token;
+  }
+}
+
+/**
+ * Helper – authenticated POST that returns parsed JSON.
+ */
+function postJSON<T>(url: string, payload: any, token: string, options: CallOptions): Promise<T> {
+  return requestJSON<T>({
+    provider: 'codestral',
+    url,
+    body: payload,
+    headers: { Authorization: `Bearer ${token}` },
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+  });
+}
+
+/**
+ * Helper – authenticated POST that resolves with the raw response once the
+ * status line arrives, so the body can be consumed as an event stream.
+ */
+function postStream(url: string, payload: any, token: string, options: CallOptions): Promise<IncomingMessage> {
+  return sendUpstream({
+    provider: 'codestral',
+    url,
+    body: payload,
+    headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
   });
 }
 
 /* --------------------------------------------------------------
    Optional: Mistral‑style chat (kept for backwards compatibility)
    -------------------------------------------------------------- */
-export async function mistralChat(req: ChatRequest): Promise<string> {
+export async function mistralChat(req: ChatRequest, options: CallOptions = {}): Promise<string> {
   const payload = {
     model: 'mistral-large-latest',
     messages: req.messages,
     temperature: req.temperature ?? 0.3,
   };
-  const raw = await postJSON<any>('https://api.mistral.ai/v1/chat/completions', payload, MISTRAL_API_KEY);
+  const raw = await postJSON<any>(CHAT_URL, payload, MISTRAL_API_KEY, options);
+  reportUsage(options, raw?.usage);
   return raw?.choices?.[0]?.message?.content ?? '';
-}
\ No newline at end of file
+}
+
+export async function* mistralChatStream(
+  req: ChatRequest,
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const payload = {
+    model: 'mistral-large-latest',
+    messages: req.messages,
+    temperature: req.temperature ?? 0.3,
+    stream: true,
+  };
+  const res = await postStream(CHAT_URL, payload, MISTRAL_API_KEY, options);
+  for await (const event of readJSONEvents<any>(res)) {
+    // The final chunk carries the usage totals
+    reportUsage(options, event?.usage);
+    const token = event?.choices?.[0]?.delta?.content;
+    if (token) yield token;
+  }
+}
+
+/* --------------------------------------------------------------
+   Provider adapter – FIM via Codestral, chat via Mistral
+   -------------------------------------------------------------- */
+export const codestralProvider: ProviderAdapter = {
+  id: 'codestral',
+  name: 'Codestral',
+  vendor: 'Mistral AI',
+  description: 'Advanced code completion model by Mistral AI, optimized for programming tasks',
+  capabilities: ['code-completion', 'code-generation', 'programming-languages'],
+  contextWindow: 32_768,
+  fim: true,
+  // Chat goes to the Mistral API, which takes its own key
+  chatSupported: Boolean(MISTRAL_API_KEY),
+  missingConfig: () => (CODESTRAL_API_KEY ? undefined : 'CODESTRAL_API_KEY is not set'),
+  // Listing the models checks the key without generating – or paying for – a single token
+  probe: async (options = {}) => {
+    const res = await sendUpstream({
+      provider: 'codestral',
+      url: MODELS_URL,
+      headers: { Authorization: `Bearer ${CODESTRAL_API_KEY}` },
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+    await readBody(res);
+  },
+  complete: codestralFIM,
+  chat: mistralChat,
+  streamCompletion: codestralFIMStream,
+  streamChat: mistralChatStream,
+};
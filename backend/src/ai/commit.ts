@@ -0,0 +1,57 @@
+import { ChatRequest } from '../types';
+
+const COMMIT_PROMPT = `You write git commit messages. Given a staged diff and a template, reply with only the commit message – no code fences, no quotes, no commentary. Keep the subject line under 72 characters and in the imperative mood. Add a body after a blank line only when the change needs explaining.`;
+
+/** Paths of the files a `git diff` touches, in order. */
+export function changedFiles(diff: string): string[] {
+  const files: string[] = [];
+  for (const match of diff.matchAll(/^diff --git a\/.+? b\/(.+)$/gm)) {
+    files.push(match[1]);
+  }
+  return files;
+}
+
+/**
+ * Fills the template variables the server knows – `{date}`, and `{file}`
+ * when a single file changed. `{description}` is left for the model.
+ */
+export function fillCommitTemplate(template: string, files: string[], date = new Date()): string {
+  return template
+    .replace(/\{date\}/g, date.toISOString().slice(0, 10))
+    .replace(/\{file\}/g, (whole) => (files.length === 1 ? files[0] : whole));
+}
+
+/**
+ * The chat request for a commit message. Long diffs are cut at `maxDiffChars`;
+ * the file list always goes in full so the model still sees the whole change set.
+ */
+export function buildCommitMessageRequest(diff: string, template: string, maxDiffChars: number): ChatRequest {
+  const files = changedFiles(diff);
+  const clipped =
+    diff.length > maxDiffChars ? `${diff.slice(0, maxDiffChars)}\n[diff truncated]` : diff;
+
+  const task = [
+    `Template: ${fillCommitTemplate(template, files)}`,
+    'Replace {description} with a short summary of the change and any other {placeholder} with what fits. Keep everything else in the template as written, but change a conventional-commit type such as "feat:" to the one that matches (fix, refactor, docs, test, chore, ...).',
+    `Changed files:\n${files.map((f) => `- ${f}`).join('\n')}`,
+    `Staged diff:\n\`\`\`diff\n${clipped}\n\`\`\``,
+  ].join('\n\n');
+
+  return {
+    messages: [
+      { role: 'system', content: COMMIT_PROMPT },
+      { role: 'user', content: task },
+    ],
+    temperature: 0.2,
+  };
+}
+
+/** Strips what models wrap a message in anyway: fences, quotes, a "Commit message:" label. */
+export function cleanCommitMessage(reply: string): string {
+  let message = reply.trim();
+  const fenced = /^```[^\n]*\n([\s\S]*?)\n?```$/.exec(message);
+  if (fenced) message = fenced[1].trim();
+  message = message.replace(/^commit message:\s*/i, '');
+  if (/^(["'`]).*\1$/s.test(message)) message = message.slice(1, -1).trim();
+  return message;
+}
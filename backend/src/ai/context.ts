@@ -0,0 +1,161 @@
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { CompletionRequest } from '../types';
+import { estimateTokens } from './tokens';
+
+/** What the editor knows beyond the prefix/suffix around the cursor. */
+export interface ContextHints {
+  /** Workspace‑relative path of the file being edited */
+  path?: string;
+  /** Workspace‑relative paths of the other open tabs */
+  openFiles?: string[];
+}
+
+export interface ContextOptions {
+  /** Token budget for all snippets together */
+  budget: number;
+  /** How many recently edited files may contribute */
+  recentFiles: number;
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.py': 'python',
+  '.go': 'go',
+  '.md': 'markdown',
+  '.json': 'json',
+  '.css': 'css',
+  '.html': 'html',
+  '.sh': 'shell',
+};
+
+/** Same mapping the editor uses, so both ends agree on a file's language. */
+export function languageFromPath(file?: string): string {
+  if (!file) return 'text';
+  return EXTENSION_LANGUAGES[path.extname(file).toLowerCase()] ?? 'text';
+}
+
+const JS_RESOLVE = ['', '.ts', '.tsx', '.d.ts', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
+const PY_RESOLVE = ['.py', '/__init__.py'];
+
+/**
+ * Workspace files the source imports, in import order. Only local imports
+ * are followed – packages from node_modules or site‑packages are the
+ * model's home turf anyway.
+ */
+export async function importedFiles(
+  workspace: WorkspaceService,
+  source: string,
+  file: string,
+  language: string
+): Promise<string[]> {
+  const dir = path.posix.dirname(file);
+  const candidates: string[][] = [];
+
+  if (language === 'python') {
+    const re = /^\s*(?:from\s+(\.*)([\w.]*)\s+import|import\s+([\w.]+))/gm;
+    for (const m of source.matchAll(re)) {
+      const dots = m[1] ?? '';
+      const mod = (m[2] || m[3] || '').replace(/\./g, '/');
+      // `from . import x` / `from .. import y` name the package itself
+      const base = dots
+        ? path.posix.join(dir, ...Array(Math.max(dots.length - 1, 0)).fill('..'), mod)
+        : mod;
+      candidates.push(PY_RESOLVE.map((ext) => `${base}${ext}`));
+    }
+  } else {
+    const re = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)/g;
+    for (const m of source.matchAll(re)) {
+      const spec = m[1] || m[2] || m[3];
+      if (!spec?.startsWith('.')) continue;
+      // ESM TypeScript imports name the emitted .js file
+      const base = path.posix.join(dir, spec).replace(/\.js$/, '');
+      candidates.push(JS_RESOLVE.map((ext) => `${base}${ext}`));
+    }
+  }
+
+  const found: string[] = [];
+  for (const options of candidates) {
+    for (const rel of options) {
+      if (!workspace.contains(rel) || !(await workspace.isFile(rel))) continue;
+      if (!found.includes(rel)) found.push(rel);
+      break;
+    }
+  }
+  return found;
+}
+
+/**
+ * Assembles `CompletionRequest.context`: files imported by the current one
+ * first (that's where our own types and helpers live), then the other open
+ * tabs, then recently edited files – each as a commented snippet, until the
+ * token budget is spent.
+ */
+export async function buildCompletionContext(
+  workspace: WorkspaceService,
+  req: CompletionRequest,
+  hints: ContextHints,
+  options: ContextOptions
+): Promise<string | undefined> {
+  const current = hints.path ? normalize(hints.path) : undefined;
+  const language = req.language ?? languageFromPath(current);
+  const source = `${req.prefix}${req.suffix ?? ''}`;
+
+  const imports = current ? await importedFiles(workspace, source, current, language) : [];
+  const ordered = [
+    ...imports,
+    ...(hints.openFiles ?? []).map(normalize),
+    ...workspace.recentlyEdited(options.recentFiles),
+  ];
+  const files = [...new Set(ordered)].filter((rel) => rel && rel !== current && workspace.contains(rel));
+
+  const snippets: string[] = [];
+  let remaining = options.budget - estimateTokens(req.context ?? '');
+  // No single file may eat more than half of the budget
+  const perFile = Math.floor(options.budget / 2);
+
+  for (const rel of files) {
+    if (remaining < 32) break;
+    let content: string;
+    try {
+      content = await workspace.readFile(rel);
+    } catch {
+      continue;
+    }
+    const header = commentLine(language, `Path: ${rel}`);
+    const snippet = truncateToTokens(content, Math.min(perFile, remaining) - estimateTokens(header)).trimEnd();
+    if (!snippet.trim()) continue;
+    snippets.push(`${header}\n${snippet}`);
+    remaining -= estimateTokens(header) + estimateTokens(snippet) + 1;
+  }
+
+  const parts = [req.context, ...snippets].filter(Boolean);
+  return parts.length ? parts.join('\n\n') : undefined;
+}
+
+/** The prefix adapters should send: repository context, then the code before the cursor. */
+export function contextualPrefix(req: CompletionRequest): string {
+  return req.context ? `${req.context}\n\n${req.prefix}` : req.prefix;
+}
+
+function normalize(rel: string) {
+  return path.posix.normalize(rel.replace(/\\/g, '/')).replace(/^\/+/, '');
+}
+
+/** Keeps whole lines from the top of `text` while they fit. */
+function truncateToTokens(text: string, tokens: number) {
+  if (tokens <= 0) return '';
+  if (estimateTokens(text) <= tokens) return text;
+  const cut = text.slice(0, tokens * 4);
+  const lastNewline = cut.lastIndexOf('\n');
+  return lastNewline > 0 ? cut.slice(0, lastNewline) : cut;
+}
+
+function commentLine(language: string, text: string) {
+  return language === 'python' || language === 'shell' ? `# ${text}` : `// ${text}`;
+}
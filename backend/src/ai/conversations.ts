@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ChatMessage, Conversation, ConversationSummary } from '../types';
+import { ConversationError } from './errors';
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+const TITLE_LENGTH = 60;
+
+/** A title from the first user message, cut at a word boundary. */
+export function titleFrom(messages: ChatMessage[]): string {
+  const first = messages.find((m) => m.role === 'user')?.content.replace(/\s+/g, ' ').trim() ?? '';
+  if (first.length <= TITLE_LENGTH) return first;
+  const cut = first.slice(0, TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 20 ? cut.lastIndexOf(' ') : TITLE_LENGTH)}…`;
+}
+
+/**
+ * Chat threads, one JSON file each under `dir`. Writes to a conversation
+ * are queued so two replies finishing together can't drop a message.
+ */
+export class ConversationStore {
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private dir: string) {}
+
+  async list(): Promise<ConversationSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+
+    const summaries: ConversationSummary[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const { messages, ...summary } = await this.read(path.basename(file, '.json'));
+        summaries.push({ ...summary, messageCount: messages.length });
+      } catch (e) {
+        console.warn(`⚠️ Skipping unreadable conversation ${file}:`, (e as Error).message);
+      }
+    }
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async create(title = '', messages: ChatMessage[] = []): Promise<Conversation> {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      title: title.trim() || titleFrom(messages),
+      createdAt: now,
+      updatedAt: now,
+      messages,
+    };
+    await fs.mkdir(this.dir, { recursive: true });
+    await this.write(conversation);
+    return conversation;
+  }
+
+  get(id: string): Promise<Conversation> {
+    return this.read(id);
+  }
+
+  rename(id: string, title: string): Promise<Conversation> {
+    return this.update(id, (c) => ({ ...c, title: title.trim() }));
+  }
+
+  /** Adds messages to the end of the thread; an untitled thread is named after its first question. */
+  append(id: string, messages: ChatMessage[]): Promise<Conversation> {
+    return this.update(id, (c) => {
+      const all = [...c.messages, ...messages];
+      return { ...c, title: c.title || titleFrom(all), messages: all, updatedAt: Date.now() };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.queued(id, async () => {
+      try {
+        await fs.unlink(this.file(id));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') throw this.notFound(id);
+        throw e;
+      }
+    });
+  }
+
+  private update(id: string, change: (c: Conversation) => Conversation): Promise<Conversation> {
+    return this.queued(id, async () => {
+      const next = change(await this.read(id));
+      await this.write(next);
+      return next;
+    });
+  }
+
+  private queued<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(id) ?? Promise.resolve()).catch(() => {}).then(task);
+    this.queues.set(id, run);
+    run.finally(() => {
+      if (this.queues.get(id) === run) this.queues.delete(id);
+    }).catch(() => {});
+    return run;
+  }
+
+  private async read(id: string): Promise<Conversation> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') throw this.notFound(id);
+      throw e;
+    }
+  }
+
+  /** Write-then-rename, so a crash mid-write never leaves half a file. */
+  private async write(conversation: Conversation) {
+    const target = this.file(conversation.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(conversation, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  private file(id: string) {
+    if (!ID_PATTERN.test(id)) throw this.notFound(id);
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private notFound(id: string) {
+    return new ConversationError(`Conversation not found: ${id}`);
+  }
+}
@@ -0,0 +1,151 @@
+import { DiffHunk } from '../types';
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+/** Lines of `text`; a trailing newline doesn't produce an empty last line. */
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Past this many inserted and removed lines the middle of the file is
+ * replaced wholesale – the trace grows with the square of the distance.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm).
+ * The common head and tail are peeled off first – model edits usually
+ * touch a small part of the file. Each step keeps only the diagonals it
+ * reached, and a rewrite longer than MAX_EDIT_DISTANCE comes back as one
+ * removal of the old middle and one insertion of the new.
+ */
+function editScript(a: string[], b: string[]): Op[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const x0 = a.slice(head, a.length - tail);
+  const y0 = b.slice(head, b.length - tail);
+  const n = x0.length;
+  const m = y0.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // trace[d][k + d + 1] is v[k] before step d, for the diagonals step d reads
+  const trace: number[][] = [];
+  let found = false;
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x] === y0[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+
+  const middle: Op[] = [];
+  if (!found) {
+    middle.push(...x0.map((line): Op => ({ type: '-', line })), ...y0.map((line): Op => ({ type: '+', line })));
+  }
+
+  // Walk the trace backwards to recover the edits
+  let x = found ? n : 0;
+  let y = found ? m : 0;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[k - 1 + d + 1] < vd[k + 1 + d + 1]) ? k + 1 : k - 1;
+    const prevX = vd[prevK + d + 1];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      middle.push({ type: ' ', line: x0[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) middle.push({ type: '+', line: y0[--y] });
+    else middle.push({ type: '-', line: x0[--x] });
+  }
+  if (found) middle.reverse();
+
+  return [
+    ...a.slice(0, head).map((line): Op => ({ type: ' ', line })),
+    ...middle,
+    ...a.slice(a.length - tail).map((line): Op => ({ type: ' ', line })),
+  ];
+}
+
+/** Hunks turning `before` into `after`, with `context` unchanged lines around each change. */
+export function diffLines(before: string, after: string, context = 3): DiffHunk[] {
+  const ops = editScript(splitLines(before), splitLines(after));
+  const hunks: DiffHunk[] = [];
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === ' ') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is close enough to share context
+    let end = i;
+    for (let j = i; j < ops.length; j++) {
+      if (ops[j].type !== ' ') end = j;
+      else if (j - end > context * 2) break;
+    }
+    const start = Math.max(0, i - context);
+    const stop = Math.min(ops.length, end + context + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let j = 0; j < start; j++) {
+      if (ops[j].type !== '+') oldStart++;
+      if (ops[j].type !== '-') newStart++;
+    }
+    const slice = ops.slice(start, stop);
+    const oldLines = slice.filter((op) => op.type !== '+').length;
+    const newLines = slice.filter((op) => op.type !== '-').length;
+    hunks.push({
+      // Unified diff convention: an empty range starts at the line before it
+      oldStart: oldLines ? oldStart : oldStart - 1,
+      oldLines,
+      newStart: newLines ? newStart : newStart - 1,
+      newLines,
+      lines: slice.map((op) => `${op.type}${op.line}`),
+    });
+    i = stop;
+  }
+  return hunks;
+}
+
+/** `git diff`‑style text for the hunks of one file. */
+export function formatUnifiedDiff(file: string, hunks: DiffHunk[]): string {
+  if (!hunks.length) return '';
+  const body = hunks.map(
+    (h) => `@@ -${h.oldStart},${h.oldLines} +${h.newStart},${h.newLines} @@\n${h.lines.join('\n')}`
+  );
+  return [`--- a/${file}`, `+++ b/${file}`, ...body].join('\n') + '\n';
+}
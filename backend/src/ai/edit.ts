@@ -0,0 +1,163 @@
+import { ChatRequest } from '../types';
+import { splitLines } from './diff';
+
+/** 1‑based, inclusive line range of the code to change. */
+export interface EditSelection {
+  startLine: number;
+  endLine: number;
+}
+
+export interface EditInstruction {
+  path: string;
+  language: string;
+  instruction: string;
+  selection?: EditSelection;
+}
+
+/** Code selected in the editor and what to do with it; the file itself may not be saved. */
+export interface InlineEdit {
+  instruction: string;
+  code: string;
+  /** Lines just above and below the selection */
+  before?: string;
+  after?: string;
+  language?: string;
+  path?: string;
+}
+
+const EDIT_PROMPT = `You edit source files. Apply the user's instruction and reply with the complete replacement for the code you were asked to change, in a single fenced code block. Keep everything the instruction doesn't ask to change exactly as it is, including indentation. No explanations.`;
+
+/**
+ * The chat request for an edit. With a selection the model sees the whole
+ * file for reference but only rewrites the selected lines.
+ */
+export function buildEditRequest(content: string, edit: EditInstruction): ChatRequest {
+  const lines = splitLines(content);
+  const fence = '```';
+  const file = `${fence}${edit.language}\n${content}${content.endsWith('\n') ? '' : '\n'}${fence}`;
+
+  let task: string;
+  if (edit.selection) {
+    const { startLine, endLine } = edit.selection;
+    const selected = lines.slice(startLine - 1, endLine).join('\n');
+    task = [
+      `File ${edit.path}:`,
+      file,
+      `Rewrite only lines ${startLine}-${endLine}:`,
+      `${fence}${edit.language}\n${selected}\n${fence}`,
+      `Instruction: ${edit.instruction}`,
+    ].join('\n\n');
+  } else {
+    task = [`File ${edit.path}:`, file, `Instruction: ${edit.instruction}`].join('\n\n');
+  }
+
+  return {
+    messages: [
+      { role: 'system', content: EDIT_PROMPT },
+      { role: 'user', content: task },
+    ],
+    temperature: 0.2,
+  };
+}
+
+/**
+ * The chat request for an inline edit. Only the selection is to be
+ * rewritten; the lines around it are there so the new code fits in.
+ */
+export function buildInlineEditRequest(edit: InlineEdit): ChatRequest {
+  const fence = '```';
+  const block = (code: string) => `${fence}${edit.language ?? ''}\n${code}${code.endsWith('\n') ? '' : '\n'}${fence}`;
+  const task = [
+    edit.path && `File ${edit.path}`,
+    edit.before && `Code above the selection:\n${block(edit.before)}`,
+    `Selected code to rewrite:\n${block(edit.code)}`,
+    edit.after && `Code below the selection:\n${block(edit.after)}`,
+    `Instruction: ${edit.instruction}`,
+  ];
+
+  return {
+    messages: [
+      { role: 'system', content: EDIT_PROMPT },
+      { role: 'user', content: task.filter(Boolean).join('\n\n') },
+    ],
+    temperature: 0.2,
+  };
+}
+
+/** The code inside the first fenced block of a reply, or the whole reply if it has none. */
+export function extractCode(reply: string): string {
+  const match = /```[^\n]*\n([\s\S]*?)```/.exec(reply);
+  return match ? match[1] : reply.trim();
+}
+
+/** `content` with the selected lines (or everything) replaced by `replacement`. */
+export function applyReplacement(content: string, replacement: string, selection?: EditSelection): string {
+  const trailingNewline = content.endsWith('\n') || !content;
+  const lines = splitLines(content);
+  const start = selection ? selection.startLine - 1 : 0;
+  const end = selection ? selection.endLine : lines.length;
+  const next = [...lines.slice(0, start), ...splitLines(replacement), ...lines.slice(end)];
+  return next.join('\n') + (trailingNewline && next.length ? '\n' : '');
+}
+
+const FENCE = '```';
+const CLOSING_FENCE = `\n${FENCE}`;
+
+/** Length of the longest end of `text` that `CLOSING_FENCE` starts with. */
+function partialFence(text: string) {
+  for (let n = Math.min(CLOSING_FENCE.length - 1, text.length); n > 0; n--) {
+    if (CLOSING_FENCE.startsWith(text.slice(-n))) return n;
+  }
+  return 0;
+}
+
+/**
+ * `extractCode` for a streamed reply: the code of a fenced block is yielded
+ * as it arrives, held back only where a closing fence might be starting.
+ * Everything after the block is read but dropped, so the upstream call
+ * still completes; a reply that doesn't open with a fence passes through.
+ */
+export async function* streamCode(tokens: AsyncIterable<string>): AsyncGenerator<string> {
+  let mode: 'start' | 'code' | 'raw' | 'done' = 'start';
+  let pending = '';
+  // The opening fence's newline, kept in `pending` until the first code goes out
+  let skip = 0;
+  for await (const token of tokens) {
+    if (mode === 'done') continue;
+    pending += token;
+
+    if (mode === 'start') {
+      const trimmed = pending.trimStart();
+      if (FENCE.startsWith(trimmed)) continue;
+      if (!trimmed.startsWith(FENCE)) {
+        mode = 'raw';
+      } else {
+        const newline = trimmed.indexOf('\n');
+        if (newline === -1) continue;
+        // Keep the newline that ends the opening fence, so an empty block closes like any other
+        pending = trimmed.slice(newline);
+        skip = 1;
+        mode = 'code';
+      }
+    }
+
+    if (mode === 'raw') {
+      yield pending;
+      pending = '';
+      continue;
+    }
+
+    const close = pending.indexOf(CLOSING_FENCE);
+    // Up to and including the newline before the closing fence, which ends the last line of code
+    const end = close === -1 ? pending.length - partialFence(pending) : close + 1;
+    if (end > 0) {
+      const code = pending.slice(skip, end);
+      pending = pending.slice(end);
+      skip = 0;
+      if (code) yield code;
+    }
+    if (close !== -1) mode = 'done';
+  }
+  const rest = pending.slice(skip);
+  if (mode !== 'done' && rest) yield mode === 'start' ? rest.trim() : rest;
+}
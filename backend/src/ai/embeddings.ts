@@ -0,0 +1,93 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Turns text into vectors for the codebase index. Vectors are compared by
+ * dot product, so implementations should return unit‑length vectors.
+ */
+export interface Embedder {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'our', 'that', 'the', 'this', 'to', 'we', 'what',
+  'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+/**
+ * Splits identifiers the way people read them – `validatePath`,
+ * `validate_path` and "validating paths" all end up as `validat` + `path`.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+function stem(token: string) {
+  if (token.length <= 4) return token;
+  const stripped = token.replace(/(ing|ed|es|s)$/, '');
+  return stripped.length > 3 ? stripped.replace(/e$/, '') : token;
+}
+
+/** FNV‑1a, good enough to spread tokens over the buckets. */
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Offline default: feature‑hashes word tokens and adjacent token pairs into
+ * a fixed number of buckets. Deterministic, dependency free and fast; it
+ * matches vocabulary rather than meaning, which is usually what you want
+ * when asking where something is in your own code.
+ */
+export function createHashingEmbedder(dimensions = 512): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+    const counts = new Map<string, number>();
+    for (const f of features) counts.set(f, (counts.get(f) ?? 0) + 1);
+
+    for (const [feature, count] of counts) {
+      const h = hash(feature);
+      // Second hash bit picks the sign so collisions cancel out instead of piling up
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map((v) => v / norm) : vector;
+  };
+
+  return {
+    id: `hashing-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+/**
+ * `local` selects the hashing embedder; anything else is imported like a
+ * provider module and must default‑export an `Embedder`.
+ */
+export async function loadEmbedder(spec: string): Promise<Embedder> {
+  if (!spec || spec === 'local') return createHashingEmbedder();
+  const target = spec.startsWith('.') || path.isAbsolute(spec)
+    ? pathToFileURL(path.resolve(spec)).href
+    : spec;
+  const mod = await import(target);
+  const embedder: Embedder = mod.default ?? mod.embedder;
+  console.log(`🧩 Loaded embedder ${embedder.id} from ${spec}`);
+  return embedder;
+}
@@ -0,0 +1,75 @@
+/**
+ * Upstream provider failure. `status` is what the API answers with, so the
+ * error handler can tell "model still loading" (503) from a plain crash.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status = 502
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/** The provider went quiet for longer than its timeout. */
+export class UpstreamTimeoutError extends ProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider, 504);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/** The provider is throttling us; `retryAfterMs` is its `Retry-After`, when it sent one. */
+export class RateLimitError extends ProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    public retryAfterMs?: number
+  ) {
+    super(message, provider, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** The provider rejected our credentials – a server configuration problem, not the caller's. */
+export class UpstreamAuthError extends ProviderError {
+  constructor(message: string, provider: string, status = 401) {
+    super(message, provider, status);
+    this.name = 'UpstreamAuthError';
+  }
+}
+
+/** A request the agent can't act on, e.g. approving a run that isn't waiting. */
+export class AgentError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'AgentError';
+  }
+}
+
+/** A chat thread that doesn't exist (or an id that can't be one). */
+export class ConversationError extends Error {
+  constructor(
+    message: string,
+    public status = 404
+  ) {
+    super(message);
+    this.name = 'ConversationError';
+  }
+}
+
+/** A slash command with no template behind it. */
+export class PromptError extends Error {
+  constructor(
+    message: string,
+    public status = 404
+  ) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/** `record` writes every provider exchange to disk, `replay` answers from it. */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/** What goes out – headers are left out so API keys never land in a fixture. */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+/** What came back, body chunks in arrival order so streams replay as streams. */
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  chunks: string[];
+}
+
+export interface Fixture {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+/** JSON with object keys sorted, so equal payloads always hash the same. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Recorded provider exchanges, one JSON file per distinct request under
+ * `<dir>/<host>/<hash>.json`. Re‑recording a request overwrites its file.
+ */
+export class FixtureStore {
+  constructor(private dir: string) {}
+
+  /** Fixture file for `req` – the same method, URL and body always map to the same file. */
+  fileFor(req: RecordedRequest) {
+    const hash = crypto
+      .createHash('sha256')
+      .update(`${req.method} ${req.url}\n${stableStringify(req.body)}`)
+      .digest('hex')
+      .slice(0, 16);
+    return path.join(this.dir, new URL(req.url).host.replace(/[^\w.-]/g, '_'), `${hash}.json`);
+  }
+
+  async load(req: RecordedRequest): Promise<Fixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(req), 'utf8')) as Fixture;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  async save(fixture: Fixture) {
+    const file = this.fileFor(fixture.request);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+    return file;
+  }
+}
@@ -0,0 +1,66 @@
+import { ProviderAdapter } from './registry';
+
+/** Outcome of the last probe of one provider. */
+export interface ProviderHealthStatus {
+  status: 'ok' | 'error' | 'unknown';
+  latencyMs?: number;
+  /** ISO time of the probe */
+  checkedAt?: string;
+  error?: string;
+}
+
+export interface ProviderHealthOptions {
+  /** How long one probe may take */
+  timeoutMs: number;
+}
+
+/**
+ * Probes providers with the free call each adapter offers and keeps the
+ * last result. Adapters without `probe`, or that are not configured, stay
+ * `unknown` – a missing API key is reported as such, not as an outage.
+ */
+export class ProviderHealth {
+  private results = new Map<string, ProviderHealthStatus>();
+  private running = new Map<string, Promise<ProviderHealthStatus>>();
+
+  constructor(private options: ProviderHealthOptions) {}
+
+  get(id: string): ProviderHealthStatus {
+    return this.results.get(id) ?? { status: 'unknown' };
+  }
+
+  /** Probes `adapter` now; concurrent calls for the same adapter share one probe. */
+  probe(adapter: ProviderAdapter): Promise<ProviderHealthStatus> {
+    if (!adapter.probe || adapter.missingConfig?.()) return Promise.resolve(this.get(adapter.id));
+
+    let running = this.running.get(adapter.id);
+    if (!running) {
+      running = this.run(adapter).finally(() => this.running.delete(adapter.id));
+      this.running.set(adapter.id, running);
+    }
+    return running;
+  }
+
+  probeAll(adapters: ProviderAdapter[]) {
+    return Promise.all(adapters.map((a) => this.probe(a)));
+  }
+
+  private async run(adapter: ProviderAdapter): Promise<ProviderHealthStatus> {
+    const startedAt = Date.now();
+    let result: ProviderHealthStatus;
+    try {
+      await adapter.probe!({ signal: AbortSignal.timeout(this.options.timeoutMs), timeoutMs: this.options.timeoutMs });
+      result = { status: 'ok', latencyMs: Date.now() - startedAt, checkedAt: new Date().toISOString() };
+    } catch (e) {
+      result = {
+        status: 'error',
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        error: (e as Error).message,
+      };
+      console.warn(`⚠️ Health check of AI provider ${adapter.id} failed: ${result.error}`);
+    }
+    this.results.set(adapter.id, result);
+    return result;
+  }
+}
@@ -0,0 +1,284 @@
+import http, { IncomingHttpHeaders, IncomingMessage } from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import { PassThrough, Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { setTimeout as sleep } from 'timers/promises';
+import { URL } from 'url';
+import {
+  AI_FIXTURE_MODE,
+  AI_FIXTURES_DIR,
+  AI_HTTP_TIMEOUT_MS,
+  AI_HTTP_RETRIES,
+  AI_HTTP_RETRY_BASE_MS,
+  AI_HTTP_RETRY_MAX_MS,
+  AI_HTTP_MAX_SOCKETS,
+  AI_HTTP_PROXY,
+  AI_HTTP_NO_PROXY,
+} from '../config';
+import { FixtureMode, FixtureStore, RecordedRequest } from './fixtures';
+import { ProviderError, RateLimitError, UpstreamAuthError, UpstreamTimeoutError } from './errors';
+
+/** One call to a provider API. */
+export interface UpstreamRequest {
+  /** Provider id, used in error messages */
+  provider: string;
+  url: string;
+  /** Sent as JSON; without a body the request is a GET */
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Longest silence allowed – before the status line and between body chunks */
+  timeoutMs?: number;
+}
+
+let mode: FixtureMode = AI_FIXTURE_MODE;
+let fixtures = new FixtureStore(AI_FIXTURES_DIR);
+
+/** Switches record/replay at runtime, e.g. per test file. */
+export function useFixtures(next: FixtureMode, dir = AI_FIXTURES_DIR) {
+  mode = next;
+  fixtures = new FixtureStore(dir);
+}
+
+// Pooled connections – providers are called over and over, skip the TLS handshake
+const agents = {
+  http: new http.Agent({ keepAlive: true, maxSockets: AI_HTTP_MAX_SOCKETS }),
+  https: new https.Agent({ keepAlive: true, maxSockets: AI_HTTP_MAX_SOCKETS }),
+};
+
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+/**
+ * Sends `req` and resolves with the response as soon as a successful status
+ * line arrives, so the body can still be streamed. 429 and 5xx answers and
+ * dropped connections are retried with exponential backoff, waiting as long
+ * as `Retry-After` asks when that fits in `AI_HTTP_RETRY_MAX_MS`; anything
+ * else that fails becomes a `ProviderError` (or one of its subclasses).
+ *
+ * Every adapter goes through here, so `AI_FIXTURE_MODE` can record the
+ * exchanges to `AI_FIXTURES_DIR` or replay them without any network.
+ */
+export async function sendUpstream(req: UpstreamRequest): Promise<IncomingMessage> {
+  // A replayed answer never changes, retrying it would only wait
+  const retries = mode === 'replay' ? 0 : AI_HTTP_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: IncomingMessage;
+    try {
+      res = await sendOnce(req);
+    } catch (e) {
+      if (req.signal?.aborted) throw e;
+      const transient = e instanceof UpstreamTimeoutError || RETRYABLE_CODES.has((e as NodeJS.ErrnoException).code ?? '');
+      if (!transient || attempt >= retries) {
+        throw e instanceof ProviderError ? e : new ProviderError(`${req.provider} request failed: ${(e as Error).message}`, req.provider);
+      }
+      await backoff(req, attempt, undefined, (e as Error).message);
+      continue;
+    }
+
+    const status = res.statusCode ?? 500;
+    if (status < 400) return res;
+
+    const wait = retryAfterMs(res.headers);
+    const error = upstreamError(req.provider, status, await readBody(res), wait);
+    const retryable = status === 429 || status >= 500;
+    if (!retryable || attempt >= retries || (wait ?? 0) > AI_HTTP_RETRY_MAX_MS) throw error;
+    await backoff(req, attempt, wait, `status ${status}`);
+  }
+}
+
+/** Sends `req` and parses the JSON it answers with. */
+export async function requestJSON<T>(req: UpstreamRequest): Promise<T> {
+  const data = await readBody(await sendUpstream(req));
+  try {
+    return JSON.parse(data) as T;
+  } catch (e) {
+    throw new ProviderError(`${req.provider} sent invalid JSON: ${(e as Error).message}`, req.provider);
+  }
+}
+
+/** The whole body of a response as UTF-8 text. */
+export async function readBody(res: IncomingMessage): Promise<string> {
+  const decoder = new StringDecoder('utf8');
+  let data = '';
+  for await (const chunk of res) data += decoder.write(chunk);
+  return data + decoder.end();
+}
+
+/** `Retry-After` in milliseconds – it may be a number of seconds or an HTTP date. */
+export function retryAfterMs(headers: IncomingHttpHeaders): number | undefined {
+  const value = headers['retry-after'];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** The error class for a failed status; the message keeps the provider's own explanation. */
+function upstreamError(provider: string, status: number, body: string, retryAfter?: number) {
+  let reason = body;
+  try {
+    const parsed = JSON.parse(body);
+    const detail = parsed?.error?.message ?? parsed?.error ?? parsed?.message ?? parsed?.detail;
+    if (typeof detail === 'string') reason = detail;
+  } catch {
+    // plain‑text error pages are fine as they are
+  }
+  const message = `${provider} request failed (${status}): ${reason.slice(0, 500)}`;
+  if (status === 429) return new RateLimitError(message, provider, retryAfter);
+  if (status === 401 || status === 403) return new UpstreamAuthError(message, provider, status);
+  return new ProviderError(message, provider, status);
+}
+
+async function backoff(req: UpstreamRequest, attempt: number, retryAfter: number | undefined, reason: string) {
+  // Jitter keeps clients that failed together from retrying together
+  const delay = retryAfter ?? Math.min(AI_HTTP_RETRY_BASE_MS * 2 ** attempt, AI_HTTP_RETRY_MAX_MS) * (0.5 + Math.random() / 2);
+  console.warn(`⚠️ ${req.provider} failed (${reason}), retrying in ${Math.round(delay)} ms`);
+  await sleep(delay, undefined, { signal: req.signal });
+}
+
+function recorded(req: UpstreamRequest): RecordedRequest {
+  return { method: req.body === undefined ? 'GET' : 'POST', url: req.url, body: req.body };
+}
+
+function sendOnce(req: UpstreamRequest): Promise<IncomingMessage> {
+  if (mode === 'replay') return replay(req);
+  return send(req).then((res) => (mode === 'record' ? record(req, res) : res));
+}
+
+/** Whether `url` should go through `AI_HTTP_PROXY` – `NO_PROXY` entries match the host and its subdomains. */
+function proxyFor(url: URL): URL | null {
+  if (!AI_HTTP_PROXY) return null;
+  const host = url.hostname.toLowerCase();
+  const bypass = AI_HTTP_NO_PROXY.some((entry) => {
+    const domain = entry.replace(/^\*?\./, '');
+    return entry === '*' || host === domain || host.endsWith(`.${domain}`);
+  });
+  return bypass ? null : new URL(AI_HTTP_PROXY);
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/** Opens a `CONNECT` tunnel through the proxy for a TLS connection to `target`. */
+function tunnel(proxy: URL, target: URL, req: UpstreamRequest, timeoutMs: number): Promise<net.Socket> {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const authority = `${target.hostname}:${target.port || 443}`;
+    const connect = http.request({
+      hostname: proxy.hostname,
+      port: proxy.port || 80,
+      method: 'CONNECT',
+      path: authority,
+      headers: { Host: authority, ...proxyAuthorization(proxy) },
+      signal: req.signal,
+    });
+    connect.setTimeout(timeoutMs, () =>
+      connect.destroy(new UpstreamTimeoutError(`Proxy did not open a tunnel to ${authority} within ${timeoutMs} ms`, req.provider))
+    );
+    connect.on('connect', (res, socket) => {
+      if (res.statusCode === 200) return resolve(socket);
+      socket.destroy();
+      reject(new ProviderError(`Proxy refused a tunnel to ${authority} (${res.statusCode})`, req.provider));
+    });
+    connect.on('error', reject);
+    connect.end();
+  });
+}
+
+async function send(req: UpstreamRequest): Promise<IncomingMessage> {
+  const url = new URL(req.url);
+  const secure = url.protocol === 'https:';
+  const timeoutMs = req.timeoutMs ?? AI_HTTP_TIMEOUT_MS;
+  const proxy = proxyFor(url);
+  const headers: Record<string, string> = { ...req.headers };
+  if (req.body !== undefined) headers['Content-Type'] = 'application/json';
+
+  const options: https.RequestOptions = {
+    hostname: url.hostname,
+    port: url.port || undefined,
+    path: url.pathname + url.search,
+    method: recorded(req).method,
+    headers,
+    signal: req.signal,
+    agent: secure ? agents.https : agents.http,
+  };
+  if (proxy && secure) {
+    // TLS runs end to end inside the tunnel, so the proxy never sees the API key
+    const socket = await tunnel(proxy, url, req, timeoutMs);
+    options.agent = false;
+    options.createConnection = () => tls.connect({ socket, servername: url.hostname });
+  } else if (proxy) {
+    Object.assign(options, {
+      hostname: proxy.hostname,
+      port: proxy.port || 80,
+      path: url.href,
+      headers: { ...headers, Host: url.host, ...proxyAuthorization(proxy) },
+    });
+  }
+
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    let response: IncomingMessage | undefined;
+    const outgoing = (secure ? https : http).request(options, (res) => {
+      response = res;
+      resolve(res);
+    });
+    // An inactivity timeout, so long streams are fine as long as tokens keep coming
+    outgoing.setTimeout(timeoutMs, () => {
+      const error = new UpstreamTimeoutError(`${req.provider} did not answer within ${timeoutMs} ms`, req.provider);
+      response?.destroy(error);
+      outgoing.destroy(error);
+    });
+    outgoing.on('error', reject);
+    if (req.body !== undefined) outgoing.write(JSON.stringify(req.body));
+    outgoing.end();
+  });
+}
+
+/**
+ * Passes the live response through unchanged and writes it to a fixture
+ * once it has been read to the end. Streams cut short are not recorded.
+ */
+function record(req: UpstreamRequest, res: IncomingMessage): IncomingMessage {
+  const chunks: string[] = [];
+  // Chunks are stored as text, so a character split between two is kept whole in the first
+  const decoder = new StringDecoder('utf8');
+  const tee = new PassThrough();
+  res.on('data', (chunk) => chunks.push(decoder.write(chunk)));
+  res.on('end', () => {
+    chunks.push(decoder.end());
+    const headers = Object.fromEntries(
+      Object.entries(res.headers)
+        .filter(([name, value]) => name !== 'set-cookie' && typeof value === 'string')
+    ) as Record<string, string>;
+    fixtures
+      .save({ request: recorded(req), response: { status: res.statusCode ?? 500, headers, chunks } })
+      .then((file) => console.log(`📼 Recorded ${req.url} to ${file}`))
+      .catch((e) => console.warn(`⚠️ Failed to record fixture for ${req.url}: ${(e as Error).message}`));
+  });
+  res.on('error', (e) => tee.destroy(e));
+  res.pipe(tee);
+  return Object.assign(tee, { statusCode: res.statusCode, headers: res.headers }) as unknown as IncomingMessage;
+}
+
+async function replay(req: UpstreamRequest): Promise<IncomingMessage> {
+  req.signal?.throwIfAborted();
+  const fixture = await fixtures.load(recorded(req));
+  if (!fixture) {
+    throw new ProviderError(
+      `No recorded response for ${req.url} (${fixtures.fileFor(recorded(req))}); record one with AI_FIXTURE_MODE=record`,
+      req.provider,
+      502
+    );
+  }
+  const body = Readable.from(fixture.response.chunks.map((c) => Buffer.from(c)));
+  return Object.assign(body, {
+    statusCode: fixture.response.status,
+    headers: fixture.response.headers,
+  }) as unknown as IncomingMessage;
+}
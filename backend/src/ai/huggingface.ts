@@ -1,40 +1,57 @@
-import https from 'https';
-import { URL } from 'url';
-import { HF_TOKEN } from '../../config';
+import { HF_TOKEN } from '../config';
+import { readJSONEvents } from './sse';
+import { readBody, requestJSON, sendUpstream } from './http';
+import { ProviderError } from './errors';
+import { contextualPrefix } from './context';
+import { CallOptions, ProviderAdapter } from './registry';
+import { CompletionRequest } from '../types';
 
 /**
- * Generic POST helper for the Hugging Face Inference API.
+ * Generic POST helper for the Hugging Face Inference API.
  * Returns parsed JSON.
  */
-export function hfPost<T>(modelId: string, payload: any): Promise<T> {
-  const endpoint = new URL(`https://api-inference.huggingface.co/models/${modelId}`);
-
-  const options = {
-    hostname: endpoint.hostname,
-    path: endpoint.pathname,
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${HF_TOKEN}`,
-      'Content-Type': 'application/json',
-    },
-  };
+export async function hfPost<T>(modelId: string, payload: any, options: CallOptions = {}): Promise<T> {
+  const body = await requestJSON<any>({
+    provider: modelId,
+    url: `https://api-inference.huggingface.co/models/${modelId}`,
+    body: payload,
+    headers: { Authorization: `Bearer ${HF_TOKEN}` },
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+  });
+  // Cold models answer `{ error: "… is currently loading", estimated_time }`,
+  // sometimes with a 200 – never hand that back as an empty answer
+  if (body?.error) {
+    const reason = typeof body.error === 'string' ? body.error : JSON.stringify(body.error);
+    throw new ProviderError(`HF ${modelId} failed: ${reason}`, modelId, 503);
+  }
+  return body;
+}
 
-  return new Promise<T>((resolve, reject) => {
-    const req = https.request(options, (res) => {
-      let data = '';
-      res.on('data', (c) => (data += c));
-      res.on('end', () => {
-        try {
-          resolve(JSON.parse(data));
-        } catch (e) {
-          reject(new Error(`HF JSON parse error: ${(e as Error).message}`));
-        }
-      });
-    });
-    req.on('error', reject);
-    req.write(JSON.stringify(payload));
-    req.end();
+/**
+ * Streaming POST – sends the payload with `stream: true` and yields the text
+ * of every generated token. Handles both the text‑generation event shape
+ * (`token.text`) and the OpenAI‑style chat shape (`choices[0].delta.content`).
+ */
+export async function* hfStream(
+  modelId: string,
+  payload: any,
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const res = await sendUpstream({
+    provider: modelId,
+    url: `https://api-inference.huggingface.co/models/${modelId}`,
+    body: { ...payload, stream: true },
+    headers: { Authorization: `Bearer ${HF_TOKEN}`, Accept: 'text/event-stream' },
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
   });
+
+  for await (const event of readJSONEvents<any>(res)) {
+    if (event?.token?.special) continue;
+    const token = event?.token?.text ?? event?.choices?.[0]?.delta?.content;
+    if (token) yield token;
+  }
 }
 
 /**
@@ -43,13 +60,14 @@ export function hfPost<T>(modelId: string, payload: any): Promise<T> {
 export async function hfChat(
   modelId: string,
   messages: { role: string; content: string }[],
-  temperature = 0.3
+  temperature = 0.3,
+  options: CallOptions = {}
 ) {
   const payload = {
     inputs: { messages },
     parameters: { temperature },
   };
-  const raw = await hfPost<any>(modelId, payload);
+  const raw = await hfPost<any>(modelId, payload, options);
   // Normalise the varied response shapes
   const content =
     raw?.generated_text ??
@@ -67,12 +85,143 @@ export async function hfCompletion(
   prompt: string,
   maxTokens = 256,
   temperature = 0.2,
-  stop?: string[]
+  stop?: string[],
+  options: CallOptions = {}
 ) {
   const payload = {
     inputs: prompt,
     parameters: { max_new_tokens: maxTokens, temperature, stop },
   };
-  const raw = await hfPost<any>(modelId, payload);
+  const raw = await hfPost<any>(modelId, payload, options);
   return raw?.generated_text ?? raw?.output?.[0] ?? '';
-}
\ No newline at end of file
+}
+
+/**
+ * `n` sampled completions of `prompt` in one request. The API answers with
+ * an array of `{ generated_text }`, or a single object when `n` is 1.
+ */
+export async function hfCompletions(
+  modelId: string,
+  prompt: string,
+  n: number,
+  maxTokens = 256,
+  temperature = 0.2,
+  options: CallOptions = {}
+): Promise<string[]> {
+  const payload = {
+    inputs: prompt,
+    parameters: { max_new_tokens: maxTokens, temperature, num_return_sequences: n, do_sample: n > 1 },
+  };
+  const raw = await hfPost<any>(modelId, payload, options);
+  const outputs: any[] = Array.isArray(raw) ? raw : [raw];
+  return outputs.map((o) => o?.generated_text ?? o?.output?.[0] ?? '');
+}
+
+/**
+ * Streaming variant of `hfChat`.
+ */
+export function hfChatStream(
+  modelId: string,
+  messages: { role: string; content: string }[],
+  temperature = 0.3,
+  options: CallOptions = {}
+) {
+  return hfStream(
+    modelId,
+    {
+      inputs: { messages },
+      parameters: { temperature },
+    },
+    options
+  );
+}
+
+/**
+ * Streaming variant of `hfCompletion`.
+ */
+export function hfCompletionStream(
+  modelId: string,
+  prompt: string,
+  maxTokens = 256,
+  temperature = 0.2,
+  stop?: string[],
+  options: CallOptions = {}
+) {
+  return hfStream(
+    modelId,
+    {
+      inputs: prompt,
+      parameters: { max_new_tokens: maxTokens, temperature, stop },
+    },
+    options
+  );
+}
+
+/* --------------------------------------------------------------
+   Provider adapter factory – one adapter per hosted model
+   -------------------------------------------------------------- */
+export interface HFProviderOptions {
+  id: string;
+  modelId: string;
+  name: string;
+  description: string;
+  capabilities: string[];
+  contextWindow?: number;
+}
+
+export function createHFProvider(opts: HFProviderOptions): ProviderAdapter {
+  const toMessages = (messages: { role: string; content: string }[]) =>
+    messages.map((m) => ({ role: m.role, content: m.content }));
+
+  return {
+    id: opts.id,
+    name: opts.name,
+    vendor: 'Hugging Face',
+    description: opts.description,
+    capabilities: opts.capabilities,
+    contextWindow: opts.contextWindow,
+    missingConfig: () => (HF_TOKEN ? undefined : 'HF_TOKEN is not set'),
+    // Checks the token and that the model exists; neither runs inference or costs anything
+    probe: async (options = {}) => {
+      for (const url of ['https://huggingface.co/api/whoami-v2', `https://huggingface.co/api/models/${opts.modelId}`]) {
+        const res = await sendUpstream({
+          provider: opts.id,
+          url,
+          headers: { Authorization: `Bearer ${HF_TOKEN}` },
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+        });
+        await readBody(res);
+      }
+    },
+
+    async complete(req, options: CallOptions = {}) {
+      if ((req.n ?? 1) > 1) {
+        // Sampling at the default 0.2 would mostly repeat one suggestion
+        const candidates = await hfCompletions(opts.modelId, hfPrompt(req), req.n!, req.maxTokens ?? 120, 0.7, options);
+        const text = candidates[0] ?? '';
+        return { text, completion: text, candidates };
+      }
+      const completion = await hfCompletion(
+        opts.modelId,
+        hfPrompt(req),
+        req.maxTokens ?? 120,
+        0.2,
+        undefined,
+        options
+      );
+      return { text: completion, completion };
+    },
+    chat: (req, options: CallOptions = {}) =>
+      hfChat(opts.modelId, toMessages(req.messages), req.temperature ?? 0.3, options),
+    streamCompletion: (req, options: CallOptions = {}) =>
+      hfCompletionStream(opts.modelId, hfPrompt(req), req.maxTokens ?? 120, 0.2, undefined, options),
+    streamChat: (req, options: CallOptions = {}) =>
+      hfChatStream(opts.modelId, toMessages(req.messages), req.temperature ?? 0.3, options),
+  };
+}
+
+/** Hugging Face models have no FIM mode – join prefix and suffix into one prompt. */
+function hfPrompt(req: CompletionRequest) {
+  return `${contextualPrefix(req)}${req.suffix ? '\n' + req.suffix : ''}`;
+}
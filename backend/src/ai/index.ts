@@ -1,49 +1,704 @@
-import { AIProvider, HF_MODEL_MAP } from './models';
-import { codestralFIM, mistralChat } from './codestral';
-import { hfChat, hfCompletion } from './huggingface';
-import { CompletionRequest, CompletionResponse, ChatRequest } from '../types';
-import { z } from 'zod';
+import { BUILTIN_PROVIDERS } from './models';
+import { AIProvider, CallOptions, ProviderAdapter, getProvider, hasProvider, isAllowed, listProviders, registerProvider } from './registry';
+import { CompletionCache } from './cache';
+import { CircuitBreaker, CircuitState } from './circuit';
+import { ProviderError } from './errors';
+import { TokenUsage, UsageTracker } from './usage';
+import { estimateTokens, localTokenizer } from './tokens';
+import { Budget, Fitted, fitChat, fitCompletion } from './budget';
+import { ContextHints, buildCompletionContext, languageFromPath } from './context';
+import { workspace } from '../workspace/service';
+import { CodebaseIndex, CodeSearchHit, codebasePrompt } from './codebase';
+import { createHashingEmbedder, loadEmbedder } from './embeddings';
+import { Agent, AgentTools } from './agent';
+import { EditInstruction, InlineEdit, applyReplacement, buildEditRequest, buildInlineEditRequest, extractCode, streamCode } from './edit';
+import { diffLines, formatUnifiedDiff } from './diff';
+import { PromptLibrary, PromptVariables } from './prompts';
+import { buildCommitMessageRequest, changedFiles, cleanCommitMessage } from './commit';
+import { buildReviewRequest, parseFindings } from './review';
+import { RelatedFile, TerminalMode, buildTerminalQuestion, mentionedFiles, withTerminalQuestion } from './terminal';
+import { ConversationStore } from './conversations';
+import { rankCandidates } from './candidates';
+import { ProviderHealth } from './health';
+import { Redactor } from './redact';
+import { AIModel, CompletionRequest, CompletionResponse, ChatMessage, ChatRequest, ChatResponse, EditResponse, CommitMessageResponse, ReviewResponse, Truncation } from '../types';
+import type { TerminalCommand } from '../services/terminal';
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  AI_CACHE_MAX_ENTRIES,
+  AI_CACHE_TTL_MS,
+  AI_CACHE_PREFIX_WINDOW,
+  AI_CACHE_SUFFIX_WINDOW,
+  AI_FALLBACK_CHAINS,
+  AI_HTTP_TIMEOUT_MS,
+  AI_HTTP_TIMEOUTS,
+  AI_BREAKER_ERROR_RATE,
+  AI_BREAKER_MIN_REQUESTS,
+  AI_BREAKER_WINDOW,
+  AI_BREAKER_COOLDOWN_MS,
+  AI_CONTEXT_TOKEN_BUDGET,
+  AI_CONTEXT_RECENT_FILES,
+  AI_COMPLETION_MAX_CANDIDATES,
+  AI_EMBEDDER,
+  AI_INDEX_CHUNK_LINES,
+  AI_INDEX_OVERLAP,
+  AI_INDEX_MAX_BYTES,
+  AI_INDEX_ENABLED,
+  AI_AGENT_MAX_STEPS,
+  AI_AGENT_COMMAND_TIMEOUT_MS,
+  AI_AGENT_MAX_OUTPUT,
+  AI_COMMIT_DIFF_MAX_CHARS,
+  AI_REVIEW_DIFF_MAX_CHARS,
+  AI_TERMINAL_MAX_FILES,
+  AI_TERMINAL_FILE_MAX_CHARS,
+  AI_CONVERSATIONS_DIR,
+  AI_DEFAULT_CONTEXT_WINDOW,
+  AI_REPLY_TOKEN_RESERVE,
+  AI_HEALTH_INTERVAL_MS,
+  AI_HEALTH_TIMEOUT_MS,
+  AI_REDACT_SECRETS,
+  AI_REDACT_ENV_FILES,
+  AI_REDACT_MIN_ENTROPY,
+} from '../config';
+
+BUILTIN_PROVIDERS.forEach(registerProvider);
+
+const completionCache = new CompletionCache({
+  maxEntries: AI_CACHE_MAX_ENTRIES,
+  ttlMs: AI_CACHE_TTL_MS,
+  prefixWindow: AI_CACHE_PREFIX_WINDOW,
+  suffixWindow: AI_CACHE_SUFFIX_WINDOW,
+});
+
+const usage = new UsageTracker();
+
+const health = new ProviderHealth({ timeoutMs: AI_HEALTH_TIMEOUT_MS });
+
+const prompts = new PromptLibrary(workspace);
+
+const redactor = new Redactor({ enabled: AI_REDACT_SECRETS, minEntropy: AI_REDACT_MIN_ENTROPY });
+
+/** Chat threads persisted under `AI_CONVERSATIONS_DIR`. */
+export const conversations = new ConversationStore(AI_CONVERSATIONS_DIR);
+
+const codebaseIndex = new CodebaseIndex(workspace, createHashingEmbedder(), {
+  chunkLines: AI_INDEX_CHUNK_LINES,
+  overlapLines: AI_INDEX_OVERLAP,
+  maxFileBytes: AI_INDEX_MAX_BYTES,
+  debounceMs: 500,
+});
+
+/* -----------------------------------------------------------------
+   Fallback chains & circuit breakers
+   ----------------------------------------------------------------- */
+const breakers = new Map<AIProvider, CircuitBreaker>();
+
+function breakerFor(id: AIProvider) {
+  let breaker = breakers.get(id);
+  if (!breaker) {
+    breaker = new CircuitBreaker({
+      errorRate: AI_BREAKER_ERROR_RATE,
+      minRequests: AI_BREAKER_MIN_REQUESTS,
+      window: AI_BREAKER_WINDOW,
+      cooldownMs: AI_BREAKER_COOLDOWN_MS,
+    });
+    breakers.set(id, breaker);
+  }
+  return breaker;
+}
+
+/** The requested provider followed by its configured fallbacks. */
+function candidatesFor(provider: AIProvider): ProviderAdapter[] {
+  const ids = [provider, ...(AI_FALLBACK_CHAINS[provider] ?? [])];
+  return [...new Set(ids)]
+    .filter((id, i) => i === 0 || (hasProvider(id) && isAllowed(id)))
+    .map((id) => getProvider(id));
+}
+
+/**
+ * One upstream attempt against `adapter`: times it, captures the usage the
+ * adapter reports (or estimates it from the text) and books it.
+ */
+class Attempt {
+  private startedAt = Date.now();
+  private reported?: TokenUsage;
+  readonly options: CallOptions;
+
+  constructor(
+    private adapter: ProviderAdapter,
+    options: CallOptions,
+    private promptTokens: number
+  ) {
+    this.options = {
+      ...options,
+      timeoutMs: options.timeoutMs ?? AI_HTTP_TIMEOUTS[adapter.id] ?? AI_HTTP_TIMEOUT_MS,
+      onUsage: (u) => {
+        this.reported = u;
+        options.onUsage?.(u);
+      },
+    };
+  }
+
+  finish(output: string, error = false): TokenUsage {
+    const tokens = this.reported ?? {
+      promptTokens: this.promptTokens,
+      completionTokens: estimateTokens(output),
+    };
+    usage.record({
+      ...tokens,
+      provider: this.adapter.id,
+      route: this.options.route ?? 'internal',
+      client: this.options.client ?? 'unknown',
+      latencyMs: Date.now() - this.startedAt,
+      error,
+    });
+    return tokens;
+  }
+}
+
+/**
+ * How much prompt `adapter` takes once room is left for a reply of
+ * `maxTokens`. Worked out per candidate, since a fallback may have a
+ * smaller window than the model that was asked for.
+ */
+function budgetFor(adapter: ProviderAdapter, maxTokens?: number): Budget {
+  const contextWindow = adapter.contextWindow ?? AI_DEFAULT_CONTEXT_WINDOW;
+  const reserve = Math.min(maxTokens ?? AI_REPLY_TOKEN_RESERVE, Math.floor(contextWindow / 2));
+  return { contextWindow, budget: contextWindow - reserve, tokenizer: adapter.tokenizer ?? localTokenizer };
+}
+
+/** A redaction session for one call to `adapter` that logs each secret it takes out; waits for the `.env` files. */
+function redactionFor(adapter: ProviderAdapter, options: CallOptions) {
+  return redactor.session((r) =>
+    console.log(`🔒 Redacted ${r.kind} (${r.length} chars) as ${r.placeholder} before calling ${adapter.id} (${options.route ?? 'internal'})`)
+  );
+}
+
+/**
+ * Tries each candidate whose circuit lets calls through until one succeeds.
+ * Cancellation by the caller is rethrown at once and never counts as a failure.
+ * Secrets go out as placeholders and are put back in the result.
+ */
+async function withFallback<R, T>(
+  provider: AIProvider,
+  options: CallOptions,
+  fit: (adapter: ProviderAdapter) => Fitted<R>,
+  call: (adapter: ProviderAdapter, request: R, options: CallOptions) => Promise<T>,
+  outputOf: (result: T) => string
+): Promise<{ adapter: ProviderAdapter; result: T; tokens: TokenUsage; truncation?: Truncation }> {
+  let lastError: unknown;
+  for (const adapter of candidatesFor(provider)) {
+    const breaker = breakerFor(adapter.id);
+    if (!breaker.canRequest()) continue;
+    const { request, promptTokens, truncation } = fit(adapter);
+    const attempt = new Attempt(adapter, options, promptTokens);
+    const redaction = await redactionFor(adapter, options);
+    try {
+      const result = redaction.restoreAll(await call(adapter, redaction.redactAll(request), attempt.options));
+      breaker.recordSuccess();
+      return { adapter, result, tokens: attempt.finish(outputOf(result)), truncation };
+    } catch (e) {
+      // A cancelled call still costs whatever was sent, but isn't the provider's fault
+      attempt.finish('', !options.signal?.aborted);
+      if (options.signal?.aborted) {
+        breaker.release();
+        throw e;
+      }
+      breaker.recordFailure();
+      console.warn(`⚠️ AI provider ${adapter.id} failed: ${(e as Error).message}`);
+      lastError = e;
+    }
+  }
+  throw lastError ?? new ProviderError(`No available provider for ${provider} (circuit open)`, provider, 503);
+}
+
+/**
+ * Streaming variant – a provider can only be swapped out before its first
+ * token, after that an error ends the stream. What was cut from the prompt
+ * is reported just before that first token, once the provider is settled.
+ * Secrets are restored as the tokens go by. A consumer that stops reading
+ * early frees the circuit's probe slot and still has the attempt booked.
+ */
+async function* streamWithFallback<R>(
+  provider: AIProvider,
+  options: CallOptions,
+  fit: (adapter: ProviderAdapter) => Fitted<R>,
+  stream: (adapter: ProviderAdapter, request: R, options: CallOptions) => AsyncIterable<string>
+): AsyncGenerator<string> {
+  let lastError: unknown;
+  for (const adapter of candidatesFor(provider)) {
+    const breaker = breakerFor(adapter.id);
+    if (!breaker.canRequest()) continue;
+    const { request, promptTokens, truncation } = fit(adapter);
+    const attempt = new Attempt(adapter, options, promptTokens);
+    const redaction = await redactionFor(adapter, options);
+    let output = '';
+    let settled = false;
+    try {
+      for await (const token of redaction.restoreStream(stream(adapter, redaction.redactAll(request), attempt.options))) {
+        if (!output && truncation) options.onTruncation?.(truncation);
+        output += token;
+        yield token;
+      }
+      settled = true;
+      breaker.recordSuccess();
+      attempt.finish(output);
+      return;
+    } catch (e) {
+      settled = true;
+      attempt.finish(output, !options.signal?.aborted);
+      if (options.signal?.aborted) {
+        breaker.release();
+        throw e;
+      }
+      breaker.recordFailure();
+      if (output) throw e;
+      console.warn(`⚠️ AI provider ${adapter.id} failed: ${(e as Error).message}`);
+      lastError = e;
+    } finally {
+      // The consumer stopped early (`break` or `return()`): neither branch above ran
+      if (!settled) {
+        breaker.release();
+        attempt.finish(output);
+      }
+    }
+  }
+  throw lastError ?? new ProviderError(`No available provider for ${provider} (circuit open)`, provider, 503);
+}
+
+/** Circuit state per provider that has been called at least once. */
+export function getCircuitStates(): Record<AIProvider, CircuitState> {
+  return Object.fromEntries([...breakers].map(([id, breaker]) => [id, breaker.state]));
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Models
+   ----------------------------------------------------------------- */
+
+/** Every registered provider with what it supports and whether it can be used right now. */
+export function listModels(): AIModel[] {
+  return listProviders().map((adapter) => {
+    const missing = adapter.missingConfig?.();
+    const status = health.get(adapter.id);
+    const reason = !isAllowed(adapter.id)
+      ? 'Not in ALLOWED_PROVIDERS'
+      : missing ?? (status.status === 'error' ? `Health check failed: ${status.error}` : undefined);
+    return {
+      id: adapter.id,
+      name: adapter.name,
+      provider: adapter.vendor,
+      description: adapter.description,
+      capabilities: adapter.capabilities,
+      contextWindow: adapter.contextWindow ?? AI_DEFAULT_CONTEXT_WINDOW,
+      supports: {
+        fim: adapter.fim ?? false,
+        chat: adapter.chatSupported ?? true,
+        streaming: Boolean(adapter.streamCompletion || adapter.streamChat),
+      },
+      configured: !missing,
+      available: !reason,
+      reason,
+      health: status,
+    };
+  });
+}
+
+/** Probes every allowed provider now. */
+export function probeProviders() {
+  return health.probeAll(listProviders().filter((a) => isAllowed(a.id)));
+}
+
+/** Probes the providers at start‑up and then every `AI_HEALTH_INTERVAL_MS`. */
+export function startHealthChecks() {
+  probeProviders();
+  if (AI_HEALTH_INTERVAL_MS > 0) setInterval(probeProviders, AI_HEALTH_INTERVAL_MS).unref();
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Secret redaction
+   ----------------------------------------------------------------- */
+
+/** Variables in `file`, or none when it doesn't exist. */
+async function readEnvFile(file: string): Promise<Record<string, string>> {
+  try {
+    return dotenv.parse(await fs.readFile(file, 'utf8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw e;
+  }
+}
+
+/**
+ * Loads the `AI_REDACT_ENV_FILES` next to the server and in the workspace
+ * so their values are redacted, and reloads the workspace ones on change.
+ * Provider calls made before the first load finishes wait for it.
+ */
+export async function startSecretRedaction() {
+  if (!AI_REDACT_SECRETS) return;
+  const names = AI_REDACT_ENV_FILES.map((name) => path.normalize(name));
+  const load = async (file: string) => redactor.setEnvFile(file, await readEnvFile(file));
+  const loading = Promise.all(names.flatMap((name) => [load(path.resolve(name)), load(path.join(workspace.root, name))]));
+  redactor.waitFor(loading);
+  await loading;
+
+  workspace.on('file:changed', (rel: string) => {
+    if (!names.includes(path.normalize(rel))) return;
+    load(path.join(workspace.root, rel)).catch((e) => console.warn(`⚠️ Failed to reload ${rel} for redaction:`, (e as Error).message));
+  });
+  workspace.on('file:deleted', (rel: string) => {
+    if (names.includes(path.normalize(rel))) redactor.setEnvFile(path.join(workspace.root, rel), {});
+  });
+}
 
 /* -----------------------------------------------------------------
    PUBLIC API – Completion
    ----------------------------------------------------------------- */
 export async function getCompletion(
   provider: AIProvider,
-  req: CompletionRequest
+  req: CompletionRequest,
+  options: CallOptions = {}
 ): Promise<CompletionResponse> {
-  switch (provider) {
-    case AIProvider.Codestral:
-      return codestralFIM(req);
+  const key = completionCache.key(provider, req);
+  const cached = completionCache.get(key);
+  if (cached) return cached;
 
-    case AIProvider.ChatGPTOSS:
-    case AIProvider.DKimi:
-      const modelId = HF_MODEL_MAP[provider];
-      const prompt = `${req.prefix || ''}${req.suffix ? '\n' + req.suffix : ''}`;
-      const completion = await hfCompletion(modelId, prompt, req.maxTokens ?? 120, 0.2);
-      return { completion };
+  const n = Math.min(Math.max(req.n ?? 1, 1), AI_COMPLETION_MAX_CANDIDATES);
+  const { adapter, result, tokens, truncation } = await withFallback(
+    provider,
+    options,
+    (a) => fitCompletion({ ...req, n }, budgetFor(a, req.maxTokens)),
+    (a, request, opts) => a.complete(request, opts),
+    (r) => (r.candidates ?? [r.completion ?? r.text ?? '']).join('')
+  );
+  const text = result.text ?? result.completion ?? '';
+  // Adapters may return fewer, or repeated, suggestions than were asked for
+  const candidates = n > 1 ? rankCandidates(result.candidates ?? [text], n) : undefined;
+  const response: CompletionResponse = {
+    ...result,
+    text: candidates ? candidates[0] ?? '' : text,
+    candidates,
+    tokens: tokens.promptTokens + tokens.completionTokens,
+    provider: adapter.id,
+    model: adapter.name,
+    truncation,
+  };
+  completionCache.set(key, response);
+  return response;
+}
 
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
+/**
+ * Fills in `language` (from the file name when the client didn't say) and
+ * `context` with snippets from imported files, open tabs and recent edits.
+ * Context is best effort – a failure here never blocks the completion.
+ */
+export async function withRepoContext(
+  req: CompletionRequest,
+  hints: ContextHints
+): Promise<CompletionRequest> {
+  const language = req.language ?? languageFromPath(hints.path);
+  try {
+    const context = await buildCompletionContext(workspace, { ...req, language }, hints, {
+      budget: AI_CONTEXT_TOKEN_BUDGET,
+      recentFiles: AI_CONTEXT_RECENT_FILES,
+    });
+    return { ...req, language, context };
+  } catch (e) {
+    console.warn('⚠️ Failed to build completion context:', (e as Error).message);
+    return { ...req, language };
   }
 }
 
+/* -----------------------------------------------------------------
+   PUBLIC API – Codebase search
+   ----------------------------------------------------------------- */
+
+/** Loads the configured embedder and indexes the workspace in the background. */
+export async function startCodebaseIndex() {
+  if (!AI_INDEX_ENABLED) return;
+  if (AI_EMBEDDER !== 'local') {
+    await codebaseIndex.setEmbedder(await loadEmbedder(AI_EMBEDDER));
+  }
+  codebaseIndex.start();
+}
+
+export function searchCodebase(query: string, limit = 5) {
+  return codebaseIndex.search(query, limit);
+}
+
+export function getCodebaseIndexStatus() {
+  return codebaseIndex.status();
+}
+
+/**
+ * Retrieves the chunks most relevant to the last user message and puts
+ * them in front of the conversation as a system message.
+ */
+export async function withCodebaseContext(
+  req: ChatRequest,
+  limit = 5
+): Promise<{ request: ChatRequest; sources: CodeSearchHit[] }> {
+  const question = [...req.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+  const sources = await codebaseIndex.search(question, limit);
+  return {
+    request: {
+      ...req,
+      messages: [{ role: 'system', content: codebasePrompt(sources) }, ...req.messages],
+    },
+    sources,
+  };
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Prompt library
+   ----------------------------------------------------------------- */
+
+/** Slash commands available in Chat – built‑ins plus `.aiide/prompts/*.md`. */
+export function listPrompts() {
+  return prompts.list();
+}
+
+/** Replaces the last user message with the named template, rendered with `vars`. */
+export async function withPrompt(
+  req: ChatRequest,
+  name: string,
+  vars: PromptVariables
+): Promise<ChatRequest> {
+  const content = await prompts.render(name, vars);
+  const last = req.messages.map((m) => m.role).lastIndexOf('user');
+  const messages = [...req.messages];
+  if (last === -1) messages.push({ role: 'user', content });
+  else messages[last] = { role: 'user', content };
+  return { ...req, messages };
+}
+
+export function getCompletionCacheStats() {
+  return completionCache.stats();
+}
+
+/** Requests, tokens, latency and errors per provider, route and client. */
+export function getUsage() {
+  return usage.snapshot();
+}
+
 /* -----------------------------------------------------------------
    PUBLIC API – Chat
    ----------------------------------------------------------------- */
-export async function getChat(provider: AIProvider, req: ChatRequest): Promise<string> {
-  const messages = req.messages.map((m) => ({ role: m.role, content: m.content }));
 
-  switch (provider) {
-    case AIProvider.ChatGPTOSS:
-    case AIProvider.DKimi:
-      const modelId = HF_MODEL_MAP[provider];
-      return hfChat(modelId, messages, req.temperature ?? 0.3);
+/** Puts the stored thread in front of the new messages of `req`. */
+export async function withConversation(req: ChatRequest, conversationId: string): Promise<ChatRequest> {
+  const { messages } = await conversations.get(conversationId);
+  return { ...req, messages: [...messages, ...req.messages] };
+}
+
+export async function getChat(
+  provider: AIProvider,
+  req: ChatRequest,
+  options: CallOptions = {}
+): Promise<ChatResponse> {
+  const { adapter, result, tokens, truncation } = await withFallback(
+    provider,
+    options,
+    (a) => fitChat(req, budgetFor(a, req.maxTokens)),
+    (a, request, opts) => a.chat(request, opts),
+    (reply) => reply
+  );
+  return {
+    reply: result,
+    tokens: tokens.promptTokens + tokens.completionTokens,
+    provider: adapter.id,
+    model: adapter.name,
+    truncation,
+  };
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Edits
+   ----------------------------------------------------------------- */
+
+/**
+ * Asks the model to apply `edit.instruction` to `content` and returns the
+ * result as a diff against `content`, so nothing changes until the user
+ * accepts hunks.
+ */
+export async function proposeEdit(
+  provider: AIProvider,
+  content: string,
+  edit: EditInstruction,
+  options: CallOptions = {}
+): Promise<EditResponse> {
+  const result = await getChat(provider, buildEditRequest(content, edit), options);
+  const proposed = applyReplacement(content, extractCode(result.reply), edit.selection);
+  const hunks = diffLines(content, proposed);
+  return {
+    path: edit.path,
+    diff: formatUnifiedDiff(edit.path, hunks),
+    hunks,
+    provider: result.provider,
+    model: result.model,
+  };
+}
+
+/**
+ * The rewritten code for an editor selection, yielded as it arrives with
+ * the reply's code fence already taken off.
+ */
+export function streamInlineEdit(
+  provider: AIProvider,
+  edit: InlineEdit,
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  return streamCode(streamChat(provider, buildInlineEditRequest(edit), options));
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Commit messages
+   ----------------------------------------------------------------- */
+
+/** A commit message for a staged `diff`, following the user's `template`. */
+export async function suggestCommitMessage(
+  provider: AIProvider,
+  diff: string,
+  template: string,
+  options: CallOptions = {}
+): Promise<Omit<CommitMessageResponse, 'success'>> {
+  const request = buildCommitMessageRequest(diff, template, AI_COMMIT_DIFF_MAX_CHARS);
+  const result = await getChat(provider, request, options);
+  return {
+    message: cleanCommitMessage(result.reply),
+    files: changedFiles(diff),
+    provider: result.provider,
+    model: result.model,
+  };
+}
 
-    case AIProvider.Codestral:
-      // Re‑use the existing Mistral chat client (still works)
-      return mistralChat(req);
+/* -----------------------------------------------------------------
+   PUBLIC API – Code review
+   ----------------------------------------------------------------- */
+
+/** Findings (file, line, severity, message) for a unified `diff`. */
+export async function reviewChanges(
+  provider: AIProvider,
+  diff: string,
+  options: CallOptions = {}
+): Promise<Omit<ReviewResponse, 'success' | 'scope' | 'base'>> {
+  const { request, truncated } = buildReviewRequest(diff, AI_REVIEW_DIFF_MAX_CHARS);
+  const result = await getChat(provider, request, options);
+  const findings = parseFindings(result.reply, diff);
+  if (!findings) {
+    throw new ProviderError('The model did not answer with review findings', result.provider ?? provider);
+  }
+  return {
+    findings,
+    files: changedFiles(diff),
+    truncated,
+    provider: result.provider,
+    model: result.model,
+  };
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Terminal
+   ----------------------------------------------------------------- */
 
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
+/**
+ * `req` with the question about a command the terminal ran, and the
+ * workspace files its output mentions read in. `files` is what `terminalFix`
+ * may later propose to change.
+ */
+export async function withTerminalCommand(
+  req: ChatRequest,
+  run: TerminalCommand,
+  mode: TerminalMode
+): Promise<{ request: ChatRequest; question: ChatMessage; files: RelatedFile[] }> {
+  const files: RelatedFile[] = [];
+  for (const rel of mentionedFiles(run, workspace.root)) {
+    if (files.length >= AI_TERMINAL_MAX_FILES) break;
+    if (!(await workspace.isFile(rel))) continue;
+    const content = await workspace.readFile(rel);
+    const clipped = content.length > AI_TERMINAL_FILE_MAX_CHARS;
+    files.push({ path: rel, content: clipped ? content.slice(0, AI_TERMINAL_FILE_MAX_CHARS) : content, clipped });
   }
-}
\ No newline at end of file
+  const question = buildTerminalQuestion(run, mode, files);
+  return { request: withTerminalQuestion(req, question, mode), question, files };
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Agent
+   ----------------------------------------------------------------- */
+
+/** Tool‑calling agent over the shared workspace, the codebase index and the given terminal. */
+export function createAgent(terminal: AgentTools['terminal']) {
+  return new Agent({ workspace, terminal, search: searchCodebase }, getChat, {
+    maxSteps: AI_AGENT_MAX_STEPS,
+    commandTimeoutMs: AI_AGENT_COMMAND_TIMEOUT_MS,
+    maxOutput: AI_AGENT_MAX_OUTPUT,
+    maxRuns: 100,
+  });
+}
+
+/* -----------------------------------------------------------------
+   PUBLIC API – Streaming
+   Both yield tokens as the upstream provider produces them, falling back
+   along the chain until the first token arrives.
+   ----------------------------------------------------------------- */
+export function streamCompletion(
+  provider: AIProvider,
+  req: CompletionRequest,
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const fit = (adapter: ProviderAdapter) => fitCompletion(req, budgetFor(adapter, req.maxTokens));
+  return streamWithFallback(provider, options, fit, async function* (adapter, request, opts) {
+    if (adapter.streamCompletion) {
+      yield* adapter.streamCompletion(request, opts);
+      return;
+    }
+    const result = await adapter.complete(request, opts);
+    yield result.completion ?? result.text ?? '';
+  });
+}
+
+export function streamChat(
+  provider: AIProvider,
+  req: ChatRequest,
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const fit = (adapter: ProviderAdapter) => fitChat(req, budgetFor(adapter, req.maxTokens));
+  return streamWithFallback(provider, options, fit, async function* (adapter, request, opts) {
+    if (adapter.streamChat) {
+      yield* adapter.streamChat(request, opts);
+      return;
+    }
+    yield await adapter.chat(request, opts);
+  });
+}
+
+export { listProviders, providerSchema, registerProvider, loadProviderModules } from './registry';
+export type { AIProvider, CallOptions, ProviderAdapter } from './registry';
+export { localTokenizer } from './tokens';
+export type { Tokenizer } from './tokens';
+export type { CompletionCacheStats } from './cache';
+export type { CircuitState } from './circuit';
+export { createMockProvider } from './mock';
+export type { MockProviderOptions } from './mock';
+export { languageFromPath } from './context';
+export type { ContextHints } from './context';
+export type { EditInstruction, EditSelection, InlineEdit } from './edit';
+export { terminalFix } from './terminal';
+export type { Redaction } from './redact';
+export type { RelatedFile, TerminalMode } from './terminal';
+export type { PromptVariables } from './prompts';
+export type { CodeSearchHit, CodebaseIndexStatus } from './codebase';
+export type { Embedder } from './embeddings';
+export type { Agent } from './agent';
+export type { UsageSnapshot, UsageTotals } from './usage';
+export {
+  ProviderError,
+  RateLimitError,
+  UpstreamTimeoutError,
+  UpstreamAuthError,
+  AgentError,
+  PromptError,
+  ConversationError,
+} from './errors';
@@ -0,0 +1,86 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { ChatRequest, CompletionRequest } from '../types';
+import { ProviderError } from './errors';
+import { CallOptions, ProviderAdapter } from './registry';
+
+export interface MockProviderOptions {
+  id?: string;
+  name?: string;
+  /** Completion to return; by default a placeholder naming the language */
+  completion?: (req: CompletionRequest) => string;
+  /** Chat reply to return; by default an echo of the last user message */
+  reply?: (req: ChatRequest) => string;
+  /** Fail every call with this status, e.g. 503 to exercise fallback chains */
+  failWith?: number;
+  /** Pause between streamed tokens, so the UI shows them arriving */
+  tokenDelayMs?: number;
+}
+
+function defaultCompletion(req: CompletionRequest) {
+  return ` /* mock ${req.language ?? 'text'} completion */`;
+}
+
+function defaultReply(req: ChatRequest) {
+  const question = [...req.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+  const quoted = question.length > 80 ? `${question.slice(0, 80)}…` : question;
+  return `Mock reply to "${quoted}" (${req.messages.length} messages in context).`;
+}
+
+/** Splits text into word tokens that keep their leading whitespace. */
+function tokens(text: string) {
+  return text.match(/\s*\S+|\s+$/g) ?? [];
+}
+
+/**
+ * A provider that answers from canned text without any network – for
+ * running the IDE without API keys, and for tests that need a provider
+ * which streams, fails or falls back on cue.
+ */
+export function createMockProvider(opts: MockProviderOptions = {}): ProviderAdapter {
+  const id = opts.id ?? 'mock';
+  const completionOf = opts.completion ?? defaultCompletion;
+  const replyOf = opts.reply ?? defaultReply;
+
+  const check = (options: CallOptions) => {
+    options.signal?.throwIfAborted();
+    if (opts.failWith) throw new ProviderError(`Mock provider ${id} failed (${opts.failWith})`, id, opts.failWith);
+  };
+
+  async function* stream(text: string, options: CallOptions) {
+    check(options);
+    for (const token of tokens(text)) {
+      if (opts.tokenDelayMs) await sleep(opts.tokenDelayMs, undefined, { signal: options.signal });
+      yield token;
+    }
+  }
+
+  return {
+    id,
+    name: opts.name ?? 'Mock',
+    vendor: 'Local',
+    description: 'Canned answers for development and tests – no network, no API key',
+    capabilities: ['code-completion', 'chat', 'offline'],
+    contextWindow: 8192,
+
+    async probe(options: CallOptions = {}) {
+      check(options);
+    },
+
+    async complete(req, options: CallOptions = {}) {
+      check(options);
+      const text = completionOf(req);
+      const n = req.n ?? 1;
+      if (n <= 1) return { text, completion: text };
+      const candidates = Array.from({ length: n }, (_, i) => (i === 0 ? text : `${text} ${i + 1}`));
+      return { text, completion: text, candidates };
+    },
+
+    async chat(req, options: CallOptions = {}) {
+      check(options);
+      return replyOf(req);
+    },
+
+    streamCompletion: (req, options: CallOptions = {}) => stream(completionOf(req), options),
+    streamChat: (req, options: CallOptions = {}) => stream(replyOf(req), options),
+  };
+}
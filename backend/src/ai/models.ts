@@ -1,11 +1,52 @@
-export enum AIProvider {
-  Codestral = 'codestral',
-  ChatGPTOSS = 'chatgpt-oss',
-  DKimi = 'dkimi',
+import { ProviderAdapter } from './registry';
+import { codestralProvider } from './codestral';
+import { createHFProvider } from './huggingface';
+import { createOpenAICompatProvider } from './openai';
+import { createMockProvider } from './mock';
+import {
+  OPENAI_COMPAT_BASE_URL,
+  OPENAI_COMPAT_MODEL,
+  OPENAI_COMPAT_API_KEY,
+  OPENAI_COMPAT_ID,
+  OPENAI_COMPAT_NAME,
+  OPENAI_COMPAT_CONTEXT_WINDOW,
+  AI_MOCK_PROVIDER,
+} from '../config';
+
+/** Adapters that ship with the IDE. Register more via `AI_PROVIDER_MODULES`. */
+export const BUILTIN_PROVIDERS: ProviderAdapter[] = [
+  codestralProvider,
+  createHFProvider({
+    id: 'chatgpt-oss',
+    modelId: 'OpenChatKit/ChatGPT-OSS',
+    name: 'ChatGPT-OSS',
+    description: 'Open-source chat model based on OpenChatKit, suitable for general conversations',
+    capabilities: ['chat', 'conversation', 'general-purpose'],
+    contextWindow: 2048,
+  }),
+  createHFProvider({
+    id: 'dkimi',
+    modelId: 'kakaoenterprise/dkimi',
+    name: 'dKimi',
+    description: 'Korean-language chat model optimized for Korean text understanding and generation',
+    capabilities: ['chat', 'korean-language', 'conversation'],
+    contextWindow: 2048,
+  }),
+];
+
+if (OPENAI_COMPAT_BASE_URL) {
+  BUILTIN_PROVIDERS.push(
+    createOpenAICompatProvider({
+      id: OPENAI_COMPAT_ID,
+      name: OPENAI_COMPAT_NAME,
+      baseUrl: OPENAI_COMPAT_BASE_URL,
+      model: OPENAI_COMPAT_MODEL,
+      apiKey: OPENAI_COMPAT_API_KEY || undefined,
+      contextWindow: OPENAI_COMPAT_CONTEXT_WINDOW || undefined,
+    })
+  );
 }
 
-/** Only the Hugging Face providers need a model ID map */
-export const HF_MODEL_MAP: Record<AIProvider.ChatGPTOSS | AIProvider.DKimi, string> = {
-  [AIProvider.ChatGPTOSS]: 'OpenChatKit/ChatGPT-OSS',
-  [AIProvider.DKimi]: 'kakaoenterprise/dkimi',
-};
\ No newline at end of file
+if (AI_MOCK_PROVIDER) {
+  BUILTIN_PROVIDERS.push(createMockProvider({ tokenDelayMs: 30 }));
+}
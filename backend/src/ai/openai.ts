@@ -0,0 +1,142 @@
+import { IncomingMessage } from 'http';
+import { CompletionRequest, ChatRequest } from '../types';
+import { readJSONEvents } from './sse';
+import { readBody, sendUpstream } from './http';
+import { ProviderError } from './errors';
+import { reportUsage } from './usage';
+import { contextualPrefix } from './context';
+import { CallOptions, ProviderAdapter } from './registry';
+
+/**
+ * Adapter for any server that speaks the OpenAI REST dialect
+ * (`/chat/completions` and `/completions`) – llama.cpp, Ollama, vLLM,
+ * LM Studio… Nothing leaves the configured base URL, which makes it the
+ * provider of choice for air‑gapped setups.
+ */
+export interface OpenAICompatOptions {
+  id: string;
+  name: string;
+  /** Base URL including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Model name the server expects in the `model` field */
+  model: string;
+  apiKey?: string;
+  description?: string;
+  contextWindow?: number;
+}
+
+/**
+ * POST to `<baseUrl><path>`, resolving once the status line arrives.
+ */
+function openaiRequest(
+  opts: OpenAICompatOptions,
+  path: string,
+  payload: any,
+  options: CallOptions
+): Promise<IncomingMessage> {
+  const headers: Record<string, string> = {};
+  if (opts.apiKey) headers.Authorization = `Bearer ${opts.apiKey}`;
+  if (payload.stream) headers.Accept = 'text/event-stream';
+
+  return sendUpstream({
+    provider: opts.id,
+    url: `${opts.baseUrl.replace(/\/+$/, '')}${path}`,
+    body: payload,
+    headers,
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+  });
+}
+
+async function openaiJSON<T>(
+  opts: OpenAICompatOptions,
+  path: string,
+  payload: any,
+  options: CallOptions
+): Promise<T> {
+  const data = await readBody(await openaiRequest(opts, path, payload, options));
+  try {
+    return JSON.parse(data) as T;
+  } catch (e) {
+    throw new ProviderError(`${opts.name} JSON parse error: ${(e as Error).message}`, opts.id);
+  }
+}
+
+function completionPayload(opts: OpenAICompatOptions, req: CompletionRequest) {
+  const n = req.n ?? 1;
+  return {
+    model: opts.model,
+    prompt: contextualPrefix(req),
+    suffix: req.suffix,
+    max_tokens: req.maxTokens ?? 120,
+    // Sampling several at the default 0.2 would mostly repeat one suggestion
+    temperature: n > 1 ? Math.max(req.temperature ?? 0, 0.7) : req.temperature ?? 0.2,
+    ...(n > 1 && { n }),
+  };
+}
+
+function chatPayload(opts: OpenAICompatOptions, req: ChatRequest) {
+  return {
+    model: opts.model,
+    messages: req.messages.map((m) => ({ role: m.role, content: m.content })),
+    temperature: req.temperature ?? 0.3,
+    max_tokens: req.maxTokens,
+  };
+}
+
+export function createOpenAICompatProvider(opts: OpenAICompatOptions): ProviderAdapter {
+  return {
+    id: opts.id,
+    name: opts.name,
+    vendor: 'OpenAI-compatible',
+    description: opts.description ?? `${opts.model} served from ${opts.baseUrl}`,
+    capabilities: ['code-completion', 'chat', 'self-hosted'],
+    contextWindow: opts.contextWindow,
+    // Every OpenAI-style server lists its models, and it costs no tokens
+    probe: async (options: CallOptions = {}) => {
+      const headers: Record<string, string> = opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {};
+      const res = await sendUpstream({
+        provider: opts.id,
+        url: `${opts.baseUrl.replace(/\/+$/, '')}/models`,
+        headers,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+      });
+      await readBody(res);
+    },
+
+    async complete(req, options: CallOptions = {}) {
+      const raw = await openaiJSON<any>(opts, '/completions', completionPayload(opts, req), options);
+      reportUsage(options, raw?.usage);
+      const candidates: string[] = (raw?.choices ?? []).map((c: any) => c?.text ?? '');
+      const text = candidates[0] ?? '';
+      return { text, completion: text, ...(candidates.length > 1 && { candidates }) };
+    },
+
+    async chat(req, options: CallOptions = {}) {
+      const raw = await openaiJSON<any>(opts, '/chat/completions', chatPayload(opts, req), options);
+      reportUsage(options, raw?.usage);
+      return raw?.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *streamCompletion(req, options: CallOptions = {}) {
+      const payload = { ...completionPayload(opts, req), stream: true };
+      const res = await openaiRequest(opts, '/completions', payload, options);
+      for await (const event of readJSONEvents<any>(res)) {
+        reportUsage(options, event?.usage);
+        const token = event?.choices?.[0]?.text;
+        if (token) yield token;
+      }
+    },
+
+    async *streamChat(req, options: CallOptions = {}) {
+      const payload = { ...chatPayload(opts, req), stream: true };
+      const res = await openaiRequest(opts, '/chat/completions', payload, options);
+      for await (const event of readJSONEvents<any>(res)) {
+        reportUsage(options, event?.usage);
+        const token = event?.choices?.[0]?.delta?.content;
+        if (token) yield token;
+      }
+    },
+  };
+}
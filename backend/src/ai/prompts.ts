@@ -0,0 +1,162 @@
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { PromptTemplate } from '../types';
+import { PromptError } from './errors';
+
+/** Where teams keep their own templates, relative to the workspace root. */
+export const PROMPTS_DIR = '.aiide/prompts';
+
+/** Values a template can refer to as `{{name}}`. */
+export interface PromptVariables {
+  /** Text typed after the command, e.g. "focus on errors" in `/explain focus on errors` */
+  input?: string;
+  /** The editor selection, or the whole file when nothing is selected */
+  code?: string;
+  path?: string;
+  language?: string;
+}
+
+const BUILTIN_PROMPTS: Record<string, string> = {
+  explain: `---
+description: Explain what the code does
+---
+Explain what the following {{language}} code from \`{{path}}\` does. Walk through it step by step and point out anything surprising.
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+{{input}}`,
+
+  tests: `---
+description: Write unit tests for the code
+---
+Write unit tests for the following {{language}} code from \`{{path}}\`. Use the test framework the project already uses, cover edge cases and failure paths, and reply with the complete test file.
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+{{input}}`,
+
+  fix: `---
+description: Find and fix bugs in the code
+---
+Find the bugs in the following {{language}} code from \`{{path}}\`. For each one, say what is wrong and why, then give the corrected code.
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+{{input}}`,
+
+  doc: `---
+description: Add documentation comments
+---
+Add documentation comments to the following {{language}} code from \`{{path}}\`, in the style idiomatic for the language. Do not change behaviour. Reply with the documented code.
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+{{input}}`,
+
+  optimize: `---
+description: Suggest performance improvements
+---
+Suggest how to make the following {{language}} code from \`{{path}}\` faster or lighter on memory. Explain the trade‑offs and give the improved code.
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+{{input}}`,
+};
+
+interface ParsedTemplate {
+  description: string;
+  body: string;
+}
+
+/** Splits an optional `---` front matter block (only `description:` is read) from the body. */
+export function parseTemplate(source: string): ParsedTemplate {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!match) return { description: '', body: source.trim() };
+  const description = /^description:\s*(.*)$/m.exec(match[1])?.[1].trim() ?? '';
+  return { description, body: source.slice(match[0].length).trim() };
+}
+
+/**
+ * Fills in `{{variables}}`. Text typed after the command is appended when
+ * the template has no `{{input}}` of its own, so nothing the user wrote is lost.
+ */
+export function renderTemplate(body: string, vars: PromptVariables): string {
+  const values: Record<string, string> = {
+    input: vars.input?.trim() ?? '',
+    code: vars.code ?? '',
+    path: vars.path ?? '',
+    language: vars.language ?? '',
+  };
+  let rendered = body.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, name: string) =>
+    name in values ? values[name] : whole
+  );
+  if (values.input && !/\{\{\s*input\s*\}\}/.test(body)) {
+    rendered += `\n\n${values.input}`;
+  }
+  return rendered.trim();
+}
+
+/**
+ * Slash‑command templates for Chat: a few built in, plus every
+ * `.aiide/prompts/<name>.md` in the workspace, which wins on a name clash.
+ * Files are read on every call, so edits apply immediately.
+ */
+export class PromptLibrary {
+  constructor(private workspace: WorkspaceService) {}
+
+  async list(): Promise<PromptTemplate[]> {
+    const templates = await this.load();
+    return [...templates.values()]
+      .map(({ body, ...template }) => template)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async render(name: string, vars: PromptVariables): Promise<string> {
+    const template = (await this.load()).get(name);
+    if (!template) {
+      throw new PromptError(`Unknown prompt: /${name}`);
+    }
+    return renderTemplate(template.body, vars);
+  }
+
+  private async load(): Promise<Map<string, PromptTemplate & { body: string }>> {
+    const templates = new Map<string, PromptTemplate & { body: string }>();
+    for (const [name, source] of Object.entries(BUILTIN_PROMPTS)) {
+      templates.set(name, { name, ...parseTemplate(source), source: 'builtin', usesCode: true });
+    }
+
+    let files: string[] = [];
+    try {
+      files = await this.workspace.listFiles(PROMPTS_DIR);
+    } catch {
+      // No prompt directory – only the built‑ins
+    }
+    for (const rel of files) {
+      if (path.posix.dirname(rel) !== PROMPTS_DIR || path.extname(rel) !== '.md') continue;
+      const name = path.basename(rel, '.md').toLowerCase();
+      if (!/^[\w-]+$/.test(name)) continue;
+      try {
+        const parsed = parseTemplate(await this.workspace.readFile(rel));
+        templates.set(name, {
+          name,
+          ...parsed,
+          source: 'workspace',
+          usesCode: /\{\{\s*code\s*\}\}/.test(parsed.body),
+        });
+      } catch (e) {
+        console.warn(`⚠️ Failed to read prompt ${rel}:`, (e as Error).message);
+      }
+    }
+    return templates;
+  }
+}
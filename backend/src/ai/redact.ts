@@ -0,0 +1,206 @@
+/** One secret taken out of a prompt. The secret itself is never kept here, so this is safe to log. */
+export interface Redaction {
+  /** What was found, e.g. `JWT` or `ENV_DATABASE_URL` */
+  kind: string;
+  placeholder: string;
+  length: number;
+}
+
+export interface RedactorOptions {
+  /** Off leaves prompts and replies untouched */
+  enabled: boolean;
+  /** Bits per character above which a long mixed-case token with digits counts as a secret */
+  minEntropy: number;
+}
+
+interface SecretDetector {
+  kind: string;
+  pattern: RegExp;
+  /** Second look at a match the pattern alone can't decide */
+  accept?: (match: string) => boolean;
+}
+
+/** Shortest `.env` value worth redacting – below it are ports, flags and the like. */
+const MIN_ENV_SECRET_LENGTH = 8;
+
+const PLACEHOLDER = /\[REDACTED_[A-Z0-9_]+_\d+\]/g;
+const PLACEHOLDER_START = '[REDACTED_';
+
+/** Bits of information per character of `text`. */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Pattern detectors, most specific first. Hex (at most 4 bits per
+ * character) never passes the entropy check, so hashes and ids stay.
+ */
+function detectors(minEntropy: number): SecretDetector[] {
+  return [
+    {
+      kind: 'PRIVATE_KEY',
+      pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+    },
+    { kind: 'AWS_ACCESS_KEY', pattern: /\b(?:AKIA|ASIA|AIDA|AROA|AGPA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g },
+    {
+      kind: 'AWS_SECRET_KEY',
+      pattern: /(?<=aws_?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+    },
+    { kind: 'JWT', pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g },
+    {
+      kind: 'API_TOKEN',
+      pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abprs]-[\w-]{10,}|sk-[\w-]{20,}|hf_[A-Za-z0-9]{30,})/g,
+    },
+    {
+      kind: 'SECRET',
+      pattern: /[A-Za-z0-9+/=_-]{24,}/g,
+      accept: (match) =>
+        /\d/.test(match) && /[a-z]/.test(match) && /[A-Z]/.test(match) && shannonEntropy(match) >= minEntropy,
+    },
+  ];
+}
+
+/** Values in a `.env` file that would be too common to redact without mangling ordinary code. */
+function isEnvSecret(value: string) {
+  return value.length >= MIN_ENV_SECRET_LENGTH && !/^(?:\d+|[A-Za-z]+|true|false)$/.test(value);
+}
+
+/**
+ * The redaction for one provider call. Each secret becomes a numbered
+ * placeholder – the same one every time it appears – and placeholders the
+ * model echoes back are turned into the secret again.
+ */
+export class RedactionSession {
+  readonly redactions: Redaction[] = [];
+  private placeholders = new Map<string, string>();
+  private secrets = new Map<string, string>();
+  private counts = new Map<string, number>();
+
+  constructor(
+    private envSecrets: [string, string][],
+    private detectors: SecretDetector[],
+    private onRedact: (redaction: Redaction) => void
+  ) {}
+
+  private placeholderFor(kind: string, secret: string) {
+    let placeholder = this.placeholders.get(secret);
+    if (!placeholder) {
+      const n = (this.counts.get(kind) ?? 0) + 1;
+      this.counts.set(kind, n);
+      placeholder = `[REDACTED_${kind}_${n}]`;
+      this.placeholders.set(secret, placeholder);
+      this.secrets.set(placeholder, secret);
+      const redaction = { kind, placeholder, length: secret.length };
+      this.redactions.push(redaction);
+      this.onRedact(redaction);
+    }
+    return placeholder;
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const [value, name] of this.envSecrets) {
+      if (result.includes(value)) result = result.split(value).join(this.placeholderFor(`ENV_${name}`, value));
+    }
+    for (const { kind, pattern, accept } of this.detectors) {
+      result = result.replace(pattern, (match) => (accept && !accept(match) ? match : this.placeholderFor(kind, match)));
+    }
+    return result;
+  }
+
+  restore(text: string): string {
+    if (!this.secrets.size) return text;
+    return text.replace(PLACEHOLDER, (placeholder) => this.secrets.get(placeholder) ?? placeholder);
+  }
+
+  /** `value` with every string in it – however deeply nested – redacted. */
+  redactAll<T>(value: T): T {
+    return mapStrings(value, (text) => this.redact(text));
+  }
+
+  restoreAll<T>(value: T): T {
+    return this.secrets.size ? mapStrings(value, (text) => this.restore(text)) : value;
+  }
+
+  /**
+   * `restore` for a streamed reply. A token ending in what may be the start
+   * of a placeholder is held back until the rest arrives.
+   */
+  async *restoreStream(tokens: AsyncIterable<string>): AsyncGenerator<string> {
+    let pending = '';
+    for await (const token of tokens) {
+      if (!this.secrets.size) {
+        yield token;
+        continue;
+      }
+      pending += token;
+      const start = pending.lastIndexOf('[');
+      const tail = start === -1 ? '' : pending.slice(start);
+      const partial =
+        tail && !tail.includes(']') && (PLACEHOLDER_START.startsWith(tail) || /^\[REDACTED_[A-Z0-9_]*$/.test(tail));
+      const ready = partial ? pending.slice(0, start) : pending;
+      pending = partial ? tail : '';
+      if (ready) yield this.restore(ready);
+    }
+    if (pending) yield this.restore(pending);
+  }
+}
+
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map)) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Keeps secrets out of prompts: pattern detectors for keys, tokens and
+ * other high-entropy strings, plus the values of variables in the `.env`
+ * files it is given.
+ */
+export class Redactor {
+  private envFiles = new Map<string, Record<string, string>>();
+  private detectors: SecretDetector[];
+  private loading: Promise<void> = Promise.resolve();
+
+  constructor(private options: RedactorOptions) {
+    this.detectors = detectors(options.minEntropy);
+  }
+
+  /** Redacts the values in `vars` from now on, in place of what `file` held before. */
+  setEnvFile(file: string, vars: Record<string, string>) {
+    this.envFiles.set(file, vars);
+  }
+
+  /** Holds back new sessions until `loading` – e.g. reading the `.env` files – settles. */
+  waitFor(loading: Promise<unknown>) {
+    this.loading = Promise.all([this.loading, loading]).then(
+      () => undefined,
+      () => undefined
+    );
+  }
+
+  /** A session for one provider call; `onRedact` hears of each secret as it is taken out. */
+  async session(onRedact: (redaction: Redaction) => void = () => {}): Promise<RedactionSession> {
+    if (!this.options.enabled) return new RedactionSession([], [], onRedact);
+    await this.loading;
+    const envSecrets = new Map<string, string>();
+    for (const vars of this.envFiles.values()) {
+      for (const [name, value] of Object.entries(vars)) {
+        if (isEnvSecret(value)) envSecrets.set(value, name.toUpperCase().replace(/[^A-Z0-9_]/g, '_'));
+      }
+    }
+    // Longest first, so a value containing another is replaced whole
+    const sorted = [...envSecrets].sort(([a], [b]) => b.length - a.length);
+    return new RedactionSession(sorted, this.detectors, onRedact);
+  }
+}
@@ -0,0 +1,111 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { ALLOWED_PROVIDERS } from '../config';
+import { CompletionRequest, CompletionResponse, ChatRequest, Truncation } from '../types';
+import type { Tokenizer } from './tokens';
+import type { TokenUsage } from './usage';
+
+/** Provider ids are free‑form strings so adapters can be added at runtime. */
+export type AIProvider = string;
+
+/** Per‑call options every adapter method accepts. */
+export interface CallOptions {
+  /** Aborts the upstream HTTP request, e.g. when the client went away */
+  signal?: AbortSignal;
+  /** Longest silence allowed from the provider, see `AI_HTTP_TIMEOUTS` */
+  timeoutMs?: number;
+  /** Called by adapters whose API reports real token counts */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called before the first token of a stream whose prompt had to be cut – ignored by adapters */
+  onTruncation?: (truncation: Truncation) => void;
+  /** Usage accounting labels – ignored by adapters */
+  route?: string;
+  client?: string;
+}
+
+/**
+ * Everything the IDE needs to know about one model. Built‑in adapters live in
+ * `models.ts`; extra ones can be loaded from `AI_PROVIDER_MODULES`.
+ */
+export interface ProviderAdapter {
+  id: AIProvider;
+  /** Display name of the model, e.g. "Codestral" */
+  name: string;
+  /** Who serves the model, e.g. "Mistral AI" */
+  vendor: string;
+  description: string;
+  capabilities: string[];
+  /** Tokens the model accepts, prompt and reply together; unset means `AI_DEFAULT_CONTEXT_WINDOW` */
+  contextWindow?: number;
+  /** Counts tokens in the model's own vocabulary; unset means the local estimate */
+  tokenizer?: Tokenizer;
+  /** Whether completions use the suffix natively (fill‑in‑the‑middle) rather than appending it to the prompt */
+  fim?: boolean;
+  /** Set to false when `chat` can't work, e.g. its API key is separate and missing */
+  chatSupported?: boolean;
+
+  /** What keeps the adapter from working, e.g. "CODESTRAL_API_KEY is not set"; nothing when it's ready */
+  missingConfig?(): string | undefined;
+  /** A free call – a model list or key check, never a completion – that proves the provider answers; rejects when it doesn't */
+  probe?(options?: CallOptions): Promise<void>;
+
+  complete(req: CompletionRequest, options?: CallOptions): Promise<CompletionResponse>;
+  chat(req: ChatRequest, options?: CallOptions): Promise<string>;
+
+  /** Optional – without them the non‑streaming call is yielded as one token. */
+  streamCompletion?(req: CompletionRequest, options?: CallOptions): AsyncIterable<string>;
+  streamChat?(req: ChatRequest, options?: CallOptions): AsyncIterable<string>;
+}
+
+const providers = new Map<AIProvider, ProviderAdapter>();
+
+export function registerProvider(adapter: ProviderAdapter) {
+  if (providers.has(adapter.id)) {
+    throw new Error(`AI provider already registered: ${adapter.id}`);
+  }
+  providers.set(adapter.id, adapter);
+}
+
+export function hasProvider(id: string) {
+  return providers.has(id);
+}
+
+export function getProvider(id: AIProvider): ProviderAdapter {
+  const adapter = providers.get(id);
+  if (!adapter) throw new Error(`Unsupported provider: ${id}`);
+  return adapter;
+}
+
+export function listProviders(): ProviderAdapter[] {
+  return [...providers.values()];
+}
+
+/** Whether `ALLOWED_PROVIDERS` lets requests through to `id`; an empty list allows every provider. */
+export function isAllowed(id: AIProvider) {
+  return ALLOWED_PROVIDERS.length === 0 || ALLOWED_PROVIDERS.includes(id.toLowerCase());
+}
+
+/** Validates a provider id against whatever is registered, and allowed, at parse time. */
+export const providerSchema = z.string().superRefine((id, ctx) => {
+  if (!hasProvider(id)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown provider: ${id}` });
+  else if (!isAllowed(id)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Provider ${id} is not in ALLOWED_PROVIDERS` });
+});
+
+/**
+ * Imports extra adapter modules (paths relative to the working directory, or
+ * package names). Each module default‑exports an adapter or an array of them.
+ */
+export async function loadProviderModules(specifiers: string[]) {
+  for (const spec of specifiers) {
+    const target = spec.startsWith('.') || path.isAbsolute(spec)
+      ? pathToFileURL(path.resolve(spec)).href
+      : spec;
+    const mod = await import(target);
+    const exported: ProviderAdapter | ProviderAdapter[] = mod.default ?? mod.provider;
+    for (const adapter of ([] as ProviderAdapter[]).concat(exported)) {
+      registerProvider(adapter);
+    }
+    console.log(`🧩 Loaded AI provider module ${spec}`);
+  }
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { ChatRequest, ReviewFinding } from '../types';
+import { changedFiles } from './commit';
+
+const REVIEW_PROMPT = `You review code changes before a human does. Look for bugs, security problems, missing error handling, race conditions and confusing code in the added lines; ignore style nits a formatter would fix. Reply with only a JSON array in a \`\`\`json block, one object per finding: {"file": "<path as in the diff>", "line": <line number in the new file>, "severity": "error" | "warning" | "info", "message": "<what is wrong and how to fix it>"}. Reply with [] when there is nothing worth flagging.`;
+
+/**
+ * Prefixes every context and added line of a unified diff with its line
+ * number in the new file, so the model can cite lines without counting.
+ */
+export function numberDiff(diff: string): string {
+  let line = 0;
+  return diff
+    .split('\n')
+    .map((text) => {
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+      if (hunk) {
+        line = Number(hunk[1]);
+        return text;
+      }
+      if (!line || text.startsWith('\\')) return text;
+      if (text.startsWith('diff --git')) {
+        line = 0;
+        return text;
+      }
+      if (text.startsWith('-')) return `      ${text}`;
+      return `${String(line++).padStart(5)} ${text}`;
+    })
+    .join('\n');
+}
+
+/** The chat request for a review; long diffs are cut at `maxDiffChars`. */
+export function buildReviewRequest(diff: string, maxDiffChars: number): { request: ChatRequest; truncated: boolean } {
+  const numbered = numberDiff(diff);
+  const truncated = numbered.length > maxDiffChars;
+  const clipped = truncated ? `${numbered.slice(0, maxDiffChars)}\n[diff truncated]` : numbered;
+
+  return {
+    request: {
+      messages: [
+        { role: 'system', content: REVIEW_PROMPT },
+        { role: 'user', content: `Review this diff:\n\n\`\`\`diff\n${clipped}\n\`\`\`` },
+      ],
+      temperature: 0.2,
+    },
+    truncated,
+  };
+}
+
+const SEVERITIES: Record<string, ReviewFinding['severity']> = {
+  error: 'error',
+  critical: 'error',
+  high: 'error',
+  warning: 'warning',
+  warn: 'warning',
+  medium: 'warning',
+  info: 'info',
+  low: 'info',
+  suggestion: 'info',
+};
+
+const findingSchema = z.object({
+  file: z.string().min(1),
+  line: z.coerce.number().int().min(1),
+  severity: z.string().transform((s) => SEVERITIES[s.toLowerCase()] ?? 'info'),
+  message: z.string().min(1),
+});
+
+/**
+ * Findings from a review reply, or null when the reply holds no JSON array.
+ * Malformed entries and files that aren't part of the diff are dropped.
+ */
+export function parseFindings(reply: string, diff: string): ReviewFinding[] | null {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(reply)?.[1];
+  const source = fenced ?? reply.slice(reply.indexOf('['), reply.lastIndexOf(']') + 1);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(raw)) return null;
+
+  const files = new Set(changedFiles(diff));
+  const findings: ReviewFinding[] = [];
+  for (const item of raw) {
+    const parsed = findingSchema.safeParse(item);
+    if (!parsed.success) continue;
+    const file = parsed.data.file.replace(/^[ab]\//, '');
+    if (!files.has(file)) continue;
+    findings.push({ ...parsed.data, file });
+  }
+  return findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
@@ -0,0 +1,43 @@
+import { IncomingMessage } from 'http';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Reads a `text/event-stream` response and yields the `data:` payload of
+ * every event. Multi-line data fields are joined with `\n`, as per the spec.
+ * A character split across network chunks is decoded once both halves are in.
+ */
+export async function* readSSE(res: IncomingMessage): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+  for await (const chunk of res) {
+    buffer += decoder.write(chunk).replace(/\r\n/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = event
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+    }
+  }
+}
+
+/**
+ * Reads an SSE stream of JSON events, stopping at the OpenAI‑style `[DONE]`
+ * sentinel. Payloads that are not valid JSON are skipped.
+ */
+export async function* readJSONEvents<T = any>(res: IncomingMessage): AsyncGenerator<T> {
+  for await (const data of readSSE(res)) {
+    if (data === '[DONE]') return;
+    try {
+      yield JSON.parse(data) as T;
+    } catch {
+      // keep‑alive comments and partial frames are not worth failing the stream for
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import path from 'path';
+import type { TerminalCommand } from '../services/terminal';
+import { ChatMessage, ChatRequest, TerminalFix } from '../types';
+import { applyReplacement } from './edit';
+import { diffLines, formatUnifiedDiff } from './diff';
+import { languageFromPath } from './context';
+
+export type TerminalMode = 'explain' | 'fix';
+
+/** A workspace file sent along with the question; only files sent whole may be edited by a fix. */
+export interface RelatedFile {
+  path: string;
+  content: string;
+  clipped: boolean;
+}
+
+const EXPLAIN_PROMPT = `You help a developer understand why a command in their terminal failed. Say in a few sentences what went wrong and point at the file and line responsible when the output shows one. Don't repeat the output back.`;
+
+const FIX_PROMPT = `${EXPLAIN_PROMPT} Then propose a fix. If a different command solves it, end with that command alone in a \`\`\`sh block. If a file has to change, end with a line "File: <path relative to the workspace root>" followed by the complete new contents of that file in one fenced block. Propose at most one command and one file.`;
+
+/** Path-like words with an extension, e.g. `src/app.ts` in `src/app.ts:12:5` or `(./lib/x.js:3)`. */
+const PATH_LIKE = /(?:\.{0,2}\/)?(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z][\w]*/g;
+
+/**
+ * Workspace-relative paths of the files a command and its output mention,
+ * in order of first mention. Relative paths are resolved against the
+ * command's working directory; anything outside `root` or under
+ * `node_modules` is left out. Whether the files exist is up to the caller.
+ */
+export function mentionedFiles(run: Pick<TerminalCommand, 'command' | 'output' | 'workingDirectory'>, root: string): string[] {
+  const files: string[] = [];
+  for (const [word] of `${run.command}\n${run.output}`.matchAll(PATH_LIKE)) {
+    const rel = path.relative(root, path.resolve(run.workingDirectory, word));
+    if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) continue;
+    if (rel.split(path.sep).includes('node_modules')) continue;
+    const normalized = rel.split(path.sep).join('/');
+    if (!files.includes(normalized)) files.push(normalized);
+  }
+  return files;
+}
+
+/** The question about a finished command – what ran where, what it printed and the files involved. */
+export function buildTerminalQuestion(run: TerminalCommand, mode: TerminalMode, files: RelatedFile[]): ChatMessage {
+  const fence = '```';
+  const status = run.exitCode === undefined ? 'printed errors' : `exited with code ${run.exitCode}`;
+  const parts = [
+    `${mode === 'fix' ? 'Fix' : 'Explain'} this: \`${run.command}\` run in ${run.workingDirectory} ${status}.`,
+    `Output:\n${fence}\n${run.output.trimEnd() || '(none)'}\n${fence}`,
+  ];
+  for (const file of files) {
+    const body = `${file.content}${file.content.endsWith('\n') ? '' : '\n'}${file.clipped ? '[file truncated]\n' : ''}`;
+    parts.push(`File: ${file.path}\n${fence}${languageFromPath(file.path)}\n${body}${fence}`);
+  }
+  return { role: 'user', content: parts.join('\n\n') };
+}
+
+/**
+ * The command and file a `fix` answer ends with, if any. The command is
+ * the last shell block; the file is a "File: <path>" line and the fenced
+ * block right after it.
+ */
+export function parseTerminalFix(reply: string): { command?: string; file?: { path: string; content: string } } {
+  const result: { command?: string; file?: { path: string; content: string } } = {};
+
+  const shell = [...reply.matchAll(/```(?:sh|bash|shell|zsh|console)[^\n]*\n([\s\S]*?)```/g)].at(-1);
+  const command = shell?.[1]
+    .split('\n')
+    .map((line) => line.replace(/^\$\s+/, ''))
+    .join('\n')
+    .trim();
+  if (command) result.command = command;
+
+  const file = /^\W*File:\W*?([\w@./-]+)`?\**\s*\n```[^\n]*\n([\s\S]*?)```/m.exec(reply);
+  if (file) result.file = { path: file[1].replace(/^\.\//, ''), content: file[2] };
+
+  return result;
+}
+
+/**
+ * What a `fix` answer proposes, with a file change turned into hunks for
+ * review. A change to a file the model didn't see in full is dropped –
+ * replacing it would lose what was cut.
+ */
+export function terminalFix(reply: string, files: RelatedFile[]): TerminalFix | undefined {
+  const { command, file } = parseTerminalFix(reply);
+  const original = file && files.find((f) => f.path === file.path && !f.clipped);
+
+  const fix: TerminalFix = {};
+  if (command) fix.command = command;
+  if (file && original) {
+    const hunks = diffLines(original.content, applyReplacement(original.content, file.content));
+    if (hunks.length) fix.edit = { path: file.path, diff: formatUnifiedDiff(file.path, hunks), hunks };
+  }
+  return fix.command || fix.edit ? fix : undefined;
+}
+
+/** `req` – e.g. a stored thread – with the instructions in front and the question at the end. */
+export function withTerminalQuestion(req: ChatRequest, question: ChatMessage, mode: TerminalMode): ChatRequest {
+  return {
+    ...req,
+    messages: [{ role: 'system', content: mode === 'fix' ? FIX_PROMPT : EXPLAIN_PROMPT }, ...req.messages, question],
+    temperature: 0.2,
+  };
+}
@@ -0,0 +1,71 @@
+import { ChatMessage } from '../types';
+
+/**
+ * Rough token count for when a provider doesn't report usage. Four
+ * characters per token is close enough for English prose and code.
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/**
+ * Counts tokens the way a model's vocabulary would. Adapters can bring the
+ * real one for their model; the rest share `localTokenizer`.
+ */
+export interface Tokenizer {
+  id: string;
+  count(text: string): number;
+}
+
+/** Words, number groups, punctuation runs and whitespace, each with the space before it – like BPE pre‑tokenizers split. */
+const PIECES = / ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+function pieceTokens(piece: string) {
+  const body = piece.trimStart();
+  // Runs of indentation and blank lines merge into single tokens
+  if (!body) return 1;
+  // Scripts outside ASCII rarely merge: about a token per character
+  if (/[^\x00-\x7f]/.test(body)) return body.length;
+  if (/^\p{L}/u.test(body)) return Math.ceil(body.length / 6);
+  if (/^\p{N}/u.test(body)) return 1;
+  return Math.ceil(body.length / 2);
+}
+
+/**
+ * Offline default: splits text like a BPE pre‑tokenizer and prices each
+ * piece by how often such pieces merge. Close enough to real tokenizers on
+ * code and English to budget with, and it needs no vocabulary file.
+ */
+export const localTokenizer: Tokenizer = {
+  id: 'local',
+  count(text) {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(PIECES)) tokens += pieceTokens(piece);
+    return tokens;
+  },
+};
+
+/**
+ * The newest messages that fit in `budget` tokens, oldest dropped first.
+ * System messages always stay – they carry instructions and retrieved
+ * code – and so does the last message, even when it alone is too long.
+ */
+export function fitToBudget(
+  messages: ChatMessage[],
+  budget: number,
+  count: (text: string) => number = estimateTokens
+): ChatMessage[] {
+  let used = messages
+    .filter((m) => m.role === 'system')
+    .reduce((sum, m) => sum + count(m.content), 0);
+
+  const keep = new Set<number>();
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'system') continue;
+    const tokens = count(messages[i].content);
+    if (keep.size > 0 && used + tokens > budget) break;
+    keep.add(i);
+    used += tokens;
+  }
+  return messages.filter((m, i) => m.role === 'system' || keep.has(i));
+}
@@ -0,0 +1,93 @@
+import { CallOptions } from './registry';
+
+/** Token counts for one provider call, as reported upstream or estimated. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  provider: string;
+  route: string;
+  client: string;
+  latencyMs: number;
+  error: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalLatencyMs: number;
+  avgLatencyMs: number;
+}
+
+export interface UsageSnapshot {
+  since: string;
+  totals: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+  byRoute: Record<string, UsageTotals>;
+  byClient: Record<string, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, errors: 0, promptTokens: 0, completionTokens: 0, totalLatencyMs: 0, avgLatencyMs: 0 };
+}
+
+function add(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++;
+  if (record.error) totals.errors++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalLatencyMs += record.latencyMs;
+  totals.avgLatencyMs = Math.round(totals.totalLatencyMs / totals.requests);
+}
+
+/**
+ * In‑memory usage counters, aggregated per provider, per route and per
+ * client. Every upstream attempt counts – a call that fell back to another
+ * provider shows up under both.
+ */
+export class UsageTracker {
+  private since = new Date();
+  private totals = emptyTotals();
+  private byProvider = new Map<string, UsageTotals>();
+  private byRoute = new Map<string, UsageTotals>();
+  private byClient = new Map<string, UsageTotals>();
+
+  record(record: UsageRecord) {
+    add(this.totals, record);
+    add(bucket(this.byProvider, record.provider), record);
+    add(bucket(this.byRoute, record.route), record);
+    add(bucket(this.byClient, record.client), record);
+  }
+
+  snapshot(): UsageSnapshot {
+    return {
+      since: this.since.toISOString(),
+      totals: { ...this.totals },
+      byProvider: Object.fromEntries(this.byProvider),
+      byRoute: Object.fromEntries(this.byRoute),
+      byClient: Object.fromEntries(this.byClient),
+    };
+  }
+}
+
+function bucket(map: Map<string, UsageTotals>, key: string) {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+/** Forwards an OpenAI/Mistral style `usage` object to the caller, if both exist. */
+export function reportUsage(options: CallOptions, usage: any) {
+  if (!options.onUsage || !usage) return;
+  options.onUsage({
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  });
+}
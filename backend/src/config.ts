@@ -9,6 +9,138 @@ export const HF_TOKEN          = process.env.HF_TOKEN ??
     ? fs.readFileSync('/run/secrets/hf_token', 'utf8').trim()
     : '');
 
-export const ALLOWED_PROVIDERS = (process.env.ALLOWED_PROVIDERS ?? 'codestral,chatgpt-oss,dkimi')
+/** Providers requests may use – empty allows every registered one; the rest are listed as unavailable */
+export const ALLOWED_PROVIDERS = (process.env.ALLOWED_PROVIDERS ?? '')
   .split(',')
-  .map((p) => p.trim().toLowerCase());
\ No newline at end of file
+  .map((p) => p.trim().toLowerCase())
+  .filter(Boolean);
+
+/** Provider health probes behind GET /api/ai/models – how often, and how long one may take */
+export const AI_HEALTH_INTERVAL_MS = Number(process.env.AI_HEALTH_INTERVAL_MS ?? 5 * 60_000);
+export const AI_HEALTH_TIMEOUT_MS  = Number(process.env.AI_HEALTH_TIMEOUT_MS ?? 10_000);
+/** OpenAI‑compatible endpoint (llama.cpp, Ollama, vLLM…) – registered only when a base URL is set */
+export const OPENAI_COMPAT_BASE_URL = process.env.OPENAI_COMPAT_BASE_URL ?? '';
+export const OPENAI_COMPAT_MODEL    = process.env.OPENAI_COMPAT_MODEL ?? 'default';
+export const OPENAI_COMPAT_API_KEY  = process.env.OPENAI_COMPAT_API_KEY ?? '';
+export const OPENAI_COMPAT_ID       = process.env.OPENAI_COMPAT_ID ?? 'local';
+export const OPENAI_COMPAT_NAME     = process.env.OPENAI_COMPAT_NAME ?? 'Local model';
+export const OPENAI_COMPAT_CONTEXT_WINDOW = Number(process.env.OPENAI_COMPAT_CONTEXT_WINDOW ?? 0);
+
+/** Extra provider adapter modules to register at startup (comma‑separated paths or package names) */
+export const AI_PROVIDER_MODULES = (process.env.AI_PROVIDER_MODULES ?? '')
+  .split(',')
+  .map((p) => p.trim())
+  .filter(Boolean);
+
+/**
+ * Offline development – `AI_MOCK_PROVIDER` registers a canned `mock` provider;
+ * `AI_FIXTURE_MODE=record` saves every provider HTTP exchange under
+ * `AI_FIXTURES_DIR` and `replay` answers from those files instead of the network
+ */
+export const AI_MOCK_PROVIDER = process.env.AI_MOCK_PROVIDER === 'true';
+export const AI_FIXTURE_MODE  = (process.env.AI_FIXTURE_MODE ?? 'off') as 'off' | 'record' | 'replay';
+export const AI_FIXTURES_DIR  = process.env.AI_FIXTURES_DIR ?? path.join(process.cwd(), 'fixtures', 'ai');
+
+/**
+ * Provider HTTP client – inactivity timeout (overridable per provider as
+ * `id=ms,…`), retries with exponential backoff on 429/5xx, pooled sockets and
+ * an optional proxy (`HTTPS_PROXY` / `HTTP_PROXY`, minus hosts in `NO_PROXY`)
+ */
+export const AI_HTTP_TIMEOUT_MS      = Number(process.env.AI_HTTP_TIMEOUT_MS ?? 30_000);
+export const AI_HTTP_TIMEOUTS        = parseTimeouts(process.env.AI_HTTP_TIMEOUTS ?? '');
+export const AI_HTTP_RETRIES         = Number(process.env.AI_HTTP_RETRIES ?? 2);
+export const AI_HTTP_RETRY_BASE_MS   = Number(process.env.AI_HTTP_RETRY_BASE_MS ?? 500);
+export const AI_HTTP_RETRY_MAX_MS    = Number(process.env.AI_HTTP_RETRY_MAX_MS ?? 10_000);
+export const AI_HTTP_MAX_SOCKETS     = Number(process.env.AI_HTTP_MAX_SOCKETS ?? 16);
+export const AI_HTTP_PROXY           = process.env.HTTPS_PROXY ?? process.env.https_proxy ?? process.env.HTTP_PROXY ?? process.env.http_proxy ?? '';
+export const AI_HTTP_NO_PROXY        = (process.env.NO_PROXY ?? process.env.no_proxy ?? '')
+  .split(',')
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+
+function parseTimeouts(spec: string): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  for (const entry of spec.split(',')) {
+    const [id, ms] = entry.split('=').map((p) => p.trim());
+    if (id && Number(ms) > 0) timeouts[id] = Number(ms);
+  }
+  return timeouts;
+}
+
+/** Completion cache – identical cursor contexts are answered without a provider call */
+export const AI_CACHE_MAX_ENTRIES   = Number(process.env.AI_CACHE_MAX_ENTRIES ?? 500);
+export const AI_CACHE_TTL_MS        = Number(process.env.AI_CACHE_TTL_MS ?? 5 * 60_000);
+export const AI_CACHE_PREFIX_WINDOW = Number(process.env.AI_CACHE_PREFIX_WINDOW ?? 2000);
+export const AI_CACHE_SUFFIX_WINDOW = Number(process.env.AI_CACHE_SUFFIX_WINDOW ?? 500);
+
+/**
+ * Fallback chains – comma‑separated, each `primary>fallback>…`. When the primary
+ * fails (or its circuit is open) the next provider in its chain answers.
+ */
+export const AI_FALLBACK_CHAINS = parseFallbackChains(
+  process.env.AI_FALLBACK_CHAINS ?? 'chatgpt-oss>codestral,dkimi>codestral'
+);
+
+/** Circuit breaker – opens once the error rate over the last N calls reaches the threshold */
+export const AI_BREAKER_ERROR_RATE   = Number(process.env.AI_BREAKER_ERROR_RATE ?? 0.5);
+export const AI_BREAKER_MIN_REQUESTS = Number(process.env.AI_BREAKER_MIN_REQUESTS ?? 5);
+export const AI_BREAKER_WINDOW       = Number(process.env.AI_BREAKER_WINDOW ?? 20);
+export const AI_BREAKER_COOLDOWN_MS  = Number(process.env.AI_BREAKER_COOLDOWN_MS ?? 30_000);
+
+function parseFallbackChains(spec: string): Record<string, string[]> {
+  const chains: Record<string, string[]> = {};
+  for (const chain of spec.split(',')) {
+    const [primary, ...fallbacks] = chain.split('>').map((p) => p.trim()).filter(Boolean);
+    if (primary && fallbacks.length) chains[primary] = fallbacks;
+  }
+  return chains;
+}
+
+/** Repository context for completions – imports, open tabs and recent edits, within a token budget */
+export const AI_CONTEXT_TOKEN_BUDGET = Number(process.env.AI_CONTEXT_TOKEN_BUDGET ?? 1500);
+export const AI_CONTEXT_RECENT_FILES = Number(process.env.AI_CONTEXT_RECENT_FILES ?? 5);
+
+/** Most completion candidates a single request may ask for */
+export const AI_COMPLETION_MAX_CANDIDATES = Number(process.env.AI_COMPLETION_MAX_CANDIDATES ?? 5);
+
+/** Codebase index for "search codebase" chat – `local` or a module exporting an embedder */
+export const AI_EMBEDDER           = process.env.AI_EMBEDDER ?? 'local';
+export const AI_INDEX_CHUNK_LINES  = Number(process.env.AI_INDEX_CHUNK_LINES ?? 40);
+export const AI_INDEX_OVERLAP      = Number(process.env.AI_INDEX_OVERLAP ?? 10);
+export const AI_INDEX_MAX_BYTES    = Number(process.env.AI_INDEX_MAX_BYTES ?? 256 * 1024);
+export const AI_INDEX_ENABLED      = process.env.AI_INDEX_ENABLED !== 'false';
+
+/** Tool-calling agent in Chat – model rounds per turn, and limits for `run_command` and tool output */
+export const AI_AGENT_MAX_STEPS         = Number(process.env.AI_AGENT_MAX_STEPS ?? 10);
+export const AI_AGENT_COMMAND_TIMEOUT_MS = Number(process.env.AI_AGENT_COMMAND_TIMEOUT_MS ?? 60_000);
+export const AI_AGENT_MAX_OUTPUT        = Number(process.env.AI_AGENT_MAX_OUTPUT ?? 16_000);
+
+/** Commit message suggestions – how much of the staged diff the model sees */
+export const AI_COMMIT_DIFF_MAX_CHARS = Number(process.env.AI_COMMIT_DIFF_MAX_CHARS ?? 12_000);
+
+/**
+ * Chat conversations – where threads are stored, the context window assumed for
+ * adapters that don't declare one, and tokens of it kept free for the reply
+ */
+export const AI_CONVERSATIONS_DIR      = process.env.AI_CONVERSATIONS_DIR ?? path.join(process.cwd(), 'data', 'conversations');
+export const AI_DEFAULT_CONTEXT_WINDOW = Number(process.env.AI_DEFAULT_CONTEXT_WINDOW ?? 4096);
+export const AI_REPLY_TOKEN_RESERVE    = Number(process.env.AI_REPLY_TOKEN_RESERVE ?? 1024);
+
+/** Code review of staged or branch changes – how much of the diff the model sees */
+export const AI_REVIEW_DIFF_MAX_CHARS = Number(process.env.AI_REVIEW_DIFF_MAX_CHARS ?? 24_000);
+
+/** Explain / Fix for terminal commands – how many of the files the output mentions go along, and how much of each */
+export const AI_TERMINAL_MAX_FILES      = Number(process.env.AI_TERMINAL_MAX_FILES ?? 3);
+export const AI_TERMINAL_FILE_MAX_CHARS = Number(process.env.AI_TERMINAL_FILE_MAX_CHARS ?? 12_000);
+
+/**
+ * Secret redaction before provider calls – on unless `false`, the `.env` files whose
+ * values are redacted (looked up in the server's directory and the workspace root),
+ * and the entropy in bits per character above which a long token counts as a secret
+ */
+export const AI_REDACT_SECRETS     = process.env.AI_REDACT_SECRETS !== 'false';
+export const AI_REDACT_ENV_FILES   = (process.env.AI_REDACT_ENV_FILES ?? '.env,.env.local')
+  .split(',')
+  .map((f) => f.trim())
+  .filter(Boolean);
+export const AI_REDACT_MIN_ENTROPY = Number(process.env.AI_REDACT_MIN_ENTROPY ?? 4.2);
@@ -1,6 +1,7 @@
 import simpleGit, { SimpleGit } from 'simple-git';
 import path from 'path';
 import fs from 'fs/promises';
+import { GitStatus } from '@ai-ide/shared';
 
 export class GitService {
   private git: SimpleGit;
@@ -19,6 +20,22 @@ export class GitService {
     return this.git.status();
   }
 
+  /** `status()` as it goes over the wire. */
+  async summary(): Promise<GitStatus> {
+    const status = await this.git.status();
+    return {
+      status: status.isClean() ? 'clean' : 'dirty',
+      ahead: status.ahead,
+      behind: status.behind,
+      staged: status.staged,
+      modified: status.modified,
+      not_added: status.not_added,
+      deleted: status.deleted,
+      renamed: status.renamed.map((r) => r.to),
+      files: status.files.map(({ path, index, working_dir }) => ({ path, index, working_dir })),
+    };
+  }
+
   async pull(remote = 'origin', branch = 'main') {
     return this.git.pull(remote, branch);
   }
@@ -27,6 +44,16 @@ export class GitService {
     return this.git.push(remote, branch);
   }
 
+  /** `git diff --cached` – what the next commit will contain. */
+  async stagedDiff(): Promise<string> {
+    return this.git.diff(['--cached']);
+  }
+
+  /** Changes on the current branch since it forked from `base`. */
+  async branchDiff(base = 'main'): Promise<string> {
+    return this.git.diff([`${base}...HEAD`]);
+  }
+
   async commit(message: string) {
     await this.git.add('.');
     await this.git.commit(message);
@@ -1,8 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { ProviderError, RateLimitError, UpstreamAuthError, UpstreamTimeoutError } from '../ai/errors';
+
+/**
+ * The status to answer with. Provider failures are the gateway's problem,
+ * not the caller's: a provider's 400 or 401 must not read as the client's.
+ */
+function statusOf(err: any): number {
+  if (err instanceof ZodError) return 400;
+  if (err instanceof RateLimitError) return 429;
+  if (err instanceof UpstreamTimeoutError) return 504;
+  if (err instanceof UpstreamAuthError) return 502;
+  if (err instanceof ProviderError) return err.status === 503 ? 503 : 502;
+  return err.status || 500;
+}
 
 export function errorHandler(err: any, _req: Request, res: Response, _next: NextFunction) {
   console.error(err);
-  const status = err.status || 500;
-  const msg = err.message || 'Internal Server Error';
+  const status = statusOf(err);
+  const msg = err instanceof ZodError
+    ? err.issues.map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message)).join('; ')
+    : err.message || 'Internal Server Error';
+  if (err instanceof RateLimitError && err.retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+  }
   res.status(status).json({ error: msg });
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { AgentRun, agentApprovalSchema, agentStartSchema } from '@ai-ide/shared';
+import { createAgent } from '../ai';
+import { TerminalService } from '../services/terminal';
+import { abortOnClose, providerFor, reply, usageLabels } from './http';
+
+/**
+ * Tool-calling agent for Chat. A run goes on until the model answers or
+ * asks to write a file / run a command; then it waits for
+ * `POST /:id/approval` before carrying on.
+ */
+export function createAgentRoutes(terminalService: TerminalService) {
+  const router = Router();
+  const agent = createAgent(terminalService);
+
+  // POST /api/ai/agent - Start a run
+  router.post('/', async (req, res, next) => {
+    try {
+      const body = agentStartSchema.parse(req.body);
+      const provider = providerFor(req, body);
+      const controller = abortOnClose(res);
+      const run = await agent.start(provider, body.messages, { signal: controller.signal, ...usageLabels(req) });
+      reply<AgentRun>(res, run);
+    } catch (e) {
+      next(e);
+    }
+  });
+
+  // GET /api/ai/agent/:id - Transcript and status of a run
+  router.get('/:id', (req, res, next) => {
+    try {
+      reply<AgentRun>(res, agent.get(req.params.id));
+    } catch (e) {
+      next(e);
+    }
+  });
+
+  // POST /api/ai/agent/:id/approval - Approve or reject the pending action
+  router.post('/:id/approval', async (req, res, next) => {
+    try {
+      const { approved } = agentApprovalSchema.parse(req.body);
+      const controller = abortOnClose(res);
+      const run = await agent.resolve(req.params.id, approved, { signal: controller.signal, ...usageLabels(req) });
+      reply<AgentRun>(res, run);
+    } catch (e) {
+      next(e);
+    }
+  });
+
+  return router;
+}
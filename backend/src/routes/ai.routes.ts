@@ -1,225 +1,354 @@
 import { Router } from 'express';
-import { getCompletion, getChat } from '../ai';
-import { AIProvider } from '../ai/models';
-import { CompletionRequest, ChatRequest } from '../types';
+import {
+  getCompletion,
+  getCompletionCacheStats,
+  getUsage,
+  withRepoContext,
+  withCodebaseContext,
+  withPrompt,
+  withConversation,
+  conversations,
+  listPrompts,
+  searchCodebase,
+  getCodebaseIndexStatus,
+  CodeSearchHit,
+  getChat,
+  proposeEdit,
+  languageFromPath,
+  streamCompletion,
+  streamChat,
+  streamInlineEdit,
+  listModels,
+  probeProviders,
+  AIProvider,
+} from '../ai';
+import {
+  CacheStats,
+  ChatResponse,
+  CodebaseIndexStatus,
+  CompletionResponse,
+  EditResponse,
+  ModelsResponse,
+  PromptsResponse,
+  SearchResponse,
+  UsageSnapshot,
+  chatRequestSchema,
+  completionRequestSchema,
+  editRequestSchema,
+  inlineEditRequestSchema,
+  searchRequestSchema,
+} from '@ai-ide/shared';
+import { ChatRequest, CodeSource } from '../types';
 import { z } from 'zod';
+import { workspace } from '../workspace/service';
+import { abortOnClose, openEventStream, providerFor, reply, sendEvent, usageLabels } from './http';
 
 const router = Router();
 
-const providerSchema = z.enum(Object.values(AIProvider) as [AIProvider, ...AIProvider[]]);
-
-// Enhanced completion schema with streaming parameters
-const completionSchema = z.object({
-  prompt: z.string().min(1, 'Prompt is required'),
-  model: providerSchema.optional(),
-  maxTokens: z.number().min(1).max(4000).optional().default(100),
-  temperature: z.number().min(0).max(2).optional().default(0.7),
-  context: z.string().optional(),
-  language: z.string().optional(),
-  stream: z.boolean().optional().default(false)
+// GET /api/ai/models - List models with their availability; ?refresh=true probes them first
+router.get('/models', async (req, res, next) => {
+  try {
+    if (req.query.refresh === 'true') await probeProviders();
+    reply<ModelsResponse>(res, { models: listModels() });
+  } catch (e) {
+    next(e);
+  }
+});
+
+// GET /api/ai/cache/stats - Completion cache hit/miss counters
+router.get('/cache/stats', (req, res) => {
+  reply<CacheStats>(res, getCompletionCacheStats());
+});
+
+// GET /api/ai/usage - Requests, tokens, latency and errors per provider/route/client
+router.get('/usage', (req, res) => {
+  reply<UsageSnapshot>(res, getUsage());
 });
 
-// Enhanced chat schema
-const chatSchema = z.object({
-  messages: z.array(z.object({
-    role: z.enum(['user', 'assistant', 'system']),
-    content: z.string().min(1)
-  })).min(1, 'At least one message required'),
-  model: providerSchema.optional(),
-  maxTokens: z.number().min(1).max(4000).optional().default(1000),
-  temperature: z.number().min(0).max(2).optional().default(0.7),
-  stream: z.boolean().optional().default(false)
+// GET /api/ai/index - Codebase index status
+router.get('/index', (req, res) => {
+  reply<CodebaseIndexStatus>(res, getCodebaseIndexStatus());
 });
 
-// GET /api/ai/models - List available models
-router.get('/models', async (req, res) => {
+// GET /api/ai/prompts - Slash commands for Chat
+router.get('/prompts', async (req, res, next) => {
   try {
-    const models = Object.values(AIProvider).map(provider => ({
-      id: provider,
-      name: getModelDisplayName(provider),
-      provider: getProviderDisplayName(provider),
-      description: getModelDescription(provider),
-      capabilities: getModelCapabilities(provider)
-    }));
-    
-    res.json({ models });
-  } catch (error) {
-    console.error('Error fetching models:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to fetch available models' 
-    });
+    reply<PromptsResponse>(res, { prompts: await listPrompts() });
+  } catch (e) {
+    next(e);
+  }
+});
+
+// POST /api/ai/search - Semantic search over the workspace
+router.post('/search', async (req, res, next) => {
+  try {
+    const body = searchRequestSchema.parse(req.body);
+    const hits = await searchCodebase(body.query, body.limit);
+    reply<SearchResponse>(res, { hits });
+  } catch (e) {
+    next(e);
   }
 });
 
 // POST /api/ai/completion - Standard completion
 router.post('/completion', async (req, res, next) => {
   try {
-    const body = completionSchema.parse(req.body);
-    const provider = body.model || providerSchema.parse(
-      req.query.provider ?? req.headers['x-ai-provider']
-    );
+    const body = completionRequestSchema.parse(req.body);
+    const provider = providerFor(req, body);
     
-    const completionRequest: CompletionRequest = {
-      prompt: body.prompt,
-      maxTokens: body.maxTokens,
-      temperature: body.temperature,
-      context: body.context,
-      language: body.language
-    };
+    const completionRequest = await withRepoContext(
+      {
+        prefix: body.prefix,
+        suffix: body.suffix,
+        maxTokens: body.maxTokens,
+        temperature: body.temperature,
+        context: body.context,
+        language: body.language,
+        n: body.n
+      },
+      { path: body.path, openFiles: body.openFiles }
+    );
     
-    const result = await getCompletion(provider, completionRequest);
-    res.json(result);
+    const controller = abortOnClose(res);
+    const result = await getCompletion(provider, completionRequest, { signal: controller.signal, ...usageLabels(req) });
+    reply<CompletionResponse>(res, result);
   } catch (e) {
+    if (res.writableEnded || res.destroyed) return;
     next(e);
   }
 });
 
 // POST /api/ai/completion/stream - Streaming completion
 router.post('/completion/stream', async (req, res, next) => {
+  let body: z.infer<typeof completionRequestSchema>;
+  let provider: AIProvider;
   try {
-    const body = completionSchema.parse({ ...req.body, stream: true });
-    const provider = body.model || providerSchema.parse(
-      req.query.provider ?? req.headers['x-ai-provider']
-    );
-    
-    // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    
-    const completionRequest: CompletionRequest = {
-      prompt: body.prompt,
+    body = completionRequestSchema.parse(req.body);
+    provider = providerFor(req, body);
+  } catch (e) {
+    return next(e);
+  }
+
+  const completionRequest = await withRepoContext(
+    {
+      prefix: body.prefix,
+      suffix: body.suffix,
       maxTokens: body.maxTokens,
       temperature: body.temperature,
       context: body.context,
       language: body.language
-    };
-    
-    // This would need to be implemented in the AI service
-    // For now, we'll fall back to non-streaming
-    const result = await getCompletion(provider, completionRequest);
-    
-    // Send as streaming data
-    res.write(`data: ${JSON.stringify({ type: 'completion', data: result.text })}\n\n`);
+    },
+    { path: body.path, openFiles: body.openFiles }
+  );
+
+  const controller = abortOnClose(res);
+  openEventStream(res);
+  try {
+    const stream = streamCompletion(provider, completionRequest, {
+      signal: controller.signal,
+      onTruncation: (truncation) => sendEvent(res, { type: 'truncation', truncation }),
+      ...usageLabels(req)
+    });
+    for await (const token of stream) {
+      sendEvent(res, { type: 'completion', data: token, token });
+    }
     res.write('data: [DONE]\n\n');
-    res.end();
   } catch (e) {
+    // The client hung up – nobody is left to tell
+    if (controller.signal.aborted) return;
     console.error('Streaming completion error:', e);
-    res.write(`data: ${JSON.stringify({ type: 'error', error: e.message })}\n\n`);
-    res.end();
+    sendEvent(res, { type: 'error', error: (e as Error).message });
+  }
+  res.end();
+});
+
+// POST /api/ai/edit - Proposed change to a file as a unified diff
+router.post('/edit', async (req, res, next) => {
+  try {
+    const body = editRequestSchema.parse(req.body);
+    const provider = providerFor(req, body);
+
+    if (!workspace.contains(body.path)) {
+      return res.status(400).json({
+        error: 'Invalid path',
+        message: 'Directory traversal attack detected'
+      });
+    }
+
+    let content: string;
+    try {
+      content = await workspace.readFile(body.path);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      return res.status(404).json({
+        error: 'File not found',
+        message: 'The specified file does not exist'
+      });
+    }
+
+    const lineCount = content.split('\n').length;
+    if (body.selection && body.selection.endLine > lineCount) {
+      return res.status(400).json({
+        error: 'Invalid selection',
+        message: `The file has ${lineCount} lines`
+      });
+    }
+
+    const controller = abortOnClose(res);
+    const result = await proposeEdit(
+      provider,
+      content,
+      {
+        path: body.path,
+        language: languageFromPath(body.path),
+        instruction: body.instruction,
+        selection: body.selection
+      },
+      { signal: controller.signal, ...usageLabels(req) }
+    );
+    reply<EditResponse>(res, result);
+  } catch (e) {
+    if (res.writableEnded || res.destroyed) return;
     next(e);
   }
 });
 
+// POST /api/ai/edit/stream - Rewrite of an editor selection, streamed as code
+router.post('/edit/stream', async (req, res, next) => {
+  let body: z.infer<typeof inlineEditRequestSchema>;
+  let provider: AIProvider;
+  try {
+    body = inlineEditRequestSchema.parse(req.body);
+    provider = providerFor(req, body);
+  } catch (e) {
+    return next(e);
+  }
+
+  const controller = abortOnClose(res);
+  openEventStream(res);
+  try {
+    const stream = streamInlineEdit(
+      provider,
+      {
+        instruction: body.instruction,
+        code: body.code,
+        before: body.before,
+        after: body.after,
+        language: body.language ?? languageFromPath(body.path),
+        path: body.path
+      },
+      { signal: controller.signal, ...usageLabels(req) }
+    );
+    for await (const token of stream) {
+      sendEvent(res, { type: 'edit', data: token, token });
+    }
+    res.write('data: [DONE]\n\n');
+  } catch (e) {
+    // The client hung up – nobody is left to tell
+    if (controller.signal.aborted) return;
+    console.error('Streaming edit error:', e);
+    sendEvent(res, { type: 'error', error: (e as Error).message });
+  }
+  res.end();
+});
+
 // POST /api/ai/chat - Standard chat
 router.post('/chat', async (req, res, next) => {
   try {
-    const body = chatSchema.parse(req.body);
-    const provider = body.model || providerSchema.parse(
-      req.query.provider ?? req.body.provider ?? req.headers['x-ai-provider']
-    );
+    const body = chatRequestSchema.parse(req.body);
+    const provider = providerFor(req, body);
     
-    const chatRequest: ChatRequest = {
+    let chatRequest: ChatRequest = {
       messages: body.messages,
       maxTokens: body.maxTokens,
       temperature: body.temperature
     };
+    if (body.prompt) {
+      chatRequest = await withPrompt(chatRequest, body.prompt.name, body.prompt);
+    }
+    const newMessages = chatRequest.messages;
+    if (body.conversationId) {
+      chatRequest = await withConversation(chatRequest, body.conversationId);
+    }
+    let sources: CodeSearchHit[] | undefined;
+    if (body.codebase) {
+      ({ request: chatRequest, sources } = await withCodebaseContext(chatRequest));
+    }
     
-    const reply = await getChat(provider, chatRequest);
-    res.json({ reply });
+    const controller = abortOnClose(res);
+    const result = await getChat(provider, chatRequest, { signal: controller.signal, ...usageLabels(req) });
+    if (body.conversationId) {
+      await conversations.append(body.conversationId, [
+        ...newMessages,
+        { role: 'assistant', content: result.reply }
+      ]);
+    }
+    reply<ChatResponse>(res, sources ? { ...result, sources: sources.map(toSource) } : result);
   } catch (e) {
+    if (res.writableEnded || res.destroyed) return;
     next(e);
   }
 });
 
 // POST /api/ai/chat/stream - Streaming chat
 router.post('/chat/stream', async (req, res, next) => {
+  let body: z.infer<typeof chatRequestSchema>;
+  let provider: AIProvider;
+  let chatRequest: ChatRequest;
+  let newMessages: ChatRequest['messages'];
   try {
-    const body = chatSchema.parse({ ...req.body, stream: true });
-    const provider = body.model || providerSchema.parse(
-      req.query.provider ?? req.body.provider ?? req.headers['x-ai-provider']
-    );
-    
-    // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    
-    const chatRequest: ChatRequest = {
+    body = chatRequestSchema.parse(req.body);
+    provider = providerFor(req, body);
+    chatRequest = {
       messages: body.messages,
       maxTokens: body.maxTokens,
       temperature: body.temperature
     };
-    
-    // This would need to be implemented in the AI service for true streaming
-    const reply = await getChat(provider, chatRequest);
-    
-    // Send as streaming data
-    res.write(`data: ${JSON.stringify({ type: 'chat', data: reply })}\n\n`);
+    if (body.prompt) {
+      chatRequest = await withPrompt(chatRequest, body.prompt.name, body.prompt);
+    }
+    newMessages = chatRequest.messages;
+    if (body.conversationId) {
+      chatRequest = await withConversation(chatRequest, body.conversationId);
+    }
+  } catch (e) {
+    return next(e);
+  }
+
+  const controller = abortOnClose(res);
+  openEventStream(res);
+  try {
+    if (body.codebase) {
+      const grounded = await withCodebaseContext(chatRequest);
+      chatRequest = grounded.request;
+      // Sources go first so the client can list them while the answer streams
+      sendEvent(res, { type: 'sources', sources: grounded.sources.map(toSource) });
+    }
+    let reply = '';
+    const stream = streamChat(provider, chatRequest, {
+      signal: controller.signal,
+      onTruncation: (truncation) => sendEvent(res, { type: 'truncation', truncation }),
+      ...usageLabels(req)
+    });
+    for await (const token of stream) {
+      reply += token;
+      sendEvent(res, { type: 'chat', data: token, token });
+    }
+    if (body.conversationId) {
+      await conversations.append(body.conversationId, [...newMessages, { role: 'assistant', content: reply }]);
+    }
     res.write('data: [DONE]\n\n');
-    res.end();
   } catch (e) {
+    // The client hung up – nobody is left to tell
+    if (controller.signal.aborted) return;
     console.error('Streaming chat error:', e);
-    res.write(`data: ${JSON.stringify({ type: 'error', error: e.message })}\n\n`);
-    res.end();
-    next(e);
+    sendEvent(res, { type: 'error', error: (e as Error).message });
   }
+  res.end();
 });
 
-// Helper functions for model information
-function getModelDisplayName(provider: AIProvider): string {
-  switch (provider) {
-    case AIProvider.Codestral:
-      return 'Codestral';
-    case AIProvider.ChatGPTOSS:
-      return 'ChatGPT-OSS';
-    case AIProvider.DKimi:
-      return 'dKimi';
-    default:
-      return provider;
-  }
-}
-
-function getProviderDisplayName(provider: AIProvider): string {
-  switch (provider) {
-    case AIProvider.Codestral:
-      return 'Mistral AI';
-    case AIProvider.ChatGPTOSS:
-      return 'Hugging Face';
-    case AIProvider.DKimi:
-      return 'Hugging Face';
-    default:
-      return 'Unknown';
-  }
-}
-
-function getModelDescription(provider: AIProvider): string {
-  switch (provider) {
-    case AIProvider.Codestral:
-      return 'Advanced code completion model by Mistral AI, optimized for programming tasks';
-    case AIProvider.ChatGPTOSS:
-      return 'Open-source chat model based on OpenChatKit, suitable for general conversations';
-    case AIProvider.DKimi:
-      return 'Korean-language chat model optimized for Korean text understanding and generation';
-    default:
-      return 'AI model for text generation and completion';
-  }
-}
-
-function getModelCapabilities(provider: AIProvider): string[] {
-  switch (provider) {
-    case AIProvider.Codestral:
-      return ['code-completion', 'code-generation', 'programming-languages'];
-    case AIProvider.ChatGPTOSS:
-      return ['chat', 'conversation', 'general-purpose'];
-    case AIProvider.DKimi:
-      return ['chat', 'korean-language', 'conversation'];
-    default:
-      return ['text-generation'];
-  }
+function toSource({ path, startLine, endLine, score }: CodeSearchHit): CodeSource {
+  return { path, startLine, endLine, score };
 }
 
-export default router;
\ No newline at end of file
+export default router;
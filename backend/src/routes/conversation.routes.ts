@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import {
+  Conversation,
+  ConversationListResponse,
+  appendMessagesSchema,
+  createConversationSchema,
+  renameConversationSchema,
+} from '@ai-ide/shared';
+import { conversations } from '../ai';
+import { reply } from './http';
+
+const router = Router();
+
+// GET /api/ai/conversations - Threads, most recently updated first
+router.get('/', async (req, res, next) => {
+  try {
+    reply<ConversationListResponse>(res, { conversations: await conversations.list() });
+  } catch (e) {
+    next(e);
+  }
+});
+
+// POST /api/ai/conversations - Start a thread
+router.post('/', async (req, res, next) => {
+  try {
+    const { title, messages } = createConversationSchema.parse(req.body);
+    reply<Conversation>(res.status(201), await conversations.create(title, messages));
+  } catch (e) {
+    next(e);
+  }
+});
+
+// GET /api/ai/conversations/:id - A thread with its messages
+router.get('/:id', async (req, res, next) => {
+  try {
+    reply<Conversation>(res, await conversations.get(req.params.id));
+  } catch (e) {
+    next(e);
+  }
+});
+
+// PATCH /api/ai/conversations/:id - Rename
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const { title } = renameConversationSchema.parse(req.body);
+    reply<Conversation>(res, await conversations.rename(req.params.id, title));
+  } catch (e) {
+    next(e);
+  }
+});
+
+// DELETE /api/ai/conversations/:id
+router.delete('/:id', async (req, res, next) => {
+  try {
+    await conversations.delete(req.params.id);
+    res.status(204).end();
+  } catch (e) {
+    next(e);
+  }
+});
+
+// POST /api/ai/conversations/:id/messages - Append messages
+router.post('/:id/messages', async (req, res, next) => {
+  try {
+    const { messages } = appendMessagesSchema.parse(req.body);
+    reply<Conversation>(res, await conversations.append(req.params.id, messages));
+  } catch (e) {
+    next(e);
+  }
+});
+
+export default router;
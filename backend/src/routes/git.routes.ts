@@ -1,58 +1,32 @@
 import { Router } from 'express';
+import {
+  BranchesResponse,
+  CommitMessageResponse,
+  CommitResponse,
+  DiffResponse,
+  GitStatusResponse,
+  LogResponse,
+  ReviewResponse,
+  checkoutSchema,
+  commitMessageRequestSchema,
+  commitSchema,
+  createBranchSchema,
+  diffQuerySchema,
+  logQuerySchema,
+  remoteSchema,
+  repoSchema,
+  reviewRequestSchema,
+} from '@ai-ide/shared';
 import { GitService } from '../git/service';
-import { z } from 'zod';
+import { suggestCommitMessage, reviewChanges } from '../ai';
+import { abortOnClose, providerFor, reply, usageLabels } from './http';
 
 const router = Router();
 
-// Validation schemas
-const initSchema = z.object({
-  path: z.string().min(1, 'Repository path is required')
-});
-
-const statusSchema = z.object({
-  path: z.string().min(1, 'Repository path is required')
-});
-
-const commitSchema = z.object({
-  path: z.string().min(1, 'Repository path is required'),
-  message: z.string().min(1, 'Commit message is required'),
-  files: z.array(z.string()).optional()
-});
-
-const pullSchema = z.object({
-  path: z.string().min(1, 'Repository path is required'),
-  remote: z.string().optional().default('origin'),
-  branch: z.string().optional().default('main')
-});
-
-const pushSchema = z.object({
-  path: z.string().min(1, 'Repository path is required'),
-  remote: z.string().optional().default('origin'),
-  branch: z.string().optional().default('main')
-});
-
-const diffSchema = z.object({
-  path: z.string().min(1, 'Repository path is required'),
-  file: z.string().optional(),
-  staged: z.boolean().optional().default(false)
-});
-
-const branchSchema = z.object({
-  path: z.string().min(1, 'Repository path is required'),
-  name: z.string().min(1, 'Branch name is required'),
-  from: z.string().optional().default('current')
-});
-
-const logSchema = z.object({
-  path: z.string().min(1, 'Repository path is required'),
-  limit: z.number().min(1).max(100).optional().default(10),
-  file: z.string().optional()
-});
-
 // POST /api/git/init - Initialize repository
 router.post('/init', async (req, res, next) => {
   try {
-    const { path: repoPath } = initSchema.parse(req.body);
+    const { path: repoPath } = repoSchema.parse(req.body);
     const svc = new GitService(repoPath);
     await svc.init();
     res.json({ 
@@ -69,22 +43,10 @@ router.post('/init', async (req, res, next) => {
 // GET /api/git/status - Get repository status
 router.get('/status', async (req, res, next) => {
   try {
-    const { path: repoPath } = statusSchema.parse(req.query);
+    const { path: repoPath } = repoSchema.parse(req.query);
     const svc = new GitService(repoPath);
-    const status = await svc.status();
     
-    res.json({
-      success: true,
-      status: status.isClean() ? 'clean' : 'dirty',
-      ahead: status.ahead,
-      behind: status.behind,
-      staged: status.staged,
-      modified: status.modified,
-      not_added: status.not_added,
-      deleted: status.deleted,
-      renamed: status.renamed,
-      files: status.files
-    });
+    reply<GitStatusResponse>(res, { success: true, ...(await svc.summary()) });
   } catch (e) {
     console.error('Git status error:', e);
     next(e);
@@ -94,11 +56,19 @@ router.get('/status', async (req, res, next) => {
 // POST /api/git/commit - Create a commit
 router.post('/commit', async (req, res, next) => {
   try {
-    const { path: repoPath, message, files } = commitSchema.parse(req.body);
+    const { path: repoPath, message, files, stagedOnly } = commitSchema.parse(req.body);
     const svc = new GitService(repoPath);
     
-    // Add specific files or all changes
-    if (files && files.length > 0) {
+    // Commit the index untouched, or add specific files or all changes first
+    if (stagedOnly) {
+      if (!(await svc.stagedDiff()).trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Nothing staged',
+          message: 'Stage some changes before committing'
+        });
+      }
+    } else if (files && files.length > 0) {
       for (const file of files) {
         await svc.git.add(file);
       }
@@ -108,7 +78,7 @@ router.post('/commit', async (req, res, next) => {
     
     const result = await svc.git.commit(message);
     
-    res.json({
+    reply<CommitResponse>(res, {
       success: true,
       message: 'Commit created successfully',
       hash: result.commit,
@@ -120,10 +90,77 @@ router.post('/commit', async (req, res, next) => {
   }
 });
 
+// POST /api/git/commit-message - Suggest a message for the staged changes
+router.post('/commit-message', async (req, res, next) => {
+  try {
+    const body = commitMessageRequestSchema.parse(req.body);
+    const provider = providerFor(req, body);
+    const svc = new GitService(body.path);
+
+    const diff = await svc.stagedDiff();
+    if (!diff.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Nothing staged',
+        message: 'Stage some changes before generating a commit message'
+      });
+    }
+
+    const controller = abortOnClose(res);
+    const result = await suggestCommitMessage(provider, diff, body.template, {
+      signal: controller.signal,
+      ...usageLabels(req)
+    });
+
+    reply<CommitMessageResponse>(res, { success: true, ...result });
+  } catch (e) {
+    if (res.writableEnded || res.destroyed) return;
+    console.error('Git commit message error:', e);
+    next(e);
+  }
+});
+
+// POST /api/git/review - AI review of the staged diff or the branch against a base
+router.post('/review', async (req, res, next) => {
+  try {
+    const body = reviewRequestSchema.parse(req.body);
+    const provider = providerFor(req, body);
+    const svc = new GitService(body.path);
+
+    const diff = body.scope === 'branch' ? await svc.branchDiff(body.base) : await svc.stagedDiff();
+    if (!diff.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'No changes',
+        message: body.scope === 'branch'
+          ? `The current branch has no changes against ${body.base}`
+          : 'Stage some changes before running a review'
+      });
+    }
+
+    const controller = abortOnClose(res);
+    const result = await reviewChanges(provider, diff, {
+      signal: controller.signal,
+      ...usageLabels(req)
+    });
+
+    reply<ReviewResponse>(res, {
+      success: true,
+      scope: body.scope,
+      base: body.scope === 'branch' ? body.base : undefined,
+      ...result
+    });
+  } catch (e) {
+    if (res.writableEnded || res.destroyed) return;
+    console.error('Git review error:', e);
+    next(e);
+  }
+});
+
 // POST /api/git/pull - Pull changes from remote
 router.post('/pull', async (req, res, next) => {
   try {
-    const { path: repoPath, remote, branch } = pullSchema.parse(req.body);
+    const { path: repoPath, remote, branch } = remoteSchema.parse(req.body);
     const svc = new GitService(repoPath);
     
     const result = await svc.git.pull(remote, branch);
@@ -154,7 +191,7 @@ router.post('/pull', async (req, res, next) => {
 // POST /api/git/push - Push changes to remote
 router.post('/push', async (req, res, next) => {
   try {
-    const { path: repoPath, remote, branch } = pushSchema.parse(req.body);
+    const { path: repoPath, remote, branch } = remoteSchema.parse(req.body);
     const svc = new GitService(repoPath);
     
     const result = await svc.git.push(remote, branch);
@@ -185,7 +222,7 @@ router.post('/push', async (req, res, next) => {
 // GET /api/git/log - Get commit history
 router.get('/log', async (req, res, next) => {
   try {
-    const { path: repoPath, limit, file } = logSchema.parse(req.query);
+    const { path: repoPath, limit, file } = logQuerySchema.parse(req.query);
     const svc = new GitService(repoPath);
     
     const options: any = { n: limit };
@@ -195,7 +232,7 @@ router.get('/log', async (req, res, next) => {
     
     const log = await svc.git.log(options);
     
-    res.json({
+    reply<LogResponse>(res, {
       success: true,
       commits: log.all.map(commit => ({
         hash: commit.hash,
@@ -215,21 +252,24 @@ router.get('/log', async (req, res, next) => {
 // GET /api/git/diff - Get diff for file or working directory
 router.get('/diff', async (req, res, next) => {
   try {
-    const { path: repoPath, file, staged } = diffSchema.parse(req.query);
+    const { path: repoPath, file, staged, base } = diffQuerySchema.parse(req.query);
     const svc = new GitService(repoPath);
     
     let diff: string;
-    if (file) {
+    if (base) {
+      diff = await svc.branchDiff(base);
+    } else if (file) {
       diff = await svc.git.diff([staged ? '--cached' : '', file]);
     } else {
       diff = await svc.git.diff([staged ? '--cached' : '']);
     }
     
-    res.json({
+    reply<DiffResponse>(res, {
       success: true,
       diff,
       staged,
-      file
+      file,
+      base
     });
   } catch (e) {
     console.error('Git diff error:', e);
@@ -240,7 +280,7 @@ router.get('/diff', async (req, res, next) => {
 // POST /api/git/branch - Create new branch
 router.post('/branch', async (req, res, next) => {
   try {
-    const { path: repoPath, name, from } = branchSchema.parse(req.body);
+    const { path: repoPath, name, from } = createBranchSchema.parse(req.body);
     const svc = new GitService(repoPath);
     
     if (from === 'current') {
@@ -265,12 +305,12 @@ router.post('/branch', async (req, res, next) => {
 // GET /api/git/branches - List all branches
 router.get('/branches', async (req, res, next) => {
   try {
-    const { path: repoPath } = statusSchema.parse(req.query);
+    const { path: repoPath } = repoSchema.parse(req.query);
     const svc = new GitService(repoPath);
     
     const branches = await svc.git.branch();
     
-    res.json({
+    reply<BranchesResponse>(res, {
       success: true,
       current: branches.current,
       all: branches.all,
@@ -286,13 +326,7 @@ router.get('/branches', async (req, res, next) => {
 // POST /api/git/checkout - Switch branches or files
 router.post('/checkout', async (req, res, next) => {
   try {
-    const schema = z.object({
-      path: z.string().min(1, 'Repository path is required'),
-      branch: z.string().optional(),
-      file: z.string().optional()
-    });
-    
-    const { path: repoPath, branch, file } = schema.parse(req.body);
+    const { path: repoPath, branch, file } = checkoutSchema.parse(req.body);
     const svc = new GitService(repoPath);
     
     if (file) {
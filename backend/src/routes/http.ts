@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { AIProvider, providerSchema } from '../ai';
+import { StreamChunk } from '../types';
+
+/**
+ * Aborts the upstream provider call once the client disconnects, so a
+ * closed tab or a superseded completion stops burning tokens.
+ */
+export function abortOnClose(res: Response) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller;
+}
+
+/**
+ * Labels for usage accounting; clients may name themselves via `X-Client-Id`.
+ * The route is the matched pattern (`/api/ai/agent/:id/approval`), so ids in
+ * the path don't each get their own entry.
+ */
+export function usageLabels(req: Request) {
+  return {
+    route: `${req.baseUrl}${req.route?.path ?? req.path}`,
+    client: req.get('x-client-id') || req.ip || 'unknown',
+  };
+}
+
+/**
+ * The provider a request asks for: `model` or `provider` in the body, then
+ * `?provider=`, then the `X-AI-Provider` header. Unknown ids are rejected.
+ */
+export function providerFor(req: Request, body: { model?: string; provider?: string }): AIProvider {
+  return providerSchema.parse(body.model ?? body.provider ?? req.query.provider ?? req.headers['x-ai-provider']);
+}
+
+/**
+ * `res.json`, typed. Name the shared response type – `reply<ChatResponse>(…)`
+ * – and the compiler holds `body` to it; left to inference, `T` is just the
+ * body's own type and nothing is checked. Nothing is validated at runtime.
+ */
+export function reply<T>(res: Response, body: T) {
+  res.json(body);
+}
+
+// Helpers for Server-Sent Events
+export function openEventStream(res: Response) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.flushHeaders();
+}
+
+export function sendEvent(res: Response, chunk: StreamChunk) {
+  res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+}
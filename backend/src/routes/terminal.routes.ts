@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { terminalExplainRequestSchema } from '@ai-ide/shared';
+import { AIProvider, RelatedFile, conversations, streamChat, terminalFix, withConversation, withTerminalCommand } from '../ai';
+import { ChatMessage, ChatRequest } from '../types';
+import { TerminalService } from '../services/terminal';
+import { abortOnClose, openEventStream, providerFor, sendEvent, usageLabels } from './http';
+
+/**
+ * Explain / Fix for the terminal. The client names a command by the id its
+ * `exit` message carried; what ran, where and what it printed come from
+ * the terminal's own record.
+ */
+export function createTerminalRoutes(terminalService: TerminalService) {
+  const router = Router();
+
+  // POST /api/ai/terminal/explain/stream - Why a command failed, streamed as chat; `fix` may end with a proposal
+  router.post('/explain/stream', async (req, res, next) => {
+    let body: z.infer<typeof terminalExplainRequestSchema>;
+    let provider: AIProvider;
+    let request: ChatRequest;
+    let question: ChatMessage;
+    let files: RelatedFile[];
+    try {
+      body = terminalExplainRequestSchema.parse(req.body);
+      provider = providerFor(req, body);
+      const run = terminalService.getCommand(body.commandId);
+      if (!run) {
+        return res.status(404).json({
+          error: 'Command not found',
+          message: 'The terminal has no record of that command'
+        });
+      }
+      let thread: ChatRequest = { messages: [] };
+      if (body.conversationId) {
+        thread = await withConversation(thread, body.conversationId);
+      }
+      ({ request, question, files } = await withTerminalCommand(thread, run, body.mode));
+    } catch (e) {
+      return next(e);
+    }
+
+    const controller = abortOnClose(res);
+    openEventStream(res);
+    try {
+      let answer = '';
+      const stream = streamChat(provider, request, {
+        signal: controller.signal,
+        onTruncation: (truncation) => sendEvent(res, { type: 'truncation', truncation }),
+        ...usageLabels(req)
+      });
+      for await (const token of stream) {
+        answer += token;
+        sendEvent(res, { type: 'chat', data: token, token });
+      }
+      const fix = body.mode === 'fix' ? terminalFix(answer, files) : undefined;
+      if (fix) sendEvent(res, { type: 'fix', fix });
+      if (body.conversationId) {
+        await conversations.append(body.conversationId, [question, { role: 'assistant', content: answer }]);
+      }
+      res.write('data: [DONE]\n\n');
+    } catch (e) {
+      // The client hung up – nobody is left to tell
+      if (controller.signal.aborted) return;
+      console.error('Terminal explain error:', e);
+      sendEvent(res, { type: 'error', error: (e as Error).message });
+    }
+    res.end();
+  });
+
+  return router;
+}
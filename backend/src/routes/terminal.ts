@@ -14,9 +14,14 @@ interface TerminalWebSocketMessage {
 }
 
 interface TerminalWebSocketResponse {
-  type: 'output' | 'session' | 'error' | 'resize' | 'tab-complete';
+  type: 'output' | 'session' | 'error' | 'resize' | 'tab-complete' | 'exit';
   sessionId?: string;
   data?: string;
+  /** Set on shell output that came from stderr */
+  stream?: 'stderr';
+  /** The command an `exit` (or its echoed `output`) belongs to – what Explain / Fix asks about */
+  commandId?: string;
+  exitCode?: number;
   error?: string;
   cols?: number;
   rows?: number;
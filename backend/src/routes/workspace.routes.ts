@@ -1,31 +1,23 @@
 import { Router } from 'express';
 import fs from 'fs/promises';
 import path from 'path';
-import { z } from 'zod';
+import {
+  FileContentResponse,
+  ListFilesResponse,
+  SaveFileResponse,
+  WorkspaceFile,
+  filePathSchema,
+  listFilesSchema,
+  saveFileSchema,
+} from '@ai-ide/shared';
+import { workspace } from '../workspace/service';
+import { reply } from './http';
 
 const router = Router();
 
 // Environment variable for workspace root
 const WORKSPACE_ROOT = process.env.WORKSPACE_ROOT || path.join(process.cwd(), 'workspace');
 
-// Zod schemas for validation
-const listFilesSchema = z.object({
-  path: z.string().optional().default('')
-});
-
-const getFileSchema = z.object({
-  path: z.string().min(1, 'File path is required')
-});
-
-const saveFileSchema = z.object({
-  path: z.string().min(1, 'File path is required'),
-  content: z.string().default('')
-});
-
-const deleteFileSchema = z.object({
-  path: z.string().min(1, 'File path is required')
-});
-
 // Ensure workspace directory exists
 async function ensureWorkspaceDir() {
   try {
@@ -67,7 +59,7 @@ router.get('/files', async (req, res) => {
 
     const files = await fs.readdir(targetPath, { withFileTypes: true });
     const fileList = await Promise.all(
-      files.map(async (file) => {
+      files.map(async (file): Promise<WorkspaceFile> => {
         const filePath = path.join(targetPath, file.name);
         const stat = await fs.stat(filePath);
         
@@ -81,7 +73,7 @@ router.get('/files', async (req, res) => {
       })
     );
 
-    res.json({ files: fileList });
+    reply<ListFilesResponse>(res, { files: fileList });
   } catch (error) {
     console.error('Error listing files:', error);
     res.status(500).json({ 
@@ -96,7 +88,7 @@ router.get('/file', async (req, res) => {
   try {
     await ensureWorkspaceDir();
     
-    const query = getFileSchema.parse(req.query);
+    const query = filePathSchema.parse(req.query);
     
     // Security check
     if (!validatePath(query.path)) {
@@ -118,7 +110,7 @@ router.get('/file', async (req, res) => {
 
     const content = await fs.readFile(filePath, 'utf8');
     
-    res.json({ 
+    reply<FileContentResponse>(res, {
       content,
       path: query.path,
       modified: stats.mtime.toISOString(),
@@ -163,10 +155,11 @@ router.post('/file', async (req, res) => {
     
     // Write file
     await fs.writeFile(filePath, body.content, 'utf8');
+    workspace.notifyChanged(path.relative(WORKSPACE_ROOT, filePath));
     
     const stats = await fs.stat(filePath);
     
-    res.json({ 
+    reply<SaveFileResponse>(res, {
       message: 'File saved successfully',
       path: body.path,
       modified: stats.mtime.toISOString(),
@@ -186,7 +179,7 @@ router.delete('/file', async (req, res) => {
   try {
     await ensureWorkspaceDir();
     
-    const body = deleteFileSchema.parse(req.body);
+    const body = filePathSchema.parse(req.body);
     
     // Security check
     if (!validatePath(body.path)) {
@@ -216,6 +209,7 @@ router.delete('/file', async (req, res) => {
       // Remove single file
       await fs.unlink(filePath);
     }
+    workspace.notifyDeleted(path.relative(WORKSPACE_ROOT, filePath));
     
     res.json({ 
       message: 'File/directory deleted successfully',
@@ -242,11 +236,7 @@ router.post('/mkdir', async (req, res) => {
   try {
     await ensureWorkspaceDir();
     
-    const schema = z.object({
-      path: z.string().min(1, 'Directory path is required')
-    });
-    
-    const body = schema.parse(req.body);
+    const body = filePathSchema.parse(req.body);
     
     // Security check
     if (!validatePath(body.path)) {
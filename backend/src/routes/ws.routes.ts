@@ -1,20 +1,24 @@
 import { Server as IOServer } from 'socket.io';
-import { WorkspaceService } from '../workspace/service';
-import { AIProvider } from '../ai/models';
-import { getCompletion } from '../ai';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  socketCompletionSchema,
+  socketRemoteSchema,
+  socketWriteSchema,
+} from '@ai-ide/shared';
+import { workspace } from '../workspace/service';
+import { streamCompletion, withRepoContext, providerSchema } from '../ai';
 import { TerminalService } from '../services/terminal';
 import { TerminalWebSocketHandler } from './terminal';
 
 export function attachWebSocket(server: any, terminalService?: TerminalService) {
-  const io = new IOServer(server, {
+  const io = new IOServer<ClientToServerEvents, ServerToClientEvents>(server, {
     cors: {
       origin: process.env.CLIENT_ORIGIN || 'http://localhost:5173',
       methods: ['GET', 'POST'],
     },
   });
 
-  const workspace = new WorkspaceService();
-  
   // Initialize terminal WebSocket handler if service is provided
   let terminalHandler: TerminalWebSocketHandler | null = null;
   if (terminalService) {
@@ -35,7 +39,7 @@ export function attachWebSocket(server: any, terminalService?: TerminalService)
       cb(tree);
     });
 
-    socket.on('workspace:read', async (rel: string, cb) => {
+    socket.on('workspace:read', async (rel, cb) => {
       try {
         const content = await workspace.readFile(rel);
         cb({ ok: true, content });
@@ -44,16 +48,17 @@ export function attachWebSocket(server: any, terminalService?: TerminalService)
       }
     });
 
-    socket.on('workspace:write', async (payload: { path: string; content: string }, cb) => {
+    socket.on('workspace:write', async (payload, cb) => {
       try {
-        await workspace.writeFile(payload.path, payload.content);
+        const { path, content } = socketWriteSchema.parse(payload);
+        await workspace.writeFile(path, content);
         cb({ ok: true });
       } catch (e) {
         cb({ ok: false, error: (e as Error).message });
       }
     });
 
-    socket.on('workspace:delete', async (rel: string, cb) => {
+    socket.on('workspace:delete', async (rel, cb) => {
       try {
         await workspace.deletePath(rel);
         cb({ ok: true });
@@ -62,39 +67,101 @@ export function attachWebSocket(server: any, terminalService?: TerminalService)
       }
     });
 
-    // ---------- AI Completion (stream‑simulated) ----------
-    socket.on('ai:complete', async (req: { provider: AIProvider; prefix: string; suffix?: string }, cb) => {
+    // ---------- AI Completion (streamed) ----------
+    // Every in-flight completion, so a disconnect stops them all
+    const inFlight = new Set<AbortController>();
+    // The ones with a client-chosen id, so `ai:cancel` or a newer request can stop them
+    const pending = new Map<string, AbortController>();
+
+    socket.on('ai:complete', async (payload, cb) => {
+      const parsed = socketCompletionSchema.safeParse(payload);
+      if (!parsed.success) return cb({ error: parsed.error.issues[0]?.message ?? 'Invalid request' });
+      const req = parsed.data;
+      if (!providerSchema.safeParse(req.provider).success) return cb({ error: `Unknown provider: ${req.provider}` });
+
+      const controller = new AbortController();
+      inFlight.add(controller);
+      if (req.requestId) {
+        pending.get(req.requestId)?.abort();
+        pending.set(req.requestId, controller);
+      }
       try {
-        const result = await getCompletion(req.provider, {
-          prefix: req.prefix,
-          suffix: req.suffix,
-          language: 'javascript',
-        });
-        // Simulate streaming by sending chunks every 50 ms
-        const chunks = result.completion.match(/.{1,30}/g) ?? [];
-        for (const ch of chunks) {
-          socket.emit('ai:completionChunk', ch);
-          await new Promise((r) => setTimeout(r, 50));
+        const completionRequest = await withRepoContext(
+          {
+            prefix: req.prefix,
+            suffix: req.suffix,
+            language: req.language,
+          },
+          { path: req.path, openFiles: req.openFiles }
+        );
+        const stream = streamCompletion(
+          req.provider,
+          completionRequest,
+          {
+            signal: controller.signal,
+            route: 'socket:ai:complete',
+            client: socket.handshake.address,
+          }
+        );
+        for await (const token of stream) {
+          socket.emit('ai:completionChunk', { requestId: req.requestId, token });
         }
         cb({ done: true });
       } catch (e) {
-        cb({ error: (e as Error).message });
+        if (controller.signal.aborted) cb({ cancelled: true });
+        else cb({ error: (e as Error).message });
+      } finally {
+        inFlight.delete(controller);
+        if (req.requestId && pending.get(req.requestId) === controller) {
+          pending.delete(req.requestId);
+        }
       }
     });
 
-    // ---------- Git status (on‑demand) ----------
-    socket.on('git:status', async (repoPath: string, cb) => {
+    socket.on('ai:cancel', (requestId) => {
+      pending.get(requestId)?.abort();
+      pending.delete(requestId);
+    });
+
+    // ---------- Git (on‑demand) ----------
+    socket.on('git:status', async (repoPath, cb) => {
       try {
         const { GitService } = await import('../git/service');
         const svc = new GitService(repoPath);
-        const status = await svc.status();
-        cb({ ok: true, status });
+        cb({ ok: true, status: await svc.summary() });
       } catch (e) {
         cb({ ok: false, error: (e as Error).message });
       }
     });
 
-    socket.on('disconnect', () => console.log('🔴 client disconnected', socket.id));
+    socket.on('git:pull', async (payload, cb) => {
+      try {
+        const { path, remote, branch } = socketRemoteSchema.parse(payload);
+        const { GitService } = await import('../git/service');
+        await new GitService(path).pull(remote, branch);
+        cb({ ok: true });
+      } catch (e) {
+        cb({ ok: false, error: (e as Error).message });
+      }
+    });
+
+    socket.on('git:push', async (payload, cb) => {
+      try {
+        const { path, remote, branch } = socketRemoteSchema.parse(payload);
+        const { GitService } = await import('../git/service');
+        await new GitService(path).push(remote, branch);
+        cb({ ok: true });
+      } catch (e) {
+        cb({ ok: false, error: (e as Error).message });
+      }
+    });
+
+    socket.on('disconnect', () => {
+      inFlight.forEach((controller) => controller.abort());
+      inFlight.clear();
+      pending.clear();
+      console.log('🔴 client disconnected', socket.id);
+    });
   });
 
   // Return handlers info for monitoring
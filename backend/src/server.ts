@@ -7,11 +7,16 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 
 import aiRoutes from './routes/ai.routes';
+import { createAgentRoutes } from './routes/agent.routes';
+import { createTerminalRoutes } from './routes/terminal.routes';
+import conversationRoutes from './routes/conversation.routes';
 import gitRoutes from './routes/git.routes';
 import workspaceRoutes from './routes/workspace.routes';
 import healthRoutes from './routes/health.routes';
 import { attachWebSocket } from './routes/ws.routes';
 import { TerminalService } from './services/terminal';
+import { loadProviderModules, startCodebaseIndex, startHealthChecks, startSecretRedaction } from './ai';
+import { AI_PROVIDER_MODULES } from './config';
 import { errorHandler } from './middlewares/errorHandler';
 import { rateLimiter } from './middlewares/rateLimiter';
 
@@ -35,6 +40,31 @@ terminalService.initialize().catch((error) => {
   console.error('❌ Failed to initialize terminal service:', error);
 });
 
+// ---------------------------------------------------------------
+// Register additional AI provider adapters, then probe every
+// provider's health (runs in background)
+// ---------------------------------------------------------------
+loadProviderModules(AI_PROVIDER_MODULES)
+  .catch((error) => {
+    console.error('❌ Failed to load AI provider modules:', error);
+  })
+  .then(startHealthChecks);
+
+// ---------------------------------------------------------------
+// Index the workspace for "search codebase" chat (runs in background)
+// ---------------------------------------------------------------
+startCodebaseIndex().catch((error) => {
+  console.error('❌ Failed to start codebase index:', error);
+});
+
+// ---------------------------------------------------------------
+// Load .env values to redact from prompts before they reach a provider
+// (provider calls made meanwhile wait for it)
+// ---------------------------------------------------------------
+startSecretRedaction().catch((error) => {
+  console.error('❌ Failed to load secrets for redaction:', error);
+});
+
 // ---------------------------------------------------------------
 // Global middleware
 // ---------------------------------------------------------------
@@ -47,6 +77,9 @@ app.use(rateLimiter);
 // API routes
 // ---------------------------------------------------------------
 app.use('/api/health', healthRoutes);
+app.use('/api/ai/agent', createAgentRoutes(terminalService));
+app.use('/api/ai/terminal', createTerminalRoutes(terminalService));
+app.use('/api/ai/conversations', conversationRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/git', gitRoutes);
 app.use('/api/workspace', workspaceRoutes);
@@ -8,6 +8,10 @@ export interface TerminalSession {
   cwd: string;
   startTime: Date;
   process: any;
+  /** Shell output held back because it may be the start of an exit marker */
+  pending: string;
+  /** The last command sent to the shell; its output and exit code are recorded as they arrive */
+  current?: TerminalCommand;
 }
 
 export interface TerminalCommand {
@@ -19,6 +23,65 @@ export interface TerminalCommand {
   exitCode?: number;
 }
 
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  /** Characters of combined stdout/stderr to keep */
+  maxOutput?: number;
+}
+
+export interface CommandResult {
+  /** `null` when the process was killed, e.g. on timeout */
+  exitCode: number | null;
+  output: string;
+  timedOut: boolean;
+}
+
+/** Characters of a shell command's output kept for Explain / Fix – the end, where errors are */
+const MAX_RECORDED_OUTPUT = 16 * 1024;
+
+/**
+ * Printed by the shell after each command, so its exit code comes back on
+ * stdout as a line of its own that `takeExitMarkers` takes out again.
+ */
+const EXIT_MARKER = '__ai_ide_exit__';
+const EXIT_LINE = new RegExp(`\\n?${EXIT_MARKER} (\\S+) (\\d+)\\n`, 'g');
+
+function exitMarkerCommand(commandId: string) {
+  return `printf '\\n${EXIT_MARKER} %s %d\\n' ${commandId} $?`;
+}
+
+/**
+ * What to write to the shell's stdin to run `command` and have its exit
+ * code printed after it. The command and the marker are one brace group,
+ * which bash reads in full before running it – a command that reads stdin,
+ * like `cat`, gets the lines typed after it, not the marker. A heredoc
+ * still can't be typed this way, and a command that never ends never
+ * reports an exit.
+ */
+export function withExitMarker(command: string, commandId: string) {
+  return `{ ${command}\n}; ${exitMarkerCommand(commandId)}\n`;
+}
+
+/**
+ * Splits shell output into what to show and the exit codes its marker
+ * lines report. A line at the end that may still become a marker – and
+ * the newline before it – is returned as `rest`, to go in front of the
+ * next chunk.
+ */
+export function takeExitMarkers(text: string) {
+  const exits: { commandId: string; exitCode: number }[] = [];
+  const output = text.replace(EXIT_LINE, (_, commandId: string, code: string) => {
+    exits.push({ commandId, exitCode: Number(code) });
+    return '';
+  });
+  const lineStart = output.lastIndexOf('\n');
+  const tail = output.slice(lineStart + 1);
+  const held = tail && (EXIT_MARKER.startsWith(tail) || tail.startsWith(EXIT_MARKER)) ? Math.max(lineStart, 0) : output.length;
+  return { output: output.slice(0, held), exits, rest: output.slice(held) };
+}
+
 export class TerminalService {
   private sessions: Map<string, TerminalSession> = new Map();
   private commandHistory: TerminalCommand[] = [];
@@ -39,7 +102,7 @@ export class TerminalService {
     const sessionId = randomUUID();
     const shell = process.platform === 'win32' ? 'cmd.exe' : '/bin/bash';
     
-    const process = spawn(shell, [], {
+    const child = spawn(shell, [], {
       cwd,
       env: {
         ...process.env,
@@ -52,31 +115,43 @@ export class TerminalService {
 
     const session: TerminalSession = {
       id: sessionId,
-      pid: process.pid,
+      pid: child.pid ?? 0,
       cwd,
       startTime: new Date(),
-      process
+      process: child,
+      pending: ''
     };
 
     this.sessions.set(sessionId, session);
     
-    // Handle process output
-    process.stdout?.on('data', (data) => {
-      this.broadcastToSession(sessionId, {
-        type: 'output',
-        data: data.toString()
-      });
+    // Handle process output; stdout also carries the exit markers
+    child.stdout?.on('data', (data) => {
+      const { output, exits, rest } = takeExitMarkers(session.pending + data.toString());
+      session.pending = rest;
+      if (output) {
+        this.recordOutput(session, output);
+        this.broadcastToSession(sessionId, {
+          type: 'output',
+          data: output
+        });
+      }
+      for (const { commandId, exitCode } of exits) {
+        if (session.current?.id === commandId) session.current.exitCode = exitCode;
+        this.broadcastToSession(sessionId, { type: 'exit', commandId, exitCode });
+      }
     });
 
-    process.stderr?.on('data', (data) => {
+    child.stderr?.on('data', (data) => {
+      this.recordOutput(session, data.toString());
       this.broadcastToSession(sessionId, {
         type: 'output',
+        stream: 'stderr',
         data: data.toString()
       });
     });
 
     // Handle process exit
-    process.on('exit', (code) => {
+    child.on('exit', (code) => {
       this.broadcastToSession(sessionId, {
         type: 'output',
         data: `\r\nprocess exited with code ${code}\r\n`
@@ -86,7 +161,7 @@ export class TerminalService {
     });
 
     // Handle process error
-    process.on('error', (error) => {
+    child.on('error', (error) => {
       this.broadcastToSession(sessionId, {
         type: 'error',
         error: error.message
@@ -101,6 +176,17 @@ export class TerminalService {
     return this.sessions.get(sessionId);
   }
 
+  // Get a command the terminal ran, with its output so far
+  getCommand(commandId: string): TerminalCommand | undefined {
+    return this.commandHistory.find((command) => command.id === commandId);
+  }
+
+  // Append shell output to the command it belongs to, keeping the end
+  private recordOutput(session: TerminalSession, output: string): void {
+    const record = session.current;
+    if (record) record.output = (record.output + output).slice(-MAX_RECORDED_OUTPUT);
+  }
+
   // Execute command in session
   async executeCommand(sessionId: string, command: string): Promise<void> {
     const session = this.sessions.get(sessionId);
@@ -126,14 +212,17 @@ export class TerminalService {
 
       // Write command to process stdin
       if (session.process.stdin && !session.process.stdin.destroyed) {
-        session.process.stdin.write(command + '\n');
+        const exitReported = process.platform !== 'win32' && command.trim();
+        session.process.stdin.write(exitReported ? withExitMarker(command, commandId) : `${command}\n`);
         
-        // Store command record
+        // Store command record; output and exit code are filled in as they arrive
         this.commandHistory.push(commandRecord);
+        session.current = commandRecord;
         
         // Notify client
         this.broadcastToSession(sessionId, {
           type: 'output',
+          commandId,
           data: `$ ${command}\r\n`
         });
       }
@@ -148,6 +237,63 @@ export class TerminalService {
     }
   }
 
+  // Run a one-off command to completion and capture its output
+  runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> {
+    const shell = process.platform === 'win32' ? 'cmd.exe' : '/bin/bash';
+    const args = process.platform === 'win32' ? ['/c', command] : ['-c', command];
+    const maxOutput = options.maxOutput ?? 64 * 1024;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(shell, args, { cwd: options.cwd, env: process.env, stdio: 'pipe' });
+      let output = '';
+      let truncated = false;
+      let timedOut = false;
+
+      const collect = (data: Buffer) => {
+        if (output.length >= maxOutput) {
+          truncated = true;
+          return;
+        }
+        output += data.toString();
+      };
+      child.stdout.on('data', collect);
+      child.stderr.on('data', collect);
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGTERM');
+      }, options.timeoutMs);
+      const abort = () => child.kill('SIGTERM');
+      options.signal?.addEventListener('abort', abort, { once: true });
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', abort);
+      };
+
+      child.on('error', (error) => {
+        cleanup();
+        reject(error);
+      });
+
+      child.on('close', (code) => {
+        cleanup();
+        if (truncated || output.length > maxOutput) {
+          output = `${output.slice(0, maxOutput)}\n… output truncated`;
+        }
+        this.commandHistory.push({
+          id: randomUUID(),
+          command,
+          output,
+          timestamp: new Date(),
+          workingDirectory: options.cwd,
+          exitCode: code ?? undefined
+        });
+        resolve({ exitCode: code, output, timedOut });
+      });
+    });
+  }
+
   // Handle built-in commands
   private async handleBuiltInCommand(session: TerminalSession, command: string, record: TerminalCommand): Promise<void> {
     const [cmd, ...args] = command.split(' ');
@@ -194,6 +340,7 @@ export class TerminalService {
       }
       
       record.output = output;
+      record.exitCode = 0;
       this.commandHistory.push(record);
       
       // Broadcast output
@@ -206,6 +353,7 @@ export class TerminalService {
       
     } catch (error) {
       record.output = `Error: ${error.message}`;
+      record.exitCode = 1;
       this.commandHistory.push(record);
       
       this.broadcastToSession(session.id, {
@@ -213,6 +361,8 @@ export class TerminalService {
         error: error.message
       });
     }
+
+    this.broadcastToSession(session.id, { type: 'exit', commandId: record.id, exitCode: record.exitCode });
   }
 
   // Check if command is built-in
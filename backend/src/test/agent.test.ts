@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { TerminalService } from '../services/terminal';
+import { Agent, AgentChat, parseToolCall } from '../ai/agent';
+import { ChatRequest } from '../types';
+
+const tool = (name: string, args: Record<string, unknown>) =>
+  `Let me check.\n\`\`\`tool\n${JSON.stringify({ tool: name, args })}\n\`\`\``;
+
+/** Chat stub that answers with the given replies in order and records what it was sent. */
+function scriptedChat(replies: string[]) {
+  const requests: ChatRequest[] = [];
+  const chat: AgentChat = async (provider, req) => {
+    requests.push(req);
+    return { reply: replies.shift() ?? 'Done.', provider };
+  };
+  return { chat, requests };
+}
+
+describe('parseToolCall', () => {
+  it('should return undefined for a plain answer', () => {
+    expect(parseToolCall('All good.')).toBeUndefined();
+  });
+
+  it('should split the explanation from the call', () => {
+    expect(parseToolCall(tool('read_file', { path: 'a.ts' }))).toEqual({
+      text: 'Let me check.',
+      tool: 'read_file',
+      args: { path: 'a.ts' },
+    });
+  });
+
+  it('should report unknown tools and broken JSON', () => {
+    expect(parseToolCall(tool('rm_rf', {}))?.error).toBe('Unknown tool: rm_rf');
+    expect(parseToolCall('```tool\n{nope\n```')?.error).toMatch(/not valid JSON/);
+  });
+});
+
+describe('Agent', () => {
+  let root: string;
+  let workspace: WorkspaceService;
+  const commands: string[] = [];
+  const terminal = {
+    runCommand: async (command: string) => {
+      commands.push(command);
+      return { exitCode: 0, output: 'ok\n', timedOut: false };
+    },
+  };
+  const options = { maxSteps: 5, commandTimeoutMs: 1000, maxOutput: 1000, maxRuns: 10 };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-agent-'));
+    process.env.WORKSPACE_ROOT = root;
+    workspace = new WorkspaceService();
+    await workspace.writeFile('src/a.ts', 'export const a = 1;\n');
+    commands.length = 0;
+  });
+
+  afterEach(async () => {
+    delete process.env.WORKSPACE_ROOT;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should run read-only tools without asking', async () => {
+    const { chat, requests } = scriptedChat([tool('read_file', { path: 'src/a.ts' }), 'a is 1.']);
+    const agent = new Agent({ workspace, terminal, search: async () => [] }, chat, options);
+
+    const run = await agent.start('codestral', [{ role: 'user', content: 'What is a?' }]);
+
+    expect(run.status).toBe('done');
+    expect(run.steps.map((s) => s.type)).toEqual(['message', 'tool', 'message']);
+    expect(run.steps[1]).toMatchObject({ tool: 'read_file', status: 'done', output: 'export const a = 1;\n' });
+    expect(requests[1].messages.at(-1)?.content).toContain('export const a = 1;');
+  });
+
+  it('should wait for approval before writing', async () => {
+    const { chat } = scriptedChat([tool('write_file', { path: 'src/b.ts', content: 'b' }), 'Created b.']);
+    const agent = new Agent({ workspace, terminal, search: async () => [] }, chat, options);
+
+    const run = await agent.start('codestral', [{ role: 'user', content: 'Add b' }]);
+    expect(run.status).toBe('awaiting_approval');
+    expect(run.steps.at(-1)?.status).toBe('pending');
+    expect(await workspace.isFile('src/b.ts')).toBe(false);
+
+    const resumed = await agent.resolve(run.id, true);
+    expect(resumed.status).toBe('done');
+    expect(resumed.steps.find((s) => s.tool === 'write_file')?.status).toBe('done');
+    expect(await workspace.readFile('src/b.ts')).toBe('b');
+  });
+
+  it('should tell the model when the user rejects a command', async () => {
+    const { chat, requests } = scriptedChat([tool('run_command', { command: 'npm test' }), 'Okay, skipped.']);
+    const agent = new Agent({ workspace, terminal, search: async () => [] }, chat, options);
+
+    const run = await agent.start('codestral', [{ role: 'user', content: 'Run the tests' }]);
+    const resumed = await agent.resolve(run.id, false);
+
+    expect(commands).toEqual([]);
+    expect(resumed.steps.find((s) => s.tool === 'run_command')?.status).toBe('rejected');
+    expect(requests[1].messages.at(-1)?.content).toContain('rejected');
+    await expect(agent.resolve(run.id, true)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('should refuse paths outside the workspace', async () => {
+    const { chat } = scriptedChat([tool('read_file', { path: '../../etc/passwd' }), 'Fine.']);
+    const agent = new Agent({ workspace, terminal, search: async () => [] }, chat, options);
+
+    const run = await agent.start('codestral', [{ role: 'user', content: 'Read it' }]);
+    expect(run.steps[1]).toMatchObject({ status: 'error', output: expect.stringContaining('outside the workspace') });
+  });
+
+  it('should stop after maxSteps rounds', async () => {
+    const { chat } = scriptedChat(Array(10).fill(tool('list_tree', {})));
+    const agent = new Agent({ workspace, terminal, search: async () => [] }, chat, { ...options, maxSteps: 2 });
+
+    const run = await agent.start('codestral', [{ role: 'user', content: 'Loop' }]);
+    expect(run.status).toBe('done');
+    expect(run.steps.filter((s) => s.type === 'tool')).toHaveLength(2);
+  });
+});
+
+describe('TerminalService.runCommand', () => {
+  it('should capture output and exit code', async () => {
+    const result = await new TerminalService().runCommand('echo hi && exit 3', { cwd: os.tmpdir(), timeoutMs: 5000 });
+    expect(result).toEqual({ exitCode: 3, output: 'hi\n', timedOut: false });
+  });
+
+  it('should kill commands that run too long', async () => {
+    const result = await new TerminalService().runCommand('sleep 5', { cwd: os.tmpdir(), timeoutMs: 100 });
+    expect(result.timedOut).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import { clipMiddle, fitChat, fitCompletion } from '../ai/budget';
+import { localTokenizer } from '../ai/tokens';
+import { ChatMessage } from '../types';
+
+const count = (text = '') => localTokenizer.count(text);
+const budget = (n: number) => ({ contextWindow: n * 2, budget: n, tokenizer: localTokenizer });
+const lines = (label: string, n: number) =>
+  Array.from({ length: n }, (_, i) => `const ${label}${i} = compute(${i});\n`).join('');
+
+describe('localTokenizer', () => {
+  it('should count words, numbers and punctuation like a BPE tokenizer', () => {
+    expect(count('')).toBe(0);
+    expect(count('return value;')).toBe(3);
+    // Indentation merges into one token; long numbers split every three digits
+    expect(count('        x')).toBe(2);
+    expect(count('1234567')).toBe(3);
+  });
+});
+
+describe('fitCompletion', () => {
+  it('should leave a request that fits alone', () => {
+    const req = { prefix: 'const a = ', suffix: ';\n', context: '// utils.ts' };
+    const fitted = fitCompletion(req, budget(100));
+    expect(fitted.request).toBe(req);
+    expect(fitted.truncation).toBeUndefined();
+  });
+
+  it('should trim the prefix from the top and the suffix from the bottom', () => {
+    const prefix = lines('before', 200);
+    const suffix = lines('after', 200);
+    const { request, promptTokens, truncation } = fitCompletion({ prefix, suffix }, budget(400));
+
+    expect(prefix.endsWith(request.prefix)).toBe(true);
+    expect(suffix.startsWith(request.suffix!)).toBe(true);
+    expect(request.prefix.length).toBeGreaterThan(request.suffix!.length);
+    expect(promptTokens).toBeLessThanOrEqual(400);
+    expect(truncation).toMatchObject({
+      contextWindow: 800,
+      budget: 400,
+      promptTokens,
+      prefixTokens: count(prefix) - count(request.prefix),
+      suffixTokens: count(suffix) - count(request.suffix),
+    });
+  });
+
+  it('should give repository context only what the code around the cursor leaves over', () => {
+    const context = lines('imported', 100);
+    const { request, truncation } = fitCompletion({ prefix: 'let x = ', suffix: ';', context }, budget(100));
+
+    expect(request.prefix).toBe('let x = ');
+    expect(request.suffix).toBe(';');
+    expect(context.startsWith(request.context!)).toBe(true);
+    expect(truncation?.contextTokens).toBe(count(context) - count(request.context));
+    expect(truncation?.prefixTokens).toBeUndefined();
+  });
+
+  it('should cut inside a line that alone is too long', () => {
+    const minified = 'var a=1;'.repeat(1000);
+    const { request, promptTokens } = fitCompletion({ prefix: minified }, budget(50));
+
+    expect(minified.endsWith(request.prefix)).toBe(true);
+    expect(request.prefix.length).toBeGreaterThan(0);
+    expect(promptTokens).toBeLessThanOrEqual(50);
+  });
+});
+
+describe('fitChat', () => {
+  const turn = (role: ChatMessage['role'], text: string): ChatMessage => ({ role, content: `${text} ${'padding words '.repeat(20)}` });
+
+  it('should leave a conversation that fits alone', () => {
+    const req = { messages: [turn('user', 'Hello')] };
+    expect(fitChat(req, budget(100)).request).toBe(req);
+  });
+
+  it('should drop the oldest turns and summarize what the user asked in them', () => {
+    const messages = [
+      turn('system', 'You are helpful.'),
+      turn('user', 'How do I read a file?'),
+      turn('assistant', 'Use fs.readFile.'),
+      turn('user', 'And write one?'),
+      turn('assistant', 'Use fs.writeFile.'),
+      turn('user', 'What about streams?'),
+    ];
+    const { request, promptTokens, truncation } = fitChat({ messages }, budget(200));
+
+    expect(request.messages[0]).toBe(messages[0]);
+    expect(request.messages[1].role).toBe('system');
+    expect(request.messages[1].content).toContain('earlier messages');
+    expect(request.messages.at(-1)).toBe(messages[5]);
+    expect(promptTokens).toBeLessThanOrEqual(200);
+    expect(truncation).toMatchObject({ droppedMessages: expect.any(Number), summarized: true });
+  });
+
+  it('should clip the middle of a message too long on its own', () => {
+    const log = lines('trace', 300);
+    const { request, promptTokens, truncation } = fitChat({ messages: [{ role: 'user', content: log }] }, budget(200));
+
+    const clipped = request.messages[0].content;
+    expect(clipped).toMatch(/\[… \d+ tokens left out …\]/);
+    expect(clipped.startsWith('const trace0 ')).toBe(true);
+    expect(clipped.endsWith('compute(299);\n')).toBe(true);
+    expect(promptTokens).toBeLessThanOrEqual(200);
+    expect(truncation).toMatchObject({ clippedMessages: 1 });
+    expect(truncation?.droppedMessages).toBeUndefined();
+  });
+});
+
+describe('clipMiddle', () => {
+  it('should return text that fits unchanged', () => {
+    expect(clipMiddle('short', 10, localTokenizer)).toBe('short');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CompletionCache } from '../ai/cache';
+
+describe('CompletionCache', () => {
+  let clock: number;
+  let cache: CompletionCache;
+
+  beforeEach(() => {
+    clock = 0;
+    cache = new CompletionCache(
+      { maxEntries: 2, ttlMs: 1000, prefixWindow: 10, suffixWindow: 5 },
+      () => clock
+    );
+  });
+
+  it('should return cached completions and count hits and misses', () => {
+    const key = cache.key('codestral', { prefix: 'const a = ', language: 'javascript' });
+
+    expect(cache.get(key)).toBeUndefined();
+    cache.set(key, { text: '1;' });
+    expect(cache.get(key)).toEqual({ text: '1;' });
+
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, size: 1, hitRate: 0.5 });
+  });
+
+  it('should key on provider, language and the window around the cursor', () => {
+    const req = { prefix: 'far away text|const a = ', suffix: ';\nnext line', language: 'javascript' };
+    const base = cache.key('codestral', req);
+
+    expect(cache.key('codestral', { ...req, prefix: 'different|const a = ' })).toBe(base);
+    expect(cache.key('codestral', { ...req, suffix: ';\nnexXXXXXX' })).toBe(base);
+    expect(cache.key('chatgpt-oss', req)).not.toBe(base);
+    expect(cache.key('codestral', { ...req, language: 'python' })).not.toBe(base);
+    expect(cache.key('codestral', { ...req, prefix: 'const a =' })).not.toBe(base);
+    expect(cache.key('codestral', { ...req, n: 1 })).toBe(base);
+    expect(cache.key('codestral', { ...req, n: 3 })).not.toBe(base);
+  });
+
+  it('should ignore line endings and trailing blanks on finished lines', () => {
+    const a = cache.key('codestral', { prefix: 'a  \r\nb', language: 'go' });
+    const b = cache.key('codestral', { prefix: 'a\nb', language: 'go' });
+    expect(a).toBe(b);
+  });
+
+  it('should expire entries after the TTL', () => {
+    cache.set('k', { text: 'x' });
+    clock = 1000;
+    expect(cache.get('k')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', () => {
+    cache.set('a', { text: 'a' });
+    cache.set('b', { text: 'b' });
+    cache.get('a');
+    cache.set('c', { text: 'c' });
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual({ text: 'a' });
+    expect(cache.stats().evictions).toBe(1);
+  });
+});
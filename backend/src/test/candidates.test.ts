@@ -0,0 +1,20 @@
+import { describe, it, expect } from '@jest/globals';
+import { rankCandidates } from '../ai/candidates';
+
+describe('rankCandidates', () => {
+  it('should drop empty and whitespace-only suggestions', () => {
+    expect(rankCandidates(['', '  \n', 'return a;'], 3)).toEqual(['return a;']);
+  });
+
+  it('should treat suggestions differing only in whitespace as one', () => {
+    expect(rankCandidates(['a + b;', 'a  +  b;\n', 'a - b;'], 3)).toEqual(['a + b;', 'a - b;']);
+  });
+
+  it('should rank suggestions several draws agree on first', () => {
+    expect(rankCandidates(['x()', 'y()', 'y()', 'z()'], 3)).toEqual(['y()', 'x()', 'z()']);
+  });
+
+  it('should keep provider order for ties and stop at the limit', () => {
+    expect(rankCandidates(['one', 'two', 'three'], 2)).toEqual(['one', 'two']);
+  });
+});
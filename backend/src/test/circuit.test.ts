@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CircuitBreaker } from '../ai/circuit';
+
+describe('CircuitBreaker', () => {
+  let clock: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    clock = 0;
+    breaker = new CircuitBreaker(
+      { errorRate: 0.5, minRequests: 4, window: 10, cooldownMs: 1000 },
+      () => clock
+    );
+  });
+
+  it('should stay closed until enough calls have been seen', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('should open once the error rate reaches the threshold', () => {
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should let a single probe through after the cooldown', () => {
+    for (let i = 0; i < 4; i++) breaker.recordFailure();
+    clock = 1000;
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should close after a successful probe and reopen after a failed one', () => {
+    for (let i = 0; i < 4; i++) breaker.recordFailure();
+    clock = 1000;
+    breaker.canRequest();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    clock = 2000;
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should free the probe slot when the call is cancelled', () => {
+    for (let i = 0; i < 4; i++) breaker.recordFailure();
+    clock = 1000;
+    breaker.canRequest();
+    breaker.release();
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { CodebaseIndex, chunkFile, codebasePrompt } from '../ai/codebase';
+import { createHashingEmbedder, tokenize } from '../ai/embeddings';
+
+describe('Hashing embedder', () => {
+  it('should split identifiers and normalise word forms', () => {
+    expect(tokenize('validatePath')).toEqual(tokenize('validating paths'));
+    expect(tokenize('where do we validate_path?')).toEqual(['validat', 'path']);
+  });
+
+  it('should be deterministic and unit length', async () => {
+    const embedder = createHashingEmbedder(64);
+    const [a] = await embedder.embed(['function validatePath(p) {}']);
+    const [b] = await embedder.embed(['function validatePath(p) {}']);
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+});
+
+describe('chunkFile', () => {
+  it('should produce overlapping line windows with 1-based ranges', () => {
+    const content = Array.from({ length: 25 }, (_, i) => `line ${i + 1}`).join('\n');
+    const chunks = chunkFile('a.ts', content, 10, 2);
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([[1, 10], [9, 18], [17, 25]]);
+  });
+});
+
+describe('CodebaseIndex', () => {
+  let root: string;
+  let workspace: WorkspaceService;
+  let index: CodebaseIndex;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-index-'));
+    process.env.WORKSPACE_ROOT = root;
+    workspace = new WorkspaceService();
+    await workspace.writeFile(
+      'src/paths.ts',
+      'export function validatePath(p: string) {\n  return !p.includes("..");\n}\n'
+    );
+    await workspace.writeFile('src/math.ts', 'export const add = (a: number, b: number) => a + b;\n');
+    await workspace.writeFile('node_modules/pkg/index.js', 'validatePath();\n');
+
+    index = new CodebaseIndex(workspace, createHashingEmbedder(), {
+      chunkLines: 40,
+      overlapLines: 10,
+      maxFileBytes: 10_000,
+      debounceMs: 0,
+    });
+    await index.rebuild();
+  });
+
+  afterAll(async () => {
+    delete process.env.WORKSPACE_ROOT;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should find the chunk that answers the question', async () => {
+    const [hit] = await index.search('where do we validate paths?');
+    expect(hit).toMatchObject({ path: 'src/paths.ts', startLine: 1, endLine: 4 });
+  });
+
+  it('should skip dependency directories', () => {
+    expect(index.status()).toMatchObject({ ready: true, files: 2 });
+  });
+
+  it('should drop deleted files', async () => {
+    index.remove('src/math.ts');
+    const hits = await index.search('add numbers');
+    expect(hits.some((h) => h.path === 'src/math.ts')).toBe(false);
+  });
+
+  it('should cite sources in the grounding prompt', async () => {
+    const hits = await index.search('validate path');
+    expect(codebasePrompt(hits)).toContain('src/paths.ts:1-4');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildCommitMessageRequest,
+  changedFiles,
+  cleanCommitMessage,
+  fillCommitTemplate,
+} from '../ai/commit';
+
+const diff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1 +1 @@',
+  '-const port = 3000;',
+  '+const port = Number(process.env.PORT ?? 3000);',
+  'diff --git a/README.md b/README.md',
+  '--- a/README.md',
+  '+++ b/README.md',
+  '@@ -1 +1,2 @@',
+  ' # App',
+  '+Set PORT to change the port.',
+].join('\n');
+
+describe('changedFiles', () => {
+  it('should list the files of a diff in order', () => {
+    expect(changedFiles(diff)).toEqual(['src/app.ts', 'README.md']);
+  });
+
+  it('should return nothing for an empty diff', () => {
+    expect(changedFiles('')).toEqual([]);
+  });
+});
+
+describe('fillCommitTemplate', () => {
+  const date = new Date('2024-03-05T12:00:00Z');
+
+  it('should fill the date and leave the description to the model', () => {
+    expect(fillCommitTemplate('feat: {description} ({date})', ['a.ts'], date)).toBe(
+      'feat: {description} (2024-03-05)'
+    );
+  });
+
+  it('should only fill {file} when a single file changed', () => {
+    expect(fillCommitTemplate('{file}: {description}', ['a.ts'], date)).toBe('a.ts: {description}');
+    expect(fillCommitTemplate('{file}: {description}', ['a.ts', 'b.ts'], date)).toBe('{file}: {description}');
+  });
+});
+
+describe('buildCommitMessageRequest', () => {
+  it('should include the template, the file list and the diff', () => {
+    const request = buildCommitMessageRequest(diff, 'feat: {description}', 10_000);
+    const task = request.messages[1].content;
+    expect(request.messages[0].role).toBe('system');
+    expect(task).toContain('Template: feat: {description}');
+    expect(task).toContain('- src/app.ts\n- README.md');
+    expect(task).toContain('+const port = Number(process.env.PORT ?? 3000);');
+    expect(task).not.toContain('[diff truncated]');
+  });
+
+  it('should truncate long diffs but keep every file in the list', () => {
+    const task = buildCommitMessageRequest(diff, '{description}', 60).messages[1].content;
+    expect(task).toContain('[diff truncated]');
+    expect(task).not.toContain('Set PORT');
+    expect(task).toContain('- README.md');
+  });
+});
+
+describe('cleanCommitMessage', () => {
+  it('should strip fences, labels and quotes', () => {
+    expect(cleanCommitMessage('```\nfix: handle empty input\n```')).toBe('fix: handle empty input');
+    expect(cleanCommitMessage('Commit message: feat: add port option')).toBe('feat: add port option');
+    expect(cleanCommitMessage('"docs: mention PORT"')).toBe('docs: mention PORT');
+  });
+
+  it('should keep a multi-line body', () => {
+    expect(cleanCommitMessage('feat: add port option\n\nRead PORT from the environment.\n')).toBe(
+      'feat: add port option\n\nRead PORT from the environment.'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { buildCompletionContext, importedFiles, languageFromPath } from '../ai/context';
+
+describe('Completion context builder', () => {
+  let root: string;
+  let workspace: WorkspaceService;
+  const options = { budget: 1000, recentFiles: 5 };
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-context-'));
+    process.env.WORKSPACE_ROOT = root;
+    workspace = new WorkspaceService();
+    await workspace.writeFile('src/lib/user.ts', 'export interface User { id: string }\n');
+    await workspace.writeFile('src/lib/index.ts', 'export const VERSION = 1;\n');
+    await workspace.writeFile('src/notes.md', '# Notes\n');
+    await workspace.writeFile('app/models.py', 'class User: ...\n');
+  });
+
+  afterAll(async () => {
+    delete process.env.WORKSPACE_ROOT;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should resolve relative TypeScript and Python imports', async () => {
+    const ts = 'import { User } from "./lib/user.js";\nimport * as lib from "./lib";\nimport React from "react";\n';
+    expect(await importedFiles(workspace, ts, 'src/main.ts', 'typescript')).toEqual([
+      'src/lib/user.ts',
+      'src/lib/index.ts',
+    ]);
+
+    const py = 'from .models import User\nimport os\n';
+    expect(await importedFiles(workspace, py, 'app/views.py', 'python')).toEqual(['app/models.py']);
+  });
+
+  it('should put imports first, then open tabs, then recent edits', async () => {
+    const context = await buildCompletionContext(
+      workspace,
+      { prefix: 'import { User } from "./lib/user";\n', language: 'typescript' },
+      { path: 'src/main.ts', openFiles: ['src/notes.md'] },
+      options
+    );
+
+    const order = ['src/lib/user.ts', 'src/notes.md', 'app/models.py'].map((p) => context!.indexOf(`// Path: ${p}`));
+    expect(order.every((i) => i >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+  });
+
+  it('should skip the current file and paths outside the workspace', async () => {
+    const context = await buildCompletionContext(
+      workspace,
+      { prefix: '', language: 'typescript' },
+      { path: 'src/lib/index.ts', openFiles: ['../../etc/passwd', 'src/lib/index.ts'] },
+      options
+    );
+
+    expect(context).not.toContain('Path: src/lib/index.ts');
+    expect(context).not.toContain('passwd');
+  });
+
+  it('should stay within the token budget', async () => {
+    await workspace.writeFile('src/big.ts', 'const x = 1;\n'.repeat(2000));
+    const context = await buildCompletionContext(
+      workspace,
+      { prefix: '', language: 'typescript' },
+      { openFiles: ['src/big.ts'] },
+      { budget: 200, recentFiles: 0 }
+    );
+
+    expect(context!.length / 4).toBeLessThanOrEqual(200);
+  });
+
+  it('should map file extensions to languages', () => {
+    expect(languageFromPath('src/a.tsx')).toBe('typescript');
+    expect(languageFromPath('main.go')).toBe('go');
+    expect(languageFromPath(undefined)).toBe('text');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { completionRequestSchema, diffQuerySchema, logQuerySchema, reviewRequestSchema, socketCompletionSchema } from '@ai-ide/shared';
+
+describe('API contract', () => {
+  it('should take completions as prefix and suffix', () => {
+    expect(completionRequestSchema.parse({ prefix: 'const a = ', suffix: ';' })).toMatchObject({
+      prefix: 'const a = ',
+      suffix: ';',
+      maxTokens: 100,
+    });
+    expect(completionRequestSchema.safeParse({ prompt: 'const a = ' }).success).toBe(false);
+    expect(socketCompletionSchema.safeParse({ provider: 'codestral', prompt: 'x' }).success).toBe(false);
+  });
+
+  it('should read query strings as flags and numbers', () => {
+    expect(diffQuerySchema.parse({ path: '/repo', staged: 'true' }).staged).toBe(true);
+    expect(diffQuerySchema.parse({ path: '/repo', staged: 'false' }).staged).toBe(false);
+    expect(diffQuerySchema.parse({ path: '/repo' }).staged).toBe(false);
+    expect(logQuerySchema.parse({ path: '/repo', limit: '25' }).limit).toBe(25);
+  });
+
+  it('should only take refs as a diff base, never options', () => {
+    expect(reviewRequestSchema.parse({ path: '/repo', scope: 'branch', base: 'origin/release-1.2' }).base).toBe('origin/release-1.2');
+    expect(diffQuerySchema.parse({ path: '/repo', base: 'HEAD~3' }).base).toBe('HEAD~3');
+    expect(reviewRequestSchema.safeParse({ path: '/repo', base: '--output=/tmp/x' }).success).toBe(false);
+    expect(diffQuerySchema.safeParse({ path: '/repo', base: 'main; rm -rf /' }).success).toBe(false);
+  });
+});
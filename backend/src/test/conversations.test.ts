@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ConversationStore, titleFrom } from '../ai/conversations';
+import { ConversationError } from '../ai/errors';
+import { fitToBudget } from '../ai/tokens';
+import { ChatMessage } from '../types';
+
+describe('ConversationStore', () => {
+  let dir: string;
+  let store: ConversationStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-conversations-'));
+    store = new ConversationStore(path.join(dir, 'conversations'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should list nothing before the first conversation', async () => {
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should create, append to and list conversations', async () => {
+    const created = await store.create();
+    expect(created.title).toBe('');
+
+    const updated = await store.append(created.id, [
+      { role: 'user', content: 'How do I read a file in Node?' },
+      { role: 'assistant', content: 'Use fs.readFile.' },
+    ]);
+    expect(updated.title).toBe('How do I read a file in Node?');
+    expect((await store.get(created.id)).messages).toHaveLength(2);
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ id: created.id, title: 'How do I read a file in Node?', messageCount: 2 }),
+    ]);
+  });
+
+  it('should keep every message when appends overlap', async () => {
+    const { id } = await store.create('Busy thread');
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => store.append(id, [{ role: 'user', content: `message ${i}` }]))
+    );
+    expect((await store.get(id)).messages.map((m) => m.content)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `message ${i}`)
+    );
+  });
+
+  it('should rename and delete', async () => {
+    const { id } = await store.create('Old name');
+    expect((await store.rename(id, '  New name ')).title).toBe('New name');
+    await store.delete(id);
+    await expect(store.get(id)).rejects.toBeInstanceOf(ConversationError);
+    await expect(store.delete(id)).rejects.toBeInstanceOf(ConversationError);
+  });
+
+  it('should reject ids that could escape the directory', async () => {
+    await expect(store.get('../../etc/passwd')).rejects.toBeInstanceOf(ConversationError);
+  });
+});
+
+describe('titleFrom', () => {
+  it('should shorten long questions at a word boundary', () => {
+    const title = titleFrom([{ role: 'user', content: 'Why does my React component re-render every time the parent state changes even with memo?' }]);
+    expect(title.length).toBeLessThanOrEqual(61);
+    expect(title.endsWith('…')).toBe(true);
+    expect(title).not.toMatch(/\s…$/);
+  });
+});
+
+describe('fitToBudget', () => {
+  // 10 tokens each at four characters per token
+  const message = (role: ChatMessage['role'], n: number): ChatMessage => ({ role, content: `${n}`.padEnd(40, '.') });
+
+  it('should keep everything that fits', () => {
+    const messages = [message('user', 1), message('assistant', 2)];
+    expect(fitToBudget(messages, 100)).toEqual(messages);
+  });
+
+  it('should drop the oldest turns but keep system messages', () => {
+    const messages = [message('system', 0), message('user', 1), message('assistant', 2), message('user', 3)];
+    expect(fitToBudget(messages, 30)).toEqual([message('system', 0), message('assistant', 2), message('user', 3)]);
+  });
+
+  it('should always keep the last message', () => {
+    const messages = [message('user', 1), message('user', 2)];
+    expect(fitToBudget(messages, 5)).toEqual([message('user', 2)]);
+  });
+});
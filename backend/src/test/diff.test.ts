@@ -0,0 +1,130 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffLines, formatUnifiedDiff, splitLines } from '../ai/diff';
+import { applyReplacement, buildInlineEditRequest, extractCode, streamCode } from '../ai/edit';
+import { DiffHunk } from '../types';
+
+/** Applies the chosen hunks to `before` the way the editor does. */
+function apply(before: string, hunks: DiffHunk[], accepted = hunks.map(() => true)) {
+  const lines = splitLines(before);
+  const out: string[] = [];
+  let cursor = 0;
+  hunks.forEach((h, i) => {
+    const start = h.oldLines ? h.oldStart - 1 : h.oldStart;
+    out.push(...lines.slice(cursor, start));
+    const keep = accepted[i] ? '+' : '-';
+    out.push(...h.lines.filter((l) => l[0] === ' ' || l[0] === keep).map((l) => l.slice(1)));
+    cursor = start + h.oldLines;
+  });
+  out.push(...lines.slice(cursor));
+  return out.map((l) => `${l}\n`).join('');
+}
+
+const numbered = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}\n`).join('');
+
+describe('diffLines', () => {
+  it('should return no hunks for identical text', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual([]);
+  });
+
+  it('should produce a hunk with three lines of context', () => {
+    const before = numbered(10);
+    const after = before.replace('line 5\n', 'line five\n');
+    expect(diffLines(before, after)).toEqual([
+      {
+        oldStart: 2,
+        oldLines: 7,
+        newStart: 2,
+        newLines: 7,
+        lines: [' line 2', ' line 3', ' line 4', '-line 5', '+line five', ' line 6', ' line 7', ' line 8'],
+      },
+    ]);
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = numbered(30);
+    const after = before.replace('line 2\n', 'two\n').replace('line 28\n', '');
+    const hunks = diffLines(before, after);
+    expect(hunks).toHaveLength(2);
+    expect(apply(before, hunks)).toBe(after);
+    expect(apply(before, hunks, [true, false])).toBe(before.replace('line 2\n', 'two\n'));
+  });
+
+  it('should handle pure insertions and a file created from nothing', () => {
+    const hunks = diffLines('', 'a\nb\n');
+    expect(hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 });
+    expect(apply('', hunks)).toBe('a\nb\n');
+
+    const before = numbered(5);
+    const after = before.replace('line 3\n', 'line 3\ninserted\n');
+    expect(apply(before, diffLines(before, after))).toBe(after);
+  });
+
+  it('should replace a rewrite too large to diff in one hunk', () => {
+    const before = numbered(3000);
+    const after = `header\n${before.replace(/line/g, 'row')}`;
+    const hunks = diffLines(before, after);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 3000, newStart: 1, newLines: 3001 });
+    expect(apply(before, hunks)).toBe(after);
+  });
+
+  it('should format hunks as a unified diff', () => {
+    const diff = formatUnifiedDiff('src/a.ts', diffLines('a\n', 'b\n'));
+    expect(diff).toBe('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,1 +1,1 @@\n-a\n+b\n');
+  });
+});
+
+describe('edit helpers', () => {
+  it('should take the code out of a fenced reply', () => {
+    expect(extractCode('Here you go:\n```ts\nconst a = 1;\n```\nDone.')).toBe('const a = 1;\n');
+    expect(extractCode('  const a = 1;  ')).toBe('const a = 1;');
+  });
+
+  it('should replace only the selected lines', () => {
+    expect(applyReplacement('a\nb\nc\n', 'B1\nB2\n', { startLine: 2, endLine: 2 })).toBe('a\nB1\nB2\nc\n');
+    expect(applyReplacement('a\nb', 'x\n')).toBe('x');
+  });
+
+  it('should ask for a rewrite of only the selection, with the lines around it', () => {
+    const request = buildInlineEditRequest({
+      instruction: 'use async/await',
+      code: 'load().then(run);',
+      before: 'function main() {',
+      language: 'typescript',
+    });
+    const task = request.messages[1].content;
+    expect(task).toContain('Selected code to rewrite:\n```typescript\nload().then(run);\n```');
+    expect(task).toContain('Code above the selection:');
+    expect(task).not.toContain('Code below the selection:');
+    expect(task.endsWith('Instruction: use async/await')).toBe(true);
+  });
+});
+
+describe('streamCode', () => {
+  async function* chunks(...parts: string[]) {
+    yield* parts;
+  }
+  const collect = async (tokens: AsyncIterable<string>) => {
+    const out: string[] = [];
+    for await (const token of tokens) out.push(token);
+    return out;
+  };
+
+  it('should unwrap a fenced reply split anywhere, dropping what follows it', async () => {
+    const reply = '```ts\nawait load();\nrun();\n```\nDone.';
+    for (let size = 1; size <= 7; size++) {
+      const parts = reply.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g'))!;
+      expect((await collect(streamCode(chunks(...parts)))).join('')).toBe('await load();\nrun();\n');
+    }
+  });
+
+  it('should stream code before the block is closed, holding back only a possible fence', async () => {
+    const out = await collect(streamCode(chunks('```js\nconst a', ' = 1;\n', '```')));
+    expect(out).toEqual(['const a', ' = 1;', '\n']);
+  });
+
+  it('should pass a reply without a fence through', async () => {
+    expect((await collect(streamCode(chunks('const a', ' = 1;')))).join('')).toBe('const a = 1;');
+    expect((await collect(streamCode(chunks('``', '`js\n```')))).join('')).toBe('');
+  });
+});
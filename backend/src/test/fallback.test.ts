@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { createMockProvider, getUsage, registerProvider, streamChat, streamCompletion } from '../ai';
+
+describe('streamWithFallback', () => {
+  it('should book an attempt whose consumer stops reading early', async () => {
+    registerProvider(createMockProvider({ id: 'mock-early-stop', reply: () => 'one two three four' }));
+    const chat = { messages: [{ role: 'user' as const, content: 'Count' }] };
+
+    for await (const token of streamChat('mock-early-stop', chat, { route: 'test:early-stop' })) {
+      expect(token).toBeTruthy();
+      break;
+    }
+
+    expect(getUsage().byRoute['test:early-stop']).toMatchObject({ requests: 1, errors: 0 });
+  });
+
+  it('should stream an empty completion when a non-streaming adapter returns no text', async () => {
+    registerProvider({
+      ...createMockProvider({ id: 'mock-no-text' }),
+      streamCompletion: undefined,
+      complete: async () => ({}) as any,
+    });
+
+    const tokens: string[] = [];
+    for await (const token of streamCompletion('mock-no-text', { prefix: 'x' })) tokens.push(token);
+    expect(tokens).toEqual(['']);
+  });
+});
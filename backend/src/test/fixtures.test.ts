@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { FixtureStore, stableStringify } from '../ai/fixtures';
+import { useFixtures } from '../ai/http';
+import { createOpenAICompatProvider } from '../ai/openai';
+import { createMockProvider } from '../ai/mock';
+import { ProviderError } from '../ai/errors';
+import { ProviderAdapter } from '../ai/registry';
+
+async function collect(stream: AsyncIterable<string>) {
+  let text = '';
+  for await (const token of stream) text += token;
+  return text;
+}
+
+/** Fixtures are written once a response has been read to the end, a tick later. */
+async function fixtureCount(dir: string, expected: number) {
+  for (let i = 0; i < 50; i++) {
+    const hosts = await fs.readdir(dir).catch(() => [] as string[]);
+    const files = (await Promise.all(hosts.map((h) => fs.readdir(path.join(dir, h))))).flat();
+    if (files.length >= expected) return files.length;
+    await new Promise((r) => setTimeout(r, 10));
+  }
+  return 0;
+}
+
+describe('FixtureStore', () => {
+  it('should map equal requests to one file whatever the key order', () => {
+    const store = new FixtureStore('/fixtures');
+    const a = store.fileFor({ method: 'POST', url: 'https://api.example.com/v1/x', body: { a: 1, b: [1, { c: 2, d: 3 }] } });
+    const b = store.fileFor({ method: 'POST', url: 'https://api.example.com/v1/x', body: { b: [1, { d: 3, c: 2 }], a: 1 } });
+    const c = store.fileFor({ method: 'POST', url: 'https://api.example.com/v1/x', body: { a: 2 } });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(path.dirname(a)).toBe(path.join('/fixtures', 'api.example.com'));
+    expect(stableStringify({ b: undefined, a: [1, 'x'] })).toBe('{"a":[1,"x"]}');
+  });
+});
+
+describe('record and replay', () => {
+  let dir: string;
+  let server: http.Server;
+  let provider: ProviderAdapter;
+  let lastPayload: any;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-fixtures-'));
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        lastPayload = payload;
+        if (req.url === '/v1/completions' && payload.prompt.includes('boom')) {
+          res.writeHead(400, { 'Content-Type': 'text/plain' });
+          return res.end('prompt rejected');
+        }
+        if (req.url === '/v1/completions') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          return res.end(JSON.stringify({ choices: [{ text: ' world' }] }));
+        }
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const token of ['Hi', ' there']) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: token } }] })}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = createOpenAICompatProvider({
+      id: 'local',
+      name: 'Local model',
+      baseUrl: `http://127.0.0.1:${port}/v1`,
+      model: 'test',
+      apiKey: 'secret-key',
+    });
+  });
+
+  afterEach(async () => {
+    useFixtures('off');
+    server.closeAllConnections();
+    server.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded completions, streams and errors without the server', async () => {
+    useFixtures('record', dir);
+    const chat = { messages: [{ role: 'user' as const, content: 'Hello' }] };
+    expect((await provider.complete({ prefix: 'hello' })).text).toBe(' world');
+    expect(await collect(provider.streamChat!(chat))).toBe('Hi there');
+    await expect(provider.complete({ prefix: 'boom' })).rejects.toThrow('prompt rejected');
+    expect(await fixtureCount(dir, 3)).toBe(3);
+
+    server.close();
+    useFixtures('replay', dir);
+    expect((await provider.complete({ prefix: 'hello' })).text).toBe(' world');
+    expect(await collect(provider.streamChat!(chat))).toBe('Hi there');
+    await expect(provider.complete({ prefix: 'boom' })).rejects.toThrow('(400): prompt rejected');
+  });
+
+  it('should keep API keys out of fixtures', async () => {
+    useFixtures('record', dir);
+    await provider.complete({ prefix: 'hello' });
+    await fixtureCount(dir, 1);
+
+    const [host] = await fs.readdir(dir);
+    const [file] = await fs.readdir(path.join(dir, host));
+    expect(await fs.readFile(path.join(dir, host, file), 'utf8')).not.toContain('secret-key');
+  });
+
+  it('should sample several candidates at a temperature that tells them apart', async () => {
+    await provider.complete({ prefix: 'hello', temperature: 0.2, n: 3 });
+    expect(lastPayload).toMatchObject({ n: 3, temperature: 0.7 });
+
+    await provider.complete({ prefix: 'hello' });
+    expect(lastPayload.temperature).toBe(0.2);
+    expect(lastPayload.n).toBeUndefined();
+  });
+
+  it('should fail requests that were never recorded', async () => {
+    useFixtures('replay', dir);
+    await expect(provider.complete({ prefix: 'unseen' })).rejects.toBeInstanceOf(ProviderError);
+  });
+});
+
+describe('createMockProvider', () => {
+  it('should stream the same text it returns', async () => {
+    const mock = createMockProvider();
+    const chat = { messages: [{ role: 'user' as const, content: 'Explain closures' }] };
+
+    const reply = await mock.chat(chat);
+    expect(reply).toContain('Explain closures');
+    expect(await collect(mock.streamChat!(chat))).toBe(reply);
+    expect(await collect(mock.streamCompletion!({ prefix: 'const x', language: 'typescript' }))).toBe(
+      (await mock.complete({ prefix: 'const x', language: 'typescript' })).text
+    );
+  });
+
+  it('should return distinct candidates when asked for several', async () => {
+    const { candidates } = await createMockProvider({ completion: () => 'x' }).complete({ prefix: '', n: 3 });
+    expect(candidates).toEqual(['x', 'x 2', 'x 3']);
+  });
+
+  it('should fail on cue with the given status', async () => {
+    const mock = createMockProvider({ id: 'down', failWith: 503 });
+    await expect(mock.complete({ prefix: '' })).rejects.toMatchObject({ provider: 'down', status: 503 });
+    await expect(collect(mock.streamChat!({ messages: [] }))).rejects.toBeInstanceOf(ProviderError);
+  });
+});
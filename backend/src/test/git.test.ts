@@ -94,6 +94,19 @@ describe('Git Endpoints', () => {
       expect(response.body).toHaveProperty('success');
     });
 
+    it('should refuse a staged-only commit when nothing is staged', async () => {
+      const response = await testServer.request
+        .post('/api/git/commit')
+        .send({
+          path: testWorkspacePath,
+          message: 'Test commit',
+          stagedOnly: true
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Nothing staged');
+    });
+
     it('should validate commit request', async () => {
       const response = await testServer.request
         .post('/api/git/commit')
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { requestJSON, retryAfterMs, sendUpstream } from '../ai/http';
+import { readSSE } from '../ai/sse';
+import { ProviderError, RateLimitError, UpstreamAuthError, UpstreamTimeoutError } from '../ai/errors';
+import { errorHandler } from '../middlewares/errorHandler';
+import { usageLabels } from '../routes/http';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+describe('sendUpstream', () => {
+  let server: http.Server;
+  let url: string;
+  let handlers: Handler[];
+  let calls: number;
+
+  beforeEach(async () => {
+    handlers = [];
+    calls = 0;
+    server = http.createServer((req, res) => {
+      const handler = handlers[Math.min(calls++, handlers.length - 1)];
+      req.resume();
+      req.on('end', () => handler(req, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/test`;
+  });
+
+  afterEach(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const json = (status: number, body: unknown, headers: Record<string, string> = {}): Handler => (_req, res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  it('should retry 5xx and honour Retry-After', async () => {
+    handlers = [json(503, { error: 'busy' }, { 'Retry-After': '0' }), json(200, { ok: true })];
+    expect(await requestJSON({ provider: 'test', url, body: {} })).toEqual({ ok: true });
+    expect(calls).toBe(2);
+  });
+
+  it('should give up at once when Retry-After is longer than it may wait', async () => {
+    handlers = [json(429, { error: { message: 'slow down' } }, { 'Retry-After': '3600' })];
+    const error = await sendUpstream({ provider: 'test', url, body: {} }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe('test request failed (429): slow down');
+    expect(error.retryAfterMs).toBe(3_600_000);
+    expect(calls).toBe(1);
+  });
+
+  it('should not retry client errors', async () => {
+    handlers = [json(401, { message: 'bad key' })];
+    await expect(sendUpstream({ provider: 'test', url, body: {} })).rejects.toBeInstanceOf(UpstreamAuthError);
+    expect(calls).toBe(1);
+  });
+
+  it('should time out a provider that goes quiet', async () => {
+    handlers = [() => undefined];
+    const error = await sendUpstream({ provider: 'test', url, body: {}, timeoutMs: 50 }).catch((e) => e);
+    expect(error).toBeInstanceOf(UpstreamTimeoutError);
+    // the first attempt and both retries
+    expect(calls).toBe(3);
+  });
+
+  it('should decode a character split across chunks', async () => {
+    const bytes = Buffer.from(JSON.stringify({ text: 'naïve ☕' }));
+    const split = bytes.indexOf(Buffer.from('☕')) + 1;
+    handlers = [
+      (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.write(bytes.subarray(0, split));
+        setTimeout(() => res.end(bytes.subarray(split)), 20);
+      },
+    ];
+    expect(await requestJSON({ provider: 'test', url })).toEqual({ text: 'naïve ☕' });
+  });
+
+  it('should reject bodies that are not JSON', async () => {
+    handlers = [(_req, res) => res.end('<html>')];
+    await expect(requestJSON({ provider: 'test', url })).rejects.toBeInstanceOf(ProviderError);
+  });
+});
+
+describe('readSSE', () => {
+  it('should decode a character split across chunks', async () => {
+    const bytes = Buffer.from('data: café ☕\n\n');
+    const split = bytes.indexOf(Buffer.from('☕')) + 1;
+    const res = Readable.from([bytes.subarray(0, split), bytes.subarray(split)]) as any;
+    const events: string[] = [];
+    for await (const data of readSSE(res)) events.push(data);
+    expect(events).toEqual(['café ☕']);
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('should read seconds and HTTP dates', () => {
+    expect(retryAfterMs({ 'retry-after': '2' })).toBe(2000);
+    expect(retryAfterMs({ 'retry-after': new Date(Date.now() - 1000).toUTCString() })).toBe(0);
+    expect(retryAfterMs({})).toBeUndefined();
+  });
+});
+
+describe('errorHandler', () => {
+  const respond = (err: unknown) => {
+    const sent: { status?: number; headers: Record<string, string>; body?: unknown } = { headers: {} };
+    const res: any = {
+      setHeader: (name: string, value: string) => (sent.headers[name] = value),
+      status: (status: number) => ((sent.status = status), res),
+      json: (body: unknown) => (sent.body = body),
+    };
+    const log = console.error;
+    console.error = () => undefined;
+    errorHandler(err, {} as any, res, () => undefined);
+    console.error = log;
+    return sent;
+  };
+
+  it('should map provider failures to gateway statuses', () => {
+    expect(respond(new RateLimitError('slow down', 'x', 1500))).toMatchObject({
+      status: 429,
+      headers: { 'Retry-After': '2' },
+    });
+    expect(respond(new UpstreamTimeoutError('quiet', 'x')).status).toBe(504);
+    expect(respond(new UpstreamAuthError('bad key', 'x', 401)).status).toBe(502);
+    expect(respond(new ProviderError('bad request', 'x', 400)).status).toBe(502);
+    expect(respond(new ProviderError('loading', 'x', 503)).status).toBe(503);
+    expect(respond(Object.assign(new Error('gone'), { status: 404 })).status).toBe(404);
+  });
+});
+
+describe('usageLabels', () => {
+  it('should label a request with the route pattern it matched, not its path', () => {
+    const req: any = {
+      baseUrl: '/api/ai',
+      path: '/agent/0b6f1c1e-5c1a-4f57-9a43-2f1d3c7e8a90/approval',
+      route: { path: '/agent/:id/approval' },
+      get: () => 'web',
+    };
+    expect(usageLabels(req)).toEqual({ route: '/api/ai/agent/:id/approval', client: 'web' });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals';
+import { ProviderHealth } from '../ai/health';
+import { createMockProvider } from '../ai/mock';
+import { ProviderAdapter } from '../ai/registry';
+
+describe('ProviderHealth', () => {
+  it('should record latency of a passing probe and the error of a failing one', async () => {
+    const health = new ProviderHealth({ timeoutMs: 1000 });
+    const [up, down] = await health.probeAll([
+      createMockProvider({ id: 'up' }),
+      createMockProvider({ id: 'down', failWith: 503 }),
+    ]);
+
+    expect(up).toMatchObject({ status: 'ok', latencyMs: expect.any(Number), checkedAt: expect.any(String) });
+    expect(down).toMatchObject({ status: 'error', error: 'Mock provider down failed (503)' });
+    expect(health.get('down')).toBe(down);
+  });
+
+  it('should not probe providers that are unconfigured or cannot be probed', async () => {
+    const health = new ProviderHealth({ timeoutMs: 1000 });
+    let probes = 0;
+    const unconfigured: ProviderAdapter = {
+      ...createMockProvider({ id: 'keyless' }),
+      missingConfig: () => 'API_KEY is not set',
+      probe: async () => void probes++,
+    };
+    const { probe: _, ...unprobed } = createMockProvider({ id: 'silent' });
+
+    await health.probeAll([unconfigured, unprobed]);
+    expect(probes).toBe(0);
+    expect(health.get('keyless')).toEqual({ status: 'unknown' });
+    expect(health.get('silent')).toEqual({ status: 'unknown' });
+  });
+
+  it('should share one probe between concurrent callers', async () => {
+    const health = new ProviderHealth({ timeoutMs: 1000 });
+    let probes = 0;
+    const adapter: ProviderAdapter = {
+      ...createMockProvider({ id: 'slow' }),
+      probe: () => new Promise<void>((resolve) => setTimeout(() => resolve(void probes++), 20)),
+    };
+
+    await Promise.all([health.probe(adapter), health.probe(adapter)]);
+    expect(probes).toBe(1);
+  });
+
+  it('should fail a probe that outlives its timeout', async () => {
+    const health = new ProviderHealth({ timeoutMs: 20 });
+    const adapter: ProviderAdapter = {
+      ...createMockProvider({ id: 'hung' }),
+      probe: (options) =>
+        new Promise<void>((_, reject) => options?.signal?.addEventListener('abort', () => reject(new Error('timed out')))),
+    };
+
+    expect(await health.probe(adapter)).toMatchObject({ status: 'error', error: 'timed out' });
+  });
+});
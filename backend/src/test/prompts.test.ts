@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { WorkspaceService } from '../workspace/service';
+import { PromptLibrary, parseTemplate, renderTemplate } from '../ai/prompts';
+
+describe('Prompt templates', () => {
+  it('should read the description from front matter', () => {
+    expect(parseTemplate('---\ndescription: Review it\n---\nReview {{code}}\n')).toEqual({
+      description: 'Review it',
+      body: 'Review {{code}}',
+    });
+    expect(parseTemplate('Just a body')).toEqual({ description: '', body: 'Just a body' });
+  });
+
+  it('should fill in variables and keep unknown ones', () => {
+    const body = 'Explain `{{ path }}` ({{language}}):\n{{code}}\n{{other}}';
+    expect(renderTemplate(body, { path: 'a.ts', language: 'typescript', code: 'x()' })).toBe(
+      'Explain `a.ts` (typescript):\nx()\n{{other}}'
+    );
+  });
+
+  it('should append typed input when the template has no {{input}}', () => {
+    expect(renderTemplate('Review {{code}}', { code: 'x()', input: ' be brief ' })).toBe('Review x()\n\nbe brief');
+  });
+});
+
+describe('PromptLibrary', () => {
+  let root: string;
+  let library: PromptLibrary;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-prompts-'));
+    process.env.WORKSPACE_ROOT = root;
+    const workspace = new WorkspaceService();
+    await workspace.writeFile('.aiide/prompts/review.md', '---\ndescription: Team review\n---\nReview against our style guide: {{input}}');
+    await workspace.writeFile('.aiide/prompts/explain.md', 'Explain like I am five:\n{{code}}');
+    library = new PromptLibrary(workspace);
+  });
+
+  afterAll(async () => {
+    delete process.env.WORKSPACE_ROOT;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should list built-ins and workspace templates', async () => {
+    const prompts = await library.list();
+    expect(prompts.map((p) => p.name)).toEqual(['doc', 'explain', 'fix', 'optimize', 'review', 'tests']);
+    expect(prompts.find((p) => p.name === 'review')).toEqual({
+      name: 'review',
+      description: 'Team review',
+      source: 'workspace',
+      usesCode: false,
+    });
+  });
+
+  it('should let workspace files override built-ins', async () => {
+    expect(await library.render('explain', { code: 'x()' })).toBe('Explain like I am five:\nx()');
+  });
+
+  it('should reject unknown commands with a 404', async () => {
+    await expect(library.render('nope', {})).rejects.toMatchObject({ status: 404 });
+  });
+});
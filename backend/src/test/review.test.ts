@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildReviewRequest, numberDiff, parseFindings } from '../ai/review';
+
+const diff = [
+  'diff --git a/src/user.ts b/src/user.ts',
+  '--- a/src/user.ts',
+  '+++ b/src/user.ts',
+  '@@ -10,3 +10,4 @@ export function load(id: string) {',
+  '   const row = db.get(id);',
+  '-  return row;',
+  '+  const user = JSON.parse(row.data);',
+  '+  return user;',
+  ' }',
+].join('\n');
+
+describe('numberDiff', () => {
+  it('should number context and added lines with their new-file line', () => {
+    expect(numberDiff(diff).split('\n').slice(4)).toEqual([
+      '   10    const row = db.get(id);',
+      '      -  return row;',
+      '   11 +  const user = JSON.parse(row.data);',
+      '   12 +  return user;',
+      '   13  }',
+    ]);
+  });
+
+  it('should leave file headers alone', () => {
+    expect(numberDiff(diff).split('\n').slice(0, 3)).toEqual(diff.split('\n').slice(0, 3));
+  });
+});
+
+describe('buildReviewRequest', () => {
+  it('should report when the diff had to be truncated', () => {
+    expect(buildReviewRequest(diff, 10_000).truncated).toBe(false);
+    const { request, truncated } = buildReviewRequest(diff, 50);
+    expect(truncated).toBe(true);
+    expect(request.messages[1].content).toContain('[diff truncated]');
+  });
+});
+
+describe('parseFindings', () => {
+  it('should read findings from a fenced JSON block', () => {
+    const reply = [
+      'Here is my review:',
+      '```json',
+      '[{"file": "src/user.ts", "line": 11, "severity": "error", "message": "row may be undefined"}]',
+      '```',
+    ].join('\n');
+    expect(parseFindings(reply, diff)).toEqual([
+      { file: 'src/user.ts', line: 11, severity: 'error', message: 'row may be undefined' },
+    ]);
+  });
+
+  it('should normalise severities, paths and line numbers', () => {
+    const reply = JSON.stringify([
+      { file: 'b/src/user.ts', line: '12', severity: 'High', message: 'JSON.parse can throw' },
+      { file: 'src/user.ts', line: 11, severity: 'nitpick', message: 'name it parsed' },
+    ]);
+    expect(parseFindings(reply, diff)).toEqual([
+      { file: 'src/user.ts', line: 11, severity: 'info', message: 'name it parsed' },
+      { file: 'src/user.ts', line: 12, severity: 'error', message: 'JSON.parse can throw' },
+    ]);
+  });
+
+  it('should drop malformed findings and files outside the diff', () => {
+    const reply = JSON.stringify([
+      { file: 'src/other.ts', line: 1, severity: 'error', message: 'not in the diff' },
+      { file: 'src/user.ts', severity: 'error', message: 'no line' },
+      { file: 'src/user.ts', line: 12, severity: 'warning', message: 'kept' },
+    ]);
+    expect(parseFindings(reply, diff)).toEqual([
+      { file: 'src/user.ts', line: 12, severity: 'warning', message: 'kept' },
+    ]);
+  });
+
+  it('should accept an empty review and reject replies without an array', () => {
+    expect(parseFindings('```json\n[]\n```', diff)).toEqual([]);
+    expect(parseFindings('Looks good to me!', diff)).toBeNull();
+  });
+});
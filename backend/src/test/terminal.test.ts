@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { spawn } from 'child_process';
+import { takeExitMarkers, withExitMarker } from '../services/terminal';
+import { buildTerminalQuestion, mentionedFiles, parseTerminalFix, terminalFix, withTerminalQuestion } from '../ai/terminal';
+
+const run = {
+  id: 'c1',
+  command: 'npm test',
+  output: [
+    'FAIL src/math.test.ts',
+    "  TypeError: Cannot read properties of undefined (reading 'x')",
+    '    at add (/repo/src/math.ts:3:14)',
+    '    at Object.<anonymous> (node_modules/jest-circus/build/index.js:10:1)',
+    '    at /etc/hosts.txt',
+  ].join('\n'),
+  timestamp: new Date(),
+  workingDirectory: '/repo',
+  exitCode: 1,
+};
+
+describe('takeExitMarkers', () => {
+  it('should take out marker lines and report their exit codes', () => {
+    const { output, exits, rest } = takeExitMarkers('build failed\n\n__ai_ide_exit__ c1 2\nnext\n');
+    expect(output).toBe('build failed\nnext\n');
+    expect(exits).toEqual([{ commandId: 'c1', exitCode: 2 }]);
+    expect(rest).toBe('');
+  });
+
+  it('should not hold back a chunk that ends with a complete line', () => {
+    expect(takeExitMarkers('compiling...\n')).toEqual({ output: 'compiling...\n', exits: [], rest: '' });
+  });
+
+  it('should hold back a marker split across chunks', () => {
+    const first = takeExitMarkers('done\n__ai_ide_ex');
+    expect(first.output).toBe('done');
+    expect(first.exits).toEqual([]);
+
+    const second = takeExitMarkers(`${first.rest}it__ c1 0\n`);
+    expect(second.output).toBe('');
+    expect(second.exits).toEqual([{ commandId: 'c1', exitCode: 0 }]);
+  });
+});
+
+describe('withExitMarker', () => {
+  it('should report the exit code of a command that reads stdin', async () => {
+    const shell = spawn('/bin/bash', [], { stdio: 'pipe' });
+    let stdout = '';
+    shell.stdout.on('data', (data) => (stdout += data));
+    shell.stdin.end(`${withExitMarker('cat', 'c1')}typed line\n`);
+    await new Promise((resolve) => shell.on('close', resolve));
+
+    const { output, exits } = takeExitMarkers(stdout);
+    expect(output).toBe('typed line\n');
+    expect(exits).toEqual([{ commandId: 'c1', exitCode: 0 }]);
+  });
+});
+
+describe('mentionedFiles', () => {
+  it('should list workspace files the output points at, in order', () => {
+    expect(mentionedFiles(run, '/repo')).toEqual(['src/math.test.ts', 'src/math.ts']);
+  });
+
+  it('should resolve relative paths against the working directory', () => {
+    const nested = { command: 'tsc', output: 'lib/a.ts(1,2): error', workingDirectory: '/repo/packages/core' };
+    expect(mentionedFiles(nested, '/repo')).toEqual(['packages/core/lib/a.ts']);
+  });
+});
+
+describe('buildTerminalQuestion', () => {
+  it('should include the command, its exit code, output and files', () => {
+    const question = buildTerminalQuestion(run, 'fix', [{ path: 'src/math.ts', content: 'export const add = (a) => a.x;', clipped: false }]);
+    expect(question.role).toBe('user');
+    expect(question.content).toContain('Fix this: `npm test` run in /repo exited with code 1.');
+    expect(question.content).toContain('at add (/repo/src/math.ts:3:14)');
+    expect(question.content).toContain('File: src/math.ts\n```typescript\nexport const add');
+  });
+
+  it('should put the instructions before a stored thread and the question after it', () => {
+    const question = buildTerminalQuestion(run, 'explain', []);
+    const request = withTerminalQuestion({ messages: [{ role: 'user', content: 'earlier' }] }, question, 'explain');
+    expect(request.messages.map((m) => m.role)).toEqual(['system', 'user', 'user']);
+    expect(request.messages[2]).toBe(question);
+  });
+});
+
+describe('terminalFix', () => {
+  const original = 'export function add(a, b) {\n  return a.x + b;\n}\n';
+  const reply = [
+    '`a` is a number, not an object.',
+    'File: src/math.ts',
+    '```ts',
+    'export function add(a, b) {',
+    '  return a + b;',
+    '}',
+    '```',
+    'Then run:',
+    '```sh',
+    '$ npm test -- math',
+    '```',
+  ].join('\n');
+
+  it('should parse the proposed command and file', () => {
+    expect(parseTerminalFix(reply)).toEqual({
+      command: 'npm test -- math',
+      file: { path: 'src/math.ts', content: 'export function add(a, b) {\n  return a + b;\n}\n' },
+    });
+  });
+
+  it('should turn the file into hunks against what the model saw', () => {
+    const fix = terminalFix(reply, [{ path: 'src/math.ts', content: original, clipped: false }]);
+    expect(fix?.command).toBe('npm test -- math');
+    expect(fix?.edit?.path).toBe('src/math.ts');
+    expect(fix?.edit?.diff).toContain('-  return a.x + b;\n+  return a + b;');
+  });
+
+  it('should drop an edit to a file the model only saw part of', () => {
+    const fix = terminalFix(reply, [{ path: 'src/math.ts', content: original, clipped: true }]);
+    expect(fix).toEqual({ command: 'npm test -- math' });
+    expect(terminalFix('Just a typo in the command name.', [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { UsageTracker } from '../ai/usage';
+
+describe('UsageTracker', () => {
+  const record = {
+    provider: 'codestral',
+    route: '/api/ai/completion',
+    client: '127.0.0.1',
+    promptTokens: 100,
+    completionTokens: 20,
+    latencyMs: 300,
+    error: false,
+  };
+
+  it('should aggregate per provider, route and client', () => {
+    const tracker = new UsageTracker();
+    tracker.record(record);
+    tracker.record({ ...record, provider: 'chatgpt-oss', route: '/api/ai/chat', latencyMs: 100, error: true });
+
+    const usage = tracker.snapshot();
+    expect(usage.totals).toMatchObject({ requests: 2, errors: 1, promptTokens: 200, completionTokens: 40, avgLatencyMs: 200 });
+    expect(usage.byProvider.codestral).toMatchObject({ requests: 1, errors: 0, avgLatencyMs: 300 });
+    expect(usage.byRoute['/api/ai/chat']).toMatchObject({ requests: 1, errors: 1 });
+    expect(usage.byClient['127.0.0.1']).toMatchObject({ requests: 2 });
+  });
+});
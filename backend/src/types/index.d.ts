@@ -1,24 +1,39 @@
+import { ChatMessage, Truncation } from '@ai-ide/shared';
+
+export {
+  AIModel,
+  AgentRun,
+  AgentStep,
+  AgentToolName,
+  ChatMessage,
+  CodeSource,
+  CommitMessageResponse,
+  CompletionResponse,
+  Conversation,
+  ConversationSummary,
+  DiffHunk,
+  EditResponse,
+  GitStatus,
+  PromptTemplate,
+  ReviewFinding,
+  ReviewResponse,
+  StreamChunk,
+  TerminalFix,
+  Truncation,
+  WorkspaceFile,
+} from '@ai-ide/shared';
+
+/** A completion request as the adapters see it, after validation and repository context. */
 export interface CompletionRequest {
-  prompt: string;
+  /** Code before the cursor */
+  prefix: string;
+  suffix?: string;
   maxTokens?: number;
   temperature?: number;
   context?: string;
   language?: string;
-  prefix?: string;
-  suffix?: string;
-}
-
-export interface CompletionResponse {
-  text: string;
-  completion?: string;
-  tokens?: number;
-  model?: string;
-  provider?: string;
-}
-
-export interface ChatMessage {
-  role: 'system' | 'assistant' | 'user';
-  content: string;
+  /** How many distinct suggestions to return (default 1) */
+  n?: number;
 }
 
 export interface ChatRequest {
@@ -34,31 +49,7 @@ export interface ChatResponse {
   tokens?: number;
   model?: string;
   provider?: string;
-}
-
-export interface GitStatus {
-  status: 'clean' | 'dirty';
-  files: Array<{
-    index: string;
-    working_dir: string;
-    path: string;
-  }>;
-  staged: string[];
-  modified: string[];
-  not_added: string[];
-  deleted: string[];
-  renamed: string[];
-  ahead: number;
-  behind: number;
-  isClean(): boolean;
-}
-
-export interface WorkspaceFile {
-  name: string;
-  type: 'file' | 'directory';
-  size: number;
-  modified: string;
-  path: string;
+  truncation?: Truncation;
 }
 
 export interface HealthCheck {
@@ -92,14 +83,6 @@ export interface HealthCheck {
   platform: string;
 }
 
-export interface AIModel {
-  id: string;
-  name: string;
-  provider: string;
-  description: string;
-  capabilities: string[];
-}
-
 export interface APIResponse<T = any> {
   success?: boolean;
   data?: T;
@@ -107,13 +90,6 @@ export interface APIResponse<T = any> {
   message?: string;
 }
 
-export interface StreamChunk {
-  type: 'completion' | 'chat' | 'error' | 'done';
-  data?: string;
-  error?: string;
-  token?: string;
-}
-
 export interface ErrorResponse {
   error: string;
   message: string;
@@ -8,15 +8,30 @@ export interface FileNode {
   children?: FileNode[];
 }
 
+/** Directories never worth walking for search or indexing. */
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', '__pycache__', 'venv']);
+
+/** How many recently edited files are remembered for AI context. */
+const RECENT_LIMIT = 20;
+
 /**
  * Service that mirrors the real `workspace` directory.
  * It emits events that the WS layer forwards to all clients.
  */
 export class WorkspaceService extends EventEmitter {
-  readonly root = path.resolve(process.cwd(), 'workspace');
+  readonly root = path.resolve(process.env.WORKSPACE_ROOT || path.join(process.cwd(), 'workspace'));
+
+  /** Most recently edited first */
+  private recent: string[] = [];
 
   constructor() {
     super();
+    this.on('file:changed', (rel: string) => {
+      this.recent = [rel, ...this.recent.filter((r) => r !== rel)].slice(0, RECENT_LIMIT);
+    });
+    this.on('file:deleted', (rel: string) => {
+      this.recent = this.recent.filter((r) => r !== rel && !r.startsWith(`${rel}/`));
+    });
   }
 
   async ensureRoot() {
@@ -27,10 +42,37 @@ export class WorkspaceService extends EventEmitter {
     return path.join(this.root, rel);
   }
 
+  /** True when `rel` stays inside the workspace once resolved. */
+  contains(rel: string) {
+    const resolved = path.resolve(this.root, rel);
+    return resolved === this.root || resolved.startsWith(this.root + path.sep);
+  }
+
+  recentlyEdited(limit = RECENT_LIMIT): string[] {
+    return this.recent.slice(0, limit);
+  }
+
+  /** For writes that bypass the service (e.g. the REST routes), so listeners still hear about them. */
+  notifyChanged(rel: string) {
+    this.emit('file:changed', rel);
+  }
+
+  notifyDeleted(rel: string) {
+    this.emit('file:deleted', rel);
+  }
+
   async readFile(rel: string): Promise<string> {
     return fs.readFile(this.fullPath(rel), 'utf8');
   }
 
+  async isFile(rel: string): Promise<boolean> {
+    try {
+      return (await fs.stat(this.fullPath(rel))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
   async writeFile(rel: string, content: string) {
     await fs.mkdir(path.dirname(this.fullPath(rel)), { recursive: true });
     await fs.writeFile(this.fullPath(rel), content, 'utf8');
@@ -43,6 +85,19 @@ export class WorkspaceService extends EventEmitter {
     this.emit('file:deleted', rel);
   }
 
+  /** Workspace‑relative paths of every file, skipping hidden and dependency directories. */
+  async listFiles(dir = ''): Promise<string[]> {
+    const entries = await fs.readdir(this.fullPath(dir), { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith('.') || IGNORED_DIRS.has(entry.name)) continue;
+      const rel = path.posix.join(dir, entry.name);
+      if (entry.isDirectory()) files.push(...(await this.listFiles(rel)));
+      else if (entry.isFile()) files.push(rel);
+    }
+    return files;
+  }
+
   async getTree(dir = ''): Promise<FileNode[]> {
     const abs = this.fullPath(dir);
     const entries = await fs.readdir(abs, { withFileTypes: true });
@@ -61,4 +116,7 @@ export class WorkspaceService extends EventEmitter {
     }
     return result;
   }
-}
\ No newline at end of file
+}
+
+/** Shared instance – sockets, REST routes and the AI context builder all see the same events. */
+export const workspace = new WorkspaceService();
@@ -6,6 +6,7 @@ import Layout from '@/components/Layout';
 import Explorer from '@/components/Explorer';
 import Editor from '@/components/Editor';
 import GitPanel from '@/components/GitPanel';
+import ReviewPanel from '@/components/ReviewPanel';
 import Chat from '@/components/Chat';
 import Terminal from '@/components/Terminal';
 import ErrorBoundary from '@/components/ErrorBoundary';
@@ -170,6 +171,10 @@ export default function App() {
                 <GitPanel />
               </ErrorBoundary>
             )}
+
+            <ErrorBoundary>
+              <ReviewPanel />
+            </ErrorBoundary>
             
             {showTerminal && (
               <ErrorBoundary>
@@ -0,0 +1,124 @@
+import {
+  CheckIcon,
+  XMarkIcon,
+  DocumentTextIcon,
+  FolderIcon,
+  MagnifyingGlassIcon,
+  PencilSquareIcon,
+  CommandLineIcon,
+} from '@heroicons/react/24/outline';
+import { AgentRun, AgentStep, AgentToolName } from '@/types';
+
+interface AgentTranscriptProps {
+  run: AgentRun;
+  /** A request for this run is in flight – approval buttons are disabled */
+  busy: boolean;
+  onResolve: (approved: boolean) => void;
+}
+
+const TOOL_ICONS: Record<AgentToolName, typeof DocumentTextIcon> = {
+  read_file: DocumentTextIcon,
+  list_tree: FolderIcon,
+  search: MagnifyingGlassIcon,
+  write_file: PencilSquareIcon,
+  run_command: CommandLineIcon,
+};
+
+const STATUS_STYLES: Record<NonNullable<AgentStep['status']>, string> = {
+  pending: 'text-yellow-400',
+  approved: 'text-blue-400',
+  rejected: 'text-gray-500 line-through',
+  done: 'text-green-400',
+  error: 'text-red-400',
+};
+
+/** The short form of a call's arguments shown next to the tool name. */
+function describeCall(step: AgentStep) {
+  const args = step.args ?? {};
+  const subject = args.path ?? args.query ?? args.command;
+  return typeof subject === 'string' && subject ? subject : '';
+}
+
+/**
+ * Renders an agent run: what the model said, every tool call with its
+ * output, and Approve / Reject for the write or command it is waiting on.
+ */
+export default function AgentTranscript({ run, busy, onResolve }: AgentTranscriptProps) {
+  return (
+    <div className="space-y-2 text-sm">
+      {run.steps.map((step: AgentStep) =>
+        step.type === 'message' ? (
+          <div key={step.id} className="whitespace-pre-wrap">
+            {step.content}
+          </div>
+        ) : (
+          <ToolStep
+            key={step.id}
+            step={step}
+            awaitingApproval={step.status === 'pending' && run.status === 'awaiting_approval'}
+            busy={busy}
+            onResolve={onResolve}
+          />
+        )
+      )}
+      {run.status === 'error' && <div className="text-red-400 text-xs">Agent stopped: {run.error}</div>}
+    </div>
+  );
+}
+
+interface ToolStepProps {
+  step: AgentStep;
+  awaitingApproval: boolean;
+  busy: boolean;
+  onResolve: (approved: boolean) => void;
+}
+
+function ToolStep({ step, awaitingApproval, busy, onResolve }: ToolStepProps) {
+  const Icon = step.tool ? TOOL_ICONS[step.tool] : CommandLineIcon;
+  const content = step.tool === 'write_file' ? step.args?.content : undefined;
+
+  return (
+    <div className="rounded border border-surface/30 bg-black/20 p-1.5">
+      <div className="flex items-center gap-1.5 text-xs">
+        <Icon className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+        <span className="font-mono">{step.tool ?? 'tool call'}</span>
+        <span className="font-mono truncate text-gray-300" title={describeCall(step)}>
+          {describeCall(step)}
+        </span>
+        {step.status && <span className={`ml-auto ${STATUS_STYLES[step.status]}`}>{step.status}</span>}
+      </div>
+
+      {awaitingApproval && typeof content === 'string' && (
+        <pre className="mt-1 max-h-40 overflow-auto text-xs bg-black/30 p-1 rounded">{content}</pre>
+      )}
+
+      {step.output && !awaitingApproval && (
+        <details className="mt-1">
+          <summary className="cursor-pointer text-xs text-gray-400">Output</summary>
+          <pre className="mt-1 max-h-40 overflow-auto text-xs bg-black/30 p-1 rounded whitespace-pre-wrap">
+            {step.output}
+          </pre>
+        </details>
+      )}
+
+      {awaitingApproval && (
+        <div className="mt-1.5 flex gap-2">
+          <button
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-green-600/80 text-white text-xs disabled:opacity-50"
+            onClick={() => onResolve(true)}
+            disabled={busy}
+          >
+            <CheckIcon className="w-3.5 h-3.5" /> Approve
+          </button>
+          <button
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-600/80 text-white text-xs disabled:opacity-50"
+            onClick={() => onResolve(false)}
+            disabled={busy}
+          >
+            <XMarkIcon className="w-3.5 h-3.5" /> Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,56 @@
 import { useState, useRef, useEffect } from 'react';
 import { useAI } from '@/hooks/useAI';
 import { useToast } from '@/hooks/useToast';
-import { PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import { usePrompts } from '@/hooks/usePrompts';
+import { getActiveEditor, useActiveEditor } from '@/hooks/useActiveEditor';
+import { useConversations } from '@/hooks/useConversations';
+import {
+  PaperAirplaneIcon,
+  MagnifyingGlassIcon,
+  WrenchScrewdriverIcon,
+  ChatBubbleLeftRightIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
 import ProviderSelect from './ProviderSelect';
-import { AIProvider } from '@/types';
+import AgentTranscript from './AgentTranscript';
+import { AIProvider, AgentRun, ChatMessage, CodeSource, Conversation, ConversationSummary, PromptRequest, PromptTemplate, TerminalFix } from '@/types';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
-  timestamp: number;
+  /** Unset for messages loaded from a stored conversation */
+  timestamp?: number;
+  /** Workspace excerpts a "search codebase" answer is based on */
+  sources?: CodeSource[];
+  /** Transcript of an agent-mode answer */
+  run?: AgentRun;
+  /** Command or file change a terminal "Fix" answer proposes */
+  fix?: TerminalFix;
+}
+
+/** Sent by the terminal's Explain / Fix buttons as an `explain-command` event. */
+interface ExplainCommand {
+  commandId: string;
+  command: string;
+  mode: 'explain' | 'fix';
+}
+
+// The thread that was open last, so a reload resumes it
+const CONVERSATION_KEY = 'ai-ide-conversation';
+
+/** What Chat shows of a stored thread – system messages are context, not conversation. */
+function toMessages(conversation: Conversation): Message[] {
+  return conversation.messages
+    .filter((m: ChatMessage) => m.role !== 'system')
+    .map((m: ChatMessage) => ({ role: m.role as Message['role'], content: m.content }));
+}
+
+/** `/name rest` → its parts, or null when the input isn't a slash command. */
+function parseCommand(input: string) {
+  const match = /^\/([\w-]+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  return match ? { name: match[1].toLowerCase(), rest: match[2] ?? '' } : null;
 }
 
 export default function Chat() {
@@ -16,76 +58,384 @@ export default function Chat() {
   const [input, setInput] = useState('');
   const [provider, setProvider] = useState<AIProvider>('chatgpt-oss'); // default for chat
   const [isLoading, setIsLoading] = useState(false);
-  const { chat } = useAI();
+  const [searchCodebase, setSearchCodebase] = useState(false);
+  const [agentMode, setAgentMode] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(() => localStorage.getItem(CONVERSATION_KEY));
+  const [showConversations, setShowConversations] = useState(false);
+  const { streamChat, explainTerminalCommand, startAgent, resolveAgentAction } = useAI();
+  const {
+    conversations,
+    refresh: refreshConversations,
+    getConversation,
+    createConversation,
+    renameConversation,
+    deleteConversation,
+  } = useConversations();
   const { error } = useToast();
+  const { prompts } = usePrompts();
+  const activeEditor = useActiveEditor();
   const bottomRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const send = async () => {
-    if (!input.trim() || isLoading) return;
-    
+  // While the command name is being typed, offer the matching templates
+  const suggestions = !agentMode && /^\/[\w-]*$/.test(input)
+    ? prompts.filter((p: PromptTemplate) => p.name.startsWith(input.slice(1).toLowerCase()))
+    : [];
+
+  const completeCommand = (name: string) => setInput(`/${name} `);
+
+  /**
+   * The template to apply for a slash command, filled with the active editor's
+   * selection (or whole file). Undefined for plain messages; null when the
+   * command can't run and the user has been told why.
+   */
+  const promptFor = (text: string): PromptRequest | null | undefined => {
+    const command = parseCommand(text);
+    const template = command && prompts.find((p: PromptTemplate) => p.name === command.name);
+    if (!command || !template) return undefined;
+
+    const editor = getActiveEditor();
+    if (!editor) {
+      if (template.usesCode) {
+        error(`Open a file in the editor to use /${template.name}`);
+        return null;
+      }
+      return { name: template.name, input: command.rest };
+    }
+    const { content, selection } = editor.read();
+    return {
+      name: template.name,
+      input: command.rest,
+      code: selection || content,
+      path: editor.path,
+      language: editor.language,
+    };
+  };
+
+  /** Shows `content` as the user's turn with an empty assistant message for the reply. */
+  const addExchange = (content: string) => {
     const userMessage: Message = { 
       role: 'user', 
-      content: input, 
+      content, 
       timestamp: Date.now() 
     };
-    setMessages((m) => [...m, userMessage]);
+    const aiMessage: Message = { 
+      role: 'assistant', 
+      content: '', 
+      timestamp: Date.now() 
+    };
+    setMessages((m) => [...m, userMessage, aiMessage]);
+  };
+
+  // Changes the assistant message being streamed – always the last one
+  const updateReply = (update: (reply: Message) => Message) =>
+    setMessages((m) => [...m.slice(0, -1), update(m[m.length - 1])]);
+
+  /**
+   * Streams the reply `open` starts into the last assistant message. The
+   * first message of a new chat starts a stored thread.
+   */
+  const streamReply = async (open: (threadId: string, signal: AbortSignal) => AsyncGenerator<string>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const threadId: string = conversationId ?? (await createConversation()).id;
+      if (!conversationId) selectConversation(threadId);
+      for await (const token of open(threadId, controller.signal)) {
+        updateReply((reply) => ({ ...reply, content: reply.content + token }));
+      }
+      refreshConversations();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      error(`Chat failed: ${(err as Error).message}`);
+      // Drop the placeholder if nothing arrived before the failure
+      setMessages((m) => (m[m.length - 1].content ? m : m.slice(0, -1)));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const send = async () => {
+    if (!input.trim() || isLoading) return;
+
+    const prompt = agentMode ? undefined : promptFor(input);
+    if (prompt === null) return;
+    
+    addExchange(input);
     setInput('');
     setIsLoading(true);
 
-    try {
-      const reply = await chat(
+    if (agentMode) {
+      await runAgent(() => startAgent([{ role: 'user', content: input }], provider, controllerFor()));
+      return;
+    }
+
+    await streamReply((threadId, signal) =>
+      streamChat(
         {
           messages: [{ role: 'user', content: input }],
+          codebase: searchCodebase,
+          prompt,
+          conversationId: threadId,
         },
-        provider
-      );
-      
-      const aiMessage: Message = { 
-        role: 'assistant', 
-        content: reply, 
-        timestamp: Date.now() 
-      };
-      setMessages((m) => [...m, aiMessage]);
+        provider,
+        signal,
+        (sources: CodeSource[]) => updateReply((reply) => ({ ...reply, sources }))
+      )
+    );
+  };
+
+  // Asks about a failed terminal command; a ref so the listener below is added once
+  const explainCommandRef = useRef<(request: ExplainCommand) => void>(() => {});
+  explainCommandRef.current = ({ commandId, command, mode }) => {
+    if (isLoading) {
+      error('Wait for the current answer to finish');
+      return;
+    }
+    addExchange(`${mode === 'fix' ? 'Fix' : 'Explain'}: $ ${command}`);
+    setIsLoading(true);
+    streamReply((threadId, signal) =>
+      explainTerminalCommand(
+        { commandId, mode, conversationId: threadId },
+        provider,
+        signal,
+        (fix: TerminalFix) => updateReply((reply) => ({ ...reply, fix }))
+      )
+    );
+  };
+
+  const selectConversation = (id: string | null) => {
+    setConversationId(id);
+    if (id) localStorage.setItem(CONVERSATION_KEY, id);
+    else localStorage.removeItem(CONVERSATION_KEY);
+  };
+
+  /** Shows a stored thread; the next message continues it. */
+  const openConversation = async (id: string) => {
+    abortRef.current?.abort();
+    setShowConversations(false);
+    try {
+      const conversation = await getConversation(id);
+      selectConversation(id);
+      setMessages(toMessages(conversation));
     } catch (err) {
-      error(`Chat failed: ${(err as Error).message}`);
+      error(`Failed to open conversation: ${(err as Error).message}`);
+    }
+  };
+
+  const newConversation = () => {
+    abortRef.current?.abort();
+    selectConversation(null);
+    setMessages([]);
+    setShowConversations(false);
+  };
+
+  const renameThread = async (thread: ConversationSummary) => {
+    const title = prompt('Rename conversation:', thread.title);
+    if (!title?.trim()) return;
+    try {
+      await renameConversation(thread.id, title.trim());
+    } catch (err) {
+      error(`Failed to rename: ${(err as Error).message}`);
+    }
+  };
+
+  const deleteThread = async (thread: ConversationSummary) => {
+    if (!confirm(`Delete "${thread.title || 'Untitled'}"?`)) return;
+    try {
+      await deleteConversation(thread.id);
+      if (thread.id === conversationId) newConversation();
+    } catch (err) {
+      error(`Failed to delete: ${(err as Error).message}`);
+    }
+  };
+
+  /** Aborts whatever is in flight and returns the signal for the next request. */
+  const controllerFor = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller.signal;
+  };
+
+  /**
+   * Runs one agent request (start or approval) and puts the returned run
+   * into the assistant message that owns it – the last one for a new run.
+   */
+  const runAgent = async (request: () => Promise<AgentRun>) => {
+    setIsLoading(true);
+    try {
+      const run = await request();
+      setMessages((m) => {
+        const index = m.findIndex((msg) => msg.run?.id === run.id);
+        const at = index === -1 ? m.length - 1 : index;
+        return m.map((msg, i) => (i === at ? { ...msg, run } : msg));
+      });
+    } catch (err) {
+      if (abortRef.current?.signal.aborted) return;
+      error(`Agent failed: ${(err as Error).message}`);
+      setMessages((m) => (m[m.length - 1].content || m[m.length - 1].run ? m : m.slice(0, -1)));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const resolveAction = (runId: string, approved: boolean) =>
+    runAgent(() => resolveAgentAction(runId, approved, controllerFor()));
+
+  // Stop the reply stream if the panel goes away mid-answer
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    const handleExplain = (e: Event) => explainCommandRef.current((e as CustomEvent<ExplainCommand>).detail);
+    window.addEventListener('explain-command', handleExplain);
+    return () => window.removeEventListener('explain-command', handleExplain);
+  }, []);
+
+  // Resume the thread that was open before the reload
+  useEffect(() => {
+    if (!conversationId) return;
+    getConversation(conversationId)
+      .then((conversation: Conversation) => setMessages(toMessages(conversation)))
+      // Deleted elsewhere – start fresh
+      .catch(() => selectConversation(null));
+  }, []);
+
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
   return (
-    <aside className="w-80 bg-overlay text-gray-100 flex flex-col border-l border-surface/30">
+    <aside className="w-80 bg-overlay text-gray-100 flex flex-col border-l border-surface/30 relative">
       <div className="p-2 flex items-center gap-2 border-b border-surface/50">
         <span className="font-medium text-sm">🤖 Model:</span>
         <ProviderSelect value={provider} onChange={setProvider} />
+        <button
+          className={`ml-auto p-1 rounded ${showConversations ? 'text-primary' : 'text-gray-400 hover:text-gray-200'}`}
+          onClick={() => setShowConversations((on) => !on)}
+          title="Conversations"
+          aria-pressed={showConversations}
+        >
+          <ChatBubbleLeftRightIcon className="w-4 h-4" />
+        </button>
+        <button className="p-1 rounded text-gray-400 hover:text-gray-200" onClick={newConversation} title="New chat">
+          <PlusIcon className="w-4 h-4" />
+        </button>
       </div>
 
+      {showConversations && (
+        <div className="absolute top-11 left-0 right-0 z-10 max-h-72 overflow-y-auto bg-overlay border-b border-surface/50 shadow-lg text-sm">
+          {conversations.length === 0 ? (
+            <p className="p-3 text-gray-500">No saved conversations yet</p>
+          ) : (
+            conversations.map((thread: ConversationSummary) => (
+              <div
+                key={thread.id}
+                className={`group flex items-center gap-1 px-3 py-1.5 hover:bg-surface/40 ${
+                  thread.id === conversationId ? 'bg-surface/30' : ''
+                }`}
+              >
+                <button className="flex-1 min-w-0 text-left" onClick={() => openConversation(thread.id)}>
+                  <div className="truncate">{thread.title || 'Untitled'}</div>
+                  <div className="text-xs text-gray-500">
+                    {thread.messageCount} messages · {new Date(thread.updatedAt).toLocaleString()}
+                  </div>
+                </button>
+                <button
+                  className="p-1 text-gray-500 hover:text-gray-200 opacity-0 group-hover:opacity-100"
+                  onClick={() => renameThread(thread)}
+                  title="Rename"
+                >
+                  <PencilIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  onClick={() => deleteThread(thread)}
+                  title="Delete"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-3 space-y-3">
         {messages.length === 0 ? (
           <div className="text-center text-gray-500 py-4">
             Start a conversation with the AI...
           </div>
         ) : (
-          messages.map((msg, i) => (
+          messages.filter((msg) => msg.content || msg.run).map((msg, i) => (
             <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
               <div
-                className={`max-w-xs p-2 rounded ${
+                className={`${msg.run ? 'w-full' : 'max-w-xs'} p-2 rounded ${
                   msg.role === 'user' ? 'bg-primary text-white' : 'bg-black/20 text-gray-100'
                 }`}
               >
-                <div className="text-sm">{msg.content}</div>
-                <div className="text-xs opacity-60 mt-1">
-                  {new Date(msg.timestamp).toLocaleTimeString()}
-                </div>
+                {msg.run ? (
+                  <AgentTranscript
+                    run={msg.run}
+                    busy={isLoading}
+                    onResolve={(approved) => resolveAction(msg.run!.id, approved)}
+                  />
+                ) : (
+                  <div className="text-sm">{msg.content}</div>
+                )}
+                {msg.fix && (
+                  <div className="mt-2 pt-1 border-t border-surface/30 space-y-0.5">
+                    {msg.fix.command && (
+                      <button
+                        className="block text-xs text-primary hover:underline truncate max-w-full font-mono"
+                        title="Put the command in the terminal"
+                        onClick={() =>
+                          window.dispatchEvent(new CustomEvent('terminal-input', { detail: msg.fix!.command }))
+                        }
+                      >
+                        $ {msg.fix.command}
+                      </button>
+                    )}
+                    {msg.fix.edit && (
+                      <button
+                        className="block text-xs text-primary hover:underline truncate max-w-full"
+                        title="Review the change in the editor"
+                        onClick={() => window.dispatchEvent(new CustomEvent('review-edit', { detail: msg.fix!.edit }))}
+                      >
+                        Review change to {msg.fix.edit.path}
+                      </button>
+                    )}
+                  </div>
+                )}
+                {msg.sources && msg.sources.length > 0 && (
+                  <div className="mt-2 pt-1 border-t border-surface/30 space-y-0.5">
+                    {msg.sources.map((source) => (
+                      <button
+                        key={`${source.path}:${source.startLine}`}
+                        className="block text-xs text-primary hover:underline truncate max-w-full"
+                        title="Open file"
+                        onClick={() =>
+                          window.dispatchEvent(new CustomEvent('select-file', { detail: source.path }))
+                        }
+                      >
+                        {source.path}:{source.startLine}-{source.endLine}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {msg.timestamp && (
+                  <div className="text-xs opacity-60 mt-1">
+                    {new Date(msg.timestamp).toLocaleTimeString()}
+                  </div>
+                )}
               </div>
             </div>
           ))
         )}
         {isLoading && (
+          agentMode || !messages[messages.length - 1]?.content
+        ) && (
           <div className="flex justify-start">
             <div className="bg-black/20 p-2 rounded">
               <div className="flex space-x-1">
@@ -99,13 +449,66 @@ export default function Chat() {
         <div ref={bottomRef} />
       </div>
 
-      <div className="p-2 flex">
+      <div className="p-2 flex relative">
+        {suggestions.length > 0 && (
+          <ul className="absolute bottom-full left-2 right-2 mb-1 bg-overlay border border-surface/50 rounded shadow-lg max-h-48 overflow-y-auto text-sm">
+            {suggestions.map((p: PromptTemplate) => (
+              <li key={p.name}>
+                <button
+                  className="w-full text-left px-3 py-1 hover:bg-surface/40"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => completeCommand(p.name)}
+                >
+                  <span className="text-primary">/{p.name}</span>
+                  <span className="ml-2 text-gray-400">{p.description}</span>
+                  {p.usesCode && !activeEditor && (
+                    <span className="ml-2 text-xs text-gray-500">(needs an open file)</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          className={`px-2 rounded-l border border-r-0 border-surface/30 ${
+            agentMode ? 'bg-primary/30 text-primary' : 'bg-black/20 text-gray-400'
+          }`}
+          onClick={() => setAgentMode((on) => !on)}
+          title={agentMode ? 'Agent mode: on' : 'Agent mode: off'}
+          aria-pressed={agentMode}
+        >
+          <WrenchScrewdriverIcon className="w-4 h-4" />
+        </button>
+        <button
+          className={`px-2 border border-r-0 border-surface/30 disabled:opacity-40 ${
+            searchCodebase ? 'bg-primary/30 text-primary' : 'bg-black/20 text-gray-400'
+          }`}
+          onClick={() => setSearchCodebase((on) => !on)}
+          disabled={agentMode}
+          title={searchCodebase ? 'Search codebase: on' : 'Search codebase: off'}
+          aria-pressed={searchCodebase}
+        >
+          <MagnifyingGlassIcon className="w-4 h-4" />
+        </button>
         <input
-          className="flex-1 bg-black/20 text-gray-100 rounded-l px-3 py-2 focus:outline-none border border-surface/30"
-          placeholder="Ask the model..."
+          className="flex-1 bg-black/20 text-gray-100 px-3 py-2 focus:outline-none border border-surface/30"
+          placeholder={
+            agentMode
+              ? 'Give the agent a task...'
+              : searchCodebase
+                ? 'Ask about the codebase...'
+                : 'Ask the model, or / for commands...'
+          }
           value={input}
           onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && send()}
+          onKeyDown={(e) => {
+            if (e.key === 'Tab' && suggestions.length > 0) {
+              e.preventDefault();
+              completeCommand(suggestions[0].name);
+            } else if (e.key === 'Enter') {
+              send();
+            }
+          }}
           disabled={isLoading}
         />
         <button
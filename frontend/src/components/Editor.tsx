@@ -4,21 +4,43 @@ import { EditorView, keymap, Decoration } from '@codemirror/view';
 import { javascript } from '@codemirror/lang-javascript';
 import { python } from '@codemirror/lang-python';
 import { go } from '@codemirror/lang-go';
-import { defaultKeymap, indentWithTab } from '@codemirror/commands';
-import { autocomplete } from '@codemirror/autocomplete';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
 import { 
   XMarkIcon, 
-  PinIcon, 
+  MapPinIcon, 
   DocumentIcon,
   CircleStackIcon,
-  ArrowDownTrayIcon
+  ArrowDownTrayIcon,
+  SparklesIcon,
+  CheckIcon
 } from '@heroicons/react/24/outline';
 import { useAI } from '@/hooks/useAI';
 import { useWorkspace } from '@/hooks/useWorkspace';
 import { useToast } from '@/hooks/useToast';
-import { CompletionRequest } from '@/types';
+import { useSettings } from '@/hooks/useSettings';
+import { setActiveEditor } from '@/hooks/useActiveEditor';
+import { diffReview, startReview, resolveAll } from '@/lib/diffReview';
+import { reviewMarkers, showReviewFindings } from '@/lib/reviewMarkers';
+import { ghostText, requestGhostText } from '@/lib/ghostText';
+import {
+  inlineEdit,
+  startInlineEdit,
+  appendInlineEdit,
+  finishInlineEdit,
+  inlineEditStatus,
+  acceptInlineEdit,
+  rejectInlineEdit,
+} from '@/lib/inlineEdit';
+import { useReview } from '@/hooks/useReview';
+import { AIProvider, EditResponse, ReviewFinding } from '@/types';
 import classNames from 'classnames';
 
+/** Suggestions asked for once the user cycles with Alt-] / Alt-[; typing asks for one */
+const COMPLETION_CANDIDATES = 3;
+
+/** Lines above and below a selection sent along with an inline edit */
+const INLINE_EDIT_CONTEXT_LINES = 50;
+
 interface Tab {
   id: string;
   path: string;
@@ -91,7 +113,7 @@ function EditorTab({ tab, isActive, onSelect, onClose, onTogglePin, onSave }: Ed
           )}
           title={tab.isPinned ? 'Unpin' : 'Pin'}
         >
-          <PinIcon className="w-3 h-3" />
+          <MapPinIcon className="w-3 h-3" />
         </button>
         
         <button
@@ -217,13 +239,30 @@ function EditorTabs({
 
 export default function Editor() {
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
   const { currentFile, loadFile, saveFile } = useWorkspace();
-  const { requestCompletion } = useAI();
-  const { error } = useToast();
-  const [provider, setProvider] = useState<'codestral' | 'chatgpt-oss' | 'dkimi'>('codestral');
-  const [isCompleting, setIsCompleting] = useState(false);
+  const { requestCompletion, requestEdit, streamInlineEdit } = useAI();
+  const { error, info } = useToast();
+  const [provider, setProvider] = useState<AIProvider>('codestral');
+  // Read by the editor on every keystroke; a ref so a settings change doesn't rebuild it
+  const settings = useSettings();
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // In-flight AI edit; a newer request (or a tab switch) aborts the older one
+  const editAbortRef = useRef<AbortController | null>(null);
+  // AI edit: the instruction bar, the request in flight and hunks still under review
+  const [isEditBarOpen, setIsEditBarOpen] = useState(false);
+  const [editInstruction, setEditInstruction] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [pendingHunks, setPendingHunks] = useState(0);
+  // Inline edit (Ctrl+K): the prompt bar over the selection and the rewrite it streams
+  const [inlinePrompt, setInlinePrompt] = useState<{ top: number; left: number } | null>(null);
+  const [inlineInstruction, setInlineInstruction] = useState('');
+  const [inlineStatus, setInlineStatus] = useState<'idle' | 'streaming' | 'ready'>('idle');
+  const inlineAbortRef = useRef<AbortController | null>(null);
   const [tabs, setTabs] = useState<Tab[]>([]);
   const [activeTabId, setActiveTabId] = useState<string | null>(null);
+  const review = useReview();
 
   // Auto-load file when selected in explorer
   useEffect(() => {
@@ -269,25 +308,40 @@ export default function Editor() {
       });
   }, [currentFile, loadFile, error]);
 
-  // Update active tab content when file is selected
+  // Read when a tab is selected; a ref so typing doesn't reload the file
+  const tabsRef = useRef<Tab[]>(tabs);
+  tabsRef.current = tabs;
+
+  // Update active tab content when file is selected, unless it has unsaved changes
   useEffect(() => {
     if (!activeTabId || !currentFile) return;
     
-    const activeTab = tabs.find(tab => tab.id === activeTabId);
-    if (!activeTab || activeTab.path !== currentFile) return;
+    const activeTab = tabsRef.current.find(tab => tab.id === activeTabId);
+    if (!activeTab || activeTab.path !== currentFile || activeTab.isLoading) return;
     
+    let cancelled = false;
     loadFile(currentFile)
       .then(content => {
+        const tab = tabsRef.current.find(t => t.id === activeTabId);
+        if (cancelled || !tab || tab.isModified) return;
+        // The editor only reads a tab's content when it is created
+        const view = viewRef.current;
+        if (view && view.state.doc.toString() !== content) {
+          view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: content } });
+        }
         setTabs(prev => prev.map(tab => 
           tab.id === activeTabId 
-            ? { ...tab, content, originalContent: content, isLoading: false }
+            ? { ...tab, content, originalContent: content, isModified: false }
             : tab
         ));
       })
       .catch(err => {
         error(`Failed to load file: ${err.message}`);
       });
-  }, [activeTabId, currentFile, loadFile, error, tabs]);
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTabId, currentFile, loadFile, error]);
 
   // Tab management functions
   const handleSelectTab = useCallback((id: string) => {
@@ -417,7 +471,177 @@ export default function Editor() {
 
   const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
 
-  // Initialize CodeMirror
+  // Open tab paths for repository context; a ref so typing doesn't rebuild the editor
+  const openPathsRef = useRef<string[]>([]);
+  openPathsRef.current = tabs.map(tab => tab.path);
+
+  // AI review findings for this tab; a ref so a new editor starts with its markers
+  const fileFindings = useMemo(
+    () => review?.findings.filter((f: ReviewFinding) => f.file === activeTab?.path) ?? [],
+    [review, activeTab?.path]
+  );
+  const fileFindingsRef = useRef<ReviewFinding[]>(fileFindings);
+  fileFindingsRef.current = fileFindings;
+  // Jump-to target from the Review panel, kept until its tab is open and loaded
+  const pendingRevealRef = useRef<{ path: string; line: number } | null>(null);
+  // Change proposed in Chat (terminal "Fix"), kept until its tab is open and loaded
+  const pendingEditRef = useRef<EditResponse | null>(null);
+
+  // Whether the review under way has accepted a hunk, so its file needs saving
+  const reviewAcceptedRef = useRef(false);
+  // Saves the file once, after its last hunk is resolved, so "Accept all" doesn't race
+  // one write per hunk; a ref so the editor keeps one extension instance
+  const reviewResolvedRef = useRef<((view: EditorView, accepted: boolean, remaining: number) => void) | null>(null);
+  reviewResolvedRef.current = (view, accepted, remaining) => {
+    setPendingHunks(remaining);
+    if (accepted) reviewAcceptedRef.current = true;
+    if (remaining > 0 || !reviewAcceptedRef.current || !activeTab) return;
+    reviewAcceptedRef.current = false;
+    const { id, path } = activeTab;
+    const content = view.state.doc.toString();
+    saveFile(path, content)
+      .then(() => {
+        setTabs(prev => prev.map(t =>
+          t.id === id ? { ...t, originalContent: content, isModified: t.content !== content } : t
+        ));
+      })
+      .catch((err: Error) => error(`Failed to save: ${err.message}`));
+  };
+
+  const handleAIEdit = async () => {
+    const view = viewRef.current;
+    if (!view || !activeTab || !editInstruction.trim()) return;
+
+    // The diff is computed against the file on disk, so that has to match the editor
+    if (activeTab.isModified) await handleSaveTab(activeTab.id);
+
+    const { doc, selection } = view.state;
+    const { from, to, empty } = selection.main;
+    const endLine = doc.lineAt(to > from && doc.lineAt(to).from === to ? to - 1 : to).number;
+    const snapshot = doc.toString();
+
+    editAbortRef.current?.abort();
+    const controller = new AbortController();
+    editAbortRef.current = controller;
+    setIsEditing(true);
+    try {
+      const result = await requestEdit(
+        {
+          path: activeTab.path,
+          instruction: editInstruction,
+          selection: empty ? undefined : { startLine: doc.lineAt(from).number, endLine },
+        },
+        provider,
+        controller.signal
+      );
+      if (viewRef.current !== view || view.state.doc.toString() !== snapshot) {
+        error('The file changed while the edit was generated – try again');
+        return;
+      }
+      if (!result.hunks.length) {
+        info('The model proposed no changes');
+        return;
+      }
+      reviewAcceptedRef.current = false;
+      startReview(view, result.hunks);
+      setPendingHunks(result.hunks.length);
+      setEditInstruction('');
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        error(`AI edit failed: ${(err as Error).message}`);
+      }
+    } finally {
+      if (editAbortRef.current === controller) editAbortRef.current = null;
+      setIsEditing(false);
+    }
+  };
+
+  const closeInlinePrompt = () => {
+    inlineAbortRef.current?.abort();
+    setInlinePrompt(null);
+    setInlineInstruction('');
+    setInlineStatus('idle');
+    viewRef.current?.focus();
+  };
+
+  // Opens the inline edit bar over the selection; a ref so the editor keeps one keymap
+  const openInlinePromptRef = useRef<(view: EditorView) => boolean>(() => false);
+  openInlinePromptRef.current = (view) => {
+    const container = containerRef.current;
+    if (!container) return false;
+    const { doc, selection } = view.state;
+    const { from, to } = selection.main;
+    // Whole lines read better to the model and are replaced more cleanly
+    const start = doc.lineAt(from).from;
+    const end = to > from && doc.lineAt(to).from === to ? to : doc.lineAt(to).to;
+    view.dispatch({ selection: { anchor: start, head: end } });
+
+    const coords = view.coordsAtPos(start);
+    const box = container.getBoundingClientRect();
+    setInlinePrompt({
+      top: coords ? Math.max(coords.top - box.top - 40, 4) : 4,
+      left: coords ? Math.max(coords.left - box.left, 4) : 4,
+    });
+    setInlineStatus(inlineEditStatus(view.state) === 'ready' ? 'ready' : 'idle');
+    return true;
+  };
+
+  // Closes the bar once the preview is accepted or rejected, also from its own buttons
+  const inlineResolvedRef = useRef<() => void>(() => {});
+  inlineResolvedRef.current = closeInlinePrompt;
+
+  const handleInlineEdit = async () => {
+    const view = viewRef.current;
+    const instruction = inlineInstruction.trim();
+    if (!view || !activeTab || !instruction) return;
+
+    const { doc, selection } = view.state;
+    const { from, to } = selection.main;
+    const firstLine = Math.max(doc.lineAt(from).number - INLINE_EDIT_CONTEXT_LINES, 1);
+    const lastLine = Math.min(doc.lineAt(to).number + INLINE_EDIT_CONTEXT_LINES, doc.lines);
+
+    inlineAbortRef.current?.abort();
+    const controller = new AbortController();
+    inlineAbortRef.current = controller;
+    startInlineEdit(view, from, to);
+    setInlineStatus('streaming');
+    try {
+      const stream = streamInlineEdit(
+        {
+          instruction,
+          code: doc.sliceString(from, to),
+          before: doc.sliceString(doc.line(firstLine).from, from),
+          after: doc.sliceString(to, doc.line(lastLine).to),
+          language: activeTab.language,
+          path: activeTab.path,
+        },
+        provider,
+        controller.signal
+      );
+      for await (const token of stream) {
+        // The view is recreated when the tab changes; an edit inside the range drops the preview
+        if (viewRef.current !== view || controller.signal.aborted) break;
+        if (inlineEditStatus(view.state) === 'none') {
+          controller.abort();
+          break;
+        }
+        appendInlineEdit(view, token);
+      }
+      if (viewRef.current === view && !controller.signal.aborted) {
+        finishInlineEdit(view);
+        setInlineStatus(inlineEditStatus(view.state) === 'ready' ? 'ready' : 'idle');
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        error(`AI edit failed: ${(err as Error).message}`);
+        rejectInlineEdit(view);
+      }
+    } finally {
+      if (inlineAbortRef.current === controller) inlineAbortRef.current = null;
+    }
+  };
+
+  // Initialize CodeMirror – again for another tab, once its content has loaded, or for another provider
   useEffect(() => {
     if (!containerRef.current || !activeTab) return;
     
@@ -441,39 +665,40 @@ export default function Editor() {
     const startState = EditorState.create({
       doc: activeTab.content,
       extensions: [
-        ...getLanguageExtension(activeTab.language),
-        keymap.of([...defaultKeymap, indentWithTab]),
-        autocomplete({
-          override: [
-            async (context) => {
-              if (isCompleting) return null;
-              
-              setIsCompleting(true);
-              try {
-                const prefix = context.state.doc.sliceString(0, context.pos);
-                const suffix = context.state.doc.sliceString(context.pos);
-                const result = await requestCompletion(
-                  {
-                    prompt: `${prefix}${suffix}`,
-                    language: activeTab.language,
-                  } as CompletionRequest,
-                  provider
-                );
-                return {
-                  from: context.pos,
-                  options: [{ 
-                    label: result.completion || result.text, 
-                    apply: result.completion || result.text 
-                  }],
-                };
-              } catch (err) {
-                error(`Completion failed: ${(err as Error).message}`);
-                return null;
-              } finally {
-                setIsCompleting(false);
-              }
-            },
-          ],
+        getLanguageExtension(activeTab.language),
+        history(),
+        keymap.of([
+          { key: 'Mod-k', run: (view: EditorView) => openInlinePromptRef.current(view) },
+          { key: 'Escape', run: rejectInlineEdit },
+          ...defaultKeymap,
+          ...historyKeymap,
+          indentWithTab,
+        ]),
+        inlineEdit({ onResolve: () => inlineResolvedRef.current() }),
+        reviewMarkers(),
+        diffReview({
+          onResolve: (view: EditorView, accepted: boolean, remaining: number) =>
+            reviewResolvedRef.current?.(view, accepted, remaining),
+        }),
+        ghostText({
+          triggerOnType: () => settingsRef.current.aiAutoComplete && settingsRef.current.aiTriggerOnType,
+          cycleCount: COMPLETION_CANDIDATES,
+          suggest: async (state: EditorState, pos: number, signal: AbortSignal, count: number) => {
+            const result = await requestCompletion(
+              {
+                prefix: state.doc.sliceString(0, pos),
+                suffix: state.doc.sliceString(pos),
+                language: activeTab.language,
+                path: activeTab.path,
+                openFiles: openPathsRef.current,
+                n: count,
+              },
+              provider,
+              signal
+            );
+            return result.candidates ?? [result.completion || result.text];
+          },
+          onError: (err: Error) => error(`Completion failed: ${err.message}`),
         }),
         EditorView.updateListener.of((v) => {
           if (v.docChanged) {
@@ -508,9 +733,98 @@ export default function Editor() {
 
     // Store reference for external access
     (containerRef.current as any)._codemirrorView = view;
+    viewRef.current = view;
+
+    // Lets Chat's slash commands read this tab's code without lifting state
+    setActiveEditor({
+      path: activeTab.path,
+      language: activeTab.language,
+      read: () => {
+        const { from, to } = view.state.selection.main;
+        return { content: view.state.doc.toString(), selection: view.state.sliceDoc(from, to) };
+      },
+    });
+    showReviewFindings(view, fileFindingsRef.current);
+
+    return () => {
+      setPendingHunks(0);
+      inlineAbortRef.current?.abort();
+      setInlinePrompt(null);
+      setInlineStatus('idle');
+      setActiveEditor(null);
+      viewRef.current = null;
+      view.destroy();
+    };
+  }, [activeTabId, activeTab?.isLoading, provider, error]);
+
+  // An AI edit belongs to the tab it was asked in
+  useEffect(() => () => editAbortRef.current?.abort(), [activeTabId]);
 
-    return () => view.destroy();
-  }, [activeTabId, provider, isCompleting, error, requestCompletion]);
+  useEffect(() => {
+    if (viewRef.current) showReviewFindings(viewRef.current, fileFindings);
+  }, [fileFindings]);
+
+  // Review panel "go to location": select-file opens the tab, this moves the cursor
+  useEffect(() => {
+    const reveal = () => {
+      const target = pendingRevealRef.current;
+      const view = viewRef.current;
+      if (!target || !view || !activeTab || activeTab.isLoading || activeTab.path !== target.path) return;
+      pendingRevealRef.current = null;
+      const line = view.state.doc.line(Math.min(target.line, view.state.doc.lines));
+      view.dispatch({
+        selection: { anchor: line.from },
+        effects: EditorView.scrollIntoView(line.from, { y: 'center' }),
+      });
+      view.focus();
+    };
+    const handleReveal = (e: Event) => {
+      pendingRevealRef.current = (e as CustomEvent<{ path: string; line: number }>).detail;
+      reveal();
+    };
+
+    reveal();
+    window.addEventListener('reveal-line', handleReveal);
+    return () => window.removeEventListener('reveal-line', handleReveal);
+  }, [activeTabId, activeTab?.path, activeTab?.isLoading]);
+
+  // Chat's proposed change: select-file opens the tab, this starts the hunk review
+  useEffect(() => {
+    const reviewPending = () => {
+      const edit = pendingEditRef.current;
+      const view = viewRef.current;
+      if (!edit || !view || !activeTab || activeTab.isLoading || activeTab.path !== edit.path) return;
+      pendingEditRef.current = null;
+      // The hunks were computed against the file on disk
+      if (activeTab.isModified) {
+        error(`Save ${edit.path} before reviewing the proposed change`);
+        return;
+      }
+      reviewAcceptedRef.current = false;
+      startReview(view, edit.hunks);
+      setPendingHunks(edit.hunks.length);
+    };
+    const handleReviewEdit = (e: Event) => {
+      const edit = (e as CustomEvent<EditResponse>).detail;
+      pendingEditRef.current = edit;
+      window.dispatchEvent(new CustomEvent('select-file', { detail: edit.path }));
+      reviewPending();
+    };
+
+    reviewPending();
+    window.addEventListener('review-edit', handleReviewEdit);
+    return () => window.removeEventListener('review-edit', handleReviewEdit);
+  }, [activeTabId, activeTab?.path, activeTab?.isLoading]);
+
+  // Ctrl+Space – ask for a suggestion at the cursor even when typing doesn't
+  useEffect(() => {
+    const handleTrigger = () => {
+      if (viewRef.current && settingsRef.current.aiAutoComplete) requestGhostText(viewRef.current);
+    };
+
+    window.addEventListener('trigger-completion', handleTrigger);
+    return () => window.removeEventListener('trigger-completion', handleTrigger);
+  }, []);
 
   if (!activeTab) {
     return (
@@ -537,8 +851,111 @@ export default function Editor() {
         onCloseOthers={handleCloseOthers}
       />
       
+      {(isEditBarOpen || pendingHunks > 0) && (
+        <div className="flex items-center gap-2 px-2 py-1 border-b border-surface/30 bg-surface/20 text-sm">
+          <SparklesIcon className="w-4 h-4 text-primary flex-shrink-0" />
+          {pendingHunks > 0 ? (
+            <>
+              <span className="text-gray-300">
+                {pendingHunks} proposed change{pendingHunks !== 1 ? 's' : ''} to review
+              </span>
+              <button
+                className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded bg-green-600/80 text-white text-xs"
+                onClick={() => viewRef.current && resolveAll(viewRef.current, true)}
+              >
+                <CheckIcon className="w-3.5 h-3.5" /> Accept all
+              </button>
+              <button
+                className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-600/80 text-white text-xs"
+                onClick={() => viewRef.current && resolveAll(viewRef.current, false)}
+              >
+                <XMarkIcon className="w-3.5 h-3.5" /> Reject all
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                className="flex-1 bg-black/20 text-gray-100 px-2 py-1 rounded focus:outline-none border border-surface/30"
+                placeholder="Describe the change (applies to the selection, or the whole file)..."
+                value={editInstruction}
+                onChange={(e) => setEditInstruction(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAIEdit();
+                  if (e.key === 'Escape') setIsEditBarOpen(false);
+                }}
+                disabled={isEditing}
+                autoFocus
+              />
+              <button
+                className="px-2 py-1 rounded bg-primary text-white text-xs disabled:opacity-50"
+                onClick={handleAIEdit}
+                disabled={isEditing || !editInstruction.trim()}
+              >
+                {isEditing ? 'Thinking…' : 'Propose'}
+              </button>
+              <button
+                className="p-1 hover:bg-surface/50 rounded text-gray-400"
+                onClick={() => {
+                  editAbortRef.current?.abort();
+                  setIsEditBarOpen(false);
+                }}
+                title="Close"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 overflow-hidden relative">
         <div className="h-full" ref={containerRef} />
+        {inlinePrompt && (
+          <div
+            className="absolute z-10 flex items-center gap-2 w-[28rem] max-w-[90%] px-2 py-1 rounded border border-surface/30 bg-surface shadow-lg text-sm"
+            style={{ top: inlinePrompt.top, left: inlinePrompt.left }}
+          >
+            <SparklesIcon className="w-4 h-4 text-primary flex-shrink-0" />
+            <input
+              className="flex-1 bg-black/20 text-gray-100 px-2 py-1 rounded focus:outline-none border border-surface/30"
+              placeholder="Edit selection, e.g. convert to async/await"
+              value={inlineInstruction}
+              onChange={(e) => setInlineInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                const view = viewRef.current;
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                  if (view) acceptInlineEdit(view);
+                } else if (e.key === 'Enter') {
+                  if (inlineStatus !== 'streaming') handleInlineEdit();
+                } else if (e.key === 'Escape') {
+                  if (!view || !rejectInlineEdit(view)) closeInlinePrompt();
+                }
+              }}
+              readOnly={inlineStatus === 'streaming'}
+              autoFocus
+            />
+            {inlineStatus === 'ready' ? (
+              <>
+                <button
+                  className="flex items-center gap-1 px-2 py-0.5 rounded bg-green-600/80 text-white text-xs"
+                  onClick={() => viewRef.current && acceptInlineEdit(viewRef.current)}
+                  title="Accept (Ctrl+Enter)"
+                >
+                  <CheckIcon className="w-3.5 h-3.5" /> Accept
+                </button>
+                <button
+                  className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-600/80 text-white text-xs"
+                  onClick={() => viewRef.current && rejectInlineEdit(viewRef.current)}
+                  title="Reject (Esc)"
+                >
+                  <XMarkIcon className="w-3.5 h-3.5" /> Reject
+                </button>
+              </>
+            ) : (
+              <span className="text-xs text-gray-400">{inlineStatus === 'streaming' ? 'Generating…' : '⏎'}</span>
+            )}
+          </div>
+        )}
         <div className="absolute bottom-2 left-2 flex items-center gap-4 text-xs text-gray-500">
           <span>{activeTab.language}</span>
           {activeTab.isModified && (
@@ -546,6 +963,13 @@ export default function Editor() {
           )}
           <span>{tabs.length} tab{tabs.length !== 1 ? 's' : ''}</span>
         </div>
+        <button
+          className="absolute bottom-2 right-2 flex items-center gap-1 text-xs text-gray-500 hover:text-primary"
+          onClick={() => setIsEditBarOpen(open => !open)}
+          title="Ask the AI to change this file or the selection"
+        >
+          <SparklesIcon className="w-3.5 h-3.5" /> AI Edit
+        </button>
       </div>
     </div>
   );
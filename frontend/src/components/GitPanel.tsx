@@ -1,17 +1,41 @@
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
+import axios from 'axios';
 import { socket } from '@/lib/socket';
-import { ArrowDownTrayIcon, ArrowUpTrayIcon, RefreshIcon } from '@heroicons/react/24/outline';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, RefreshIcon, SparklesIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
 import { useToast } from '@/hooks/useToast';
+import { useAI } from '@/hooks/useAI';
+import { useSettings } from '@/hooks/useSettings';
+import { useReview, startedReview, finishedReview, clearReview } from '@/hooks/useReview';
+import { GitStatus, ReviewScope, SocketResult } from '@/types';
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+
+/** The server's explanation of a failed request, when it sent one. */
+function errorMessage(err: unknown) {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data;
+    if (data?.message || data?.error) return (data.message ?? data.error) as string;
+  }
+  return (err as Error).message;
+}
 
 export default function GitPanel() {
-  const [status, setStatus] = useState<any>(null);
+  const [status, setStatus] = useState<GitStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
   const { success, error } = useToast();
+  const [reviewScope, setReviewScope] = useState<ReviewScope>('staged');
+  const { suggestCommitMessage, reviewChanges } = useAI();
+  const settings = useSettings();
+  const review = useReview();
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const reviewAbortRef = useRef<AbortController | null>(null);
   const repoPath = '/workspace';
 
   const fetchStatus = async () => {
     setIsLoading(true);
-    socket.emit('git:status', repoPath, (resp: any) => {
+    socket.emit('git:status', repoPath, (resp: SocketResult<{ status: GitStatus }>) => {
       setIsLoading(false);
       if (resp.ok) {
         setStatus(resp.status);
@@ -24,7 +48,7 @@ export default function GitPanel() {
 
   const pull = async () => {
     setIsLoading(true);
-    socket.emit('git:pull', { path: repoPath, remote: 'origin', branch: 'main' }, (resp: any) => {
+    socket.emit('git:pull', { path: repoPath, remote: 'origin', branch: 'main' }, (resp: SocketResult) => {
       setIsLoading(false);
       if (resp.ok) {
         success('Pulled successfully');
@@ -37,7 +61,7 @@ export default function GitPanel() {
 
   const push = async () => {
     setIsLoading(true);
-    socket.emit('git:push', { path: repoPath, remote: 'origin', branch: 'main' }, (resp: any) => {
+    socket.emit('git:push', { path: repoPath, remote: 'origin', branch: 'main' }, (resp: SocketResult) => {
       setIsLoading(false);
       if (resp.ok) {
         success('Pushed successfully');
@@ -48,8 +72,78 @@ export default function GitPanel() {
     });
   };
 
+  /** Prefills the commit box with a message for the staged diff; the user can still edit it. */
+  const generateMessage = async () => {
+    generateAbortRef.current?.abort();
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+    setIsGenerating(true);
+    try {
+      const result = await suggestCommitMessage(
+        repoPath,
+        settings.gitCommitMessageTemplate,
+        settings.defaultAIProvider,
+        controller.signal
+      );
+      setCommitMessage(result.message);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      error(`Could not generate a message: ${errorMessage(err)}`);
+    } finally {
+      if (generateAbortRef.current === controller) setIsGenerating(false);
+    }
+  };
+
+  const commit = async () => {
+    if (!commitMessage.trim()) return;
+    setIsLoading(true);
+    try {
+      // Commit exactly the staged diff the message describes, however old the status shown here is
+      const res = await axios.post(`${apiUrl}/api/git/commit`, {
+        path: repoPath,
+        message: commitMessage.trim(),
+        stagedOnly: true,
+      });
+      success(`Committed ${res.data.hash}`);
+      setCommitMessage('');
+      fetchStatus();
+    } catch (err) {
+      error(`Commit failed: ${errorMessage(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /** Runs the staged diff, or this branch against the default branch, through an AI review. */
+  const runReview = async () => {
+    reviewAbortRef.current?.abort();
+    const controller = new AbortController();
+    reviewAbortRef.current = controller;
+    const base = settings.gitDefaultBranch;
+    startedReview(reviewScope, reviewScope === 'branch' ? base : undefined);
+    try {
+      const result = await reviewChanges(
+        repoPath,
+        reviewScope,
+        base,
+        settings.defaultAIProvider,
+        controller.signal
+      );
+      finishedReview(result);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      clearReview();
+      error(`Review failed: ${errorMessage(err)}`);
+    }
+  };
+
+  useEffect(() => () => {
+    generateAbortRef.current?.abort();
+    reviewAbortRef.current?.abort();
+  }, []);
+
   return (
-    <div className="h-48 bg-overlay text-gray-200 p-2 flex flex-col">
+    <div className="h-80 bg-overlay text-gray-200 p-2 flex flex-col">
       <div className="flex items-center justify-between mb-2">
         <h4 className="text-sm font-medium">🛠️ Git</h4>
         <button 
@@ -66,6 +160,63 @@ export default function GitPanel() {
         {status ? JSON.stringify(status, null, 2) : 'Press ⟳ to load status'}
       </pre>
 
+      <div className="flex gap-2 mt-2">
+        <textarea
+          className="flex-1 bg-black/20 text-gray-100 text-xs px-2 py-1 rounded border border-surface/30 focus:outline-none resize-none"
+          rows={3}
+          placeholder={`Commit message (${settings.gitCommitMessageTemplate})`}
+          value={commitMessage}
+          onChange={(e) => setCommitMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              commit();
+            }
+          }}
+          disabled={isGenerating}
+        />
+        <div className="flex flex-col gap-1">
+          <button
+            className="bg-black/20 text-gray-200 px-2 py-1 rounded border border-surface/30 hover:bg-surface/40 flex items-center text-xs disabled:opacity-50"
+            onClick={generateMessage}
+            disabled={isGenerating || isLoading}
+            title="Generate a message from the staged diff"
+          >
+            <SparklesIcon className={`w-4 h-4 mr-1 ${isGenerating ? 'animate-pulse' : ''}`} />
+            Generate
+          </button>
+          <button
+            className="bg-primary text-white px-2 py-1 rounded hover:bg-primary/80 text-xs disabled:opacity-50"
+            onClick={commit}
+            disabled={isLoading || isGenerating || !commitMessage.trim()}
+            title="Commit (Ctrl+Enter)"
+          >
+            Commit
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-2 text-xs">
+        <select
+          className="flex-1 bg-black/20 text-gray-200 px-2 py-1 rounded border border-surface/30"
+          value={reviewScope}
+          onChange={(e) => setReviewScope(e.target.value as ReviewScope)}
+          disabled={review?.running}
+        >
+          <option value="staged">Staged changes</option>
+          <option value="branch">Branch vs {settings.gitDefaultBranch}</option>
+        </select>
+        <button
+          className="bg-black/20 text-gray-200 px-2 py-1 rounded border border-surface/30 hover:bg-surface/40 flex items-center disabled:opacity-50"
+          onClick={runReview}
+          disabled={review?.running}
+          title="AI review with findings in the Review panel"
+        >
+          <MagnifyingGlassIcon className="w-4 h-4 mr-1" />
+          Review changes
+        </button>
+      </div>
+
       <div className="flex gap-2 mt-2">
         <button
           className="flex-1 bg-primary text-white py-1 rounded hover:bg-primary/80 flex items-center justify-center disabled:opacity-50"
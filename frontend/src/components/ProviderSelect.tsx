@@ -1,28 +1,45 @@
-import { AIProvider } from '@/types';
+import { AIModel, AIProvider } from '@/types';
+import { useModels } from '@/hooks/useModels';
 
 interface Props {
   value: AIProvider;
   onChange: (p: AIProvider) => void;
+  className?: string;
 }
 
-export default function ProviderSelect({ value, onChange }: Props) {
-  const options: AIProvider[] = ['codestral', 'chatgpt-oss', 'dkimi'];
+/** Tooltip for an entry: why it can't be picked, or what it offers and how fast it answered. */
+function describe(m: AIModel) {
+  if (!m.available) return m.reason ?? 'Unavailable';
+  const features = [m.supports.fim && 'fill-in-the-middle', m.supports.chat && 'chat', m.supports.streaming && 'streaming']
+    .filter(Boolean)
+    .join(', ');
+  const latency = m.health.status === 'ok' ? ` · answered in ${m.health.latencyMs} ms` : '';
+  return `${m.description}\n${features} · ${Math.round(m.contextWindow / 1024)}k context${latency}`;
+}
+
+export default function ProviderSelect({
+  value,
+  onChange,
+  className = 'bg-surface/30 text-gray-100 rounded px-2 py-1',
+}: Props) {
+  const { models, isLoading } = useModels();
+  const current = models.find((m) => m.id === value);
 
   return (
     <select
-      className="bg-surface/30 text-gray-100 rounded px-2 py-1"
+      className={className}
       value={value}
-      onChange={(e) => onChange(e.target.value as AIProvider)}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={isLoading}
+      title={current && !current.available ? `${current.name} is unavailable: ${describe(current)}` : undefined}
     >
-      {options.map((p) => (
-        <option key={p} value={p}>
-          {p === 'codestral'
-            ? 'Codestral (FIM)'
-            : p === 'chatgpt-oss'
-            ? 'ChatGPT‑OSS'
-            : 'dKimi'}
+      {/* Keep the current choice visible until the model list has loaded */}
+      {!current && <option value={value}>{value}</option>}
+      {models.map((m: AIModel) => (
+        <option key={m.id} value={m.id} title={describe(m)} disabled={!m.available && m.id !== value}>
+          {m.available ? m.name : `${m.name} – ${m.reason ?? 'unavailable'}`}
         </option>
       ))}
     </select>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { useReview, clearReview, revealFinding } from '@/hooks/useReview';
+import { ReviewFinding } from '@/types';
+
+const severityStyles: Record<ReviewFinding['severity'], string> = {
+  error: 'text-red-400',
+  warning: 'text-yellow-400',
+  info: 'text-blue-400',
+};
+
+/** Findings of the latest AI review; hidden until one is run from the Git panel. */
+export default function ReviewPanel() {
+  const review = useReview();
+  if (!review) return null;
+
+  const counts = review.findings.reduce((acc: Record<string, number>, f: ReviewFinding) => {
+    acc[f.severity] = (acc[f.severity] ?? 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return (
+    <div className="max-h-56 bg-overlay text-gray-200 p-2 flex flex-col border-t border-surface/30">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium">
+          🔍 Review{' '}
+          <span className="text-xs text-gray-400">
+            {review.scope === 'branch' ? `branch vs ${review.base}` : 'staged changes'}
+          </span>
+        </h4>
+        <div className="flex items-center gap-2 text-xs">
+          {!review.running && (
+            <>
+              <span className={severityStyles.error}>{counts.error ?? 0} errors</span>
+              <span className={severityStyles.warning}>{counts.warning ?? 0} warnings</span>
+              <span className={severityStyles.info}>{counts.info ?? 0} info</span>
+            </>
+          )}
+          <button onClick={clearReview} title="Close review">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {review.truncated && (
+        <p className="text-xs text-yellow-400 mb-1">The diff was too long to review in full.</p>
+      )}
+
+      <div className="flex-1 overflow-y-auto text-xs bg-black/20 rounded">
+        {review.running ? (
+          <p className="p-2 text-gray-400 animate-pulse">Reviewing changes…</p>
+        ) : review.findings.length === 0 ? (
+          <p className="p-2 text-gray-400">No findings – nothing for the model to flag.</p>
+        ) : (
+          <ul>
+            {review.findings.map((finding: ReviewFinding, i: number) => (
+              <li key={`${finding.file}:${finding.line}:${i}`}>
+                <button
+                  className="w-full text-left px-2 py-1 hover:bg-surface/40 flex gap-2"
+                  onClick={() => revealFinding(finding)}
+                  title="Go to location"
+                >
+                  <span className={`${severityStyles[finding.severity]} flex-shrink-0`}>●</span>
+                  <span className="text-primary flex-shrink-0">
+                    {finding.file}:{finding.line}
+                  </span>
+                  <span className="text-gray-300">{finding.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,82 +7,21 @@ import {
   KeyboardIcon,
   PaletteIcon,
   CheckIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ChartBarIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline';
-import { AIProvider } from '@/hooks/useAI';
+import { UsageTotals } from '@/types';
 import { useToast } from '@/hooks/useToast';
+import { useUsage } from '@/hooks/useUsage';
+import { UserSettings, defaultSettings, loadSettings, storeSettings } from '@/hooks/useSettings';
+import ProviderSelect from './ProviderSelect';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-interface UserSettings {
-  // AI Settings
-  defaultAIProvider: AIProvider;
-  aiTemperature: number;
-  aiMaxTokens: number;
-  aiAutoComplete: boolean;
-  aiTriggerOnType: boolean;
-  
-  // Git Settings
-  gitAutoCommit: boolean;
-  gitCommitMessageTemplate: string;
-  gitDefaultBranch: string;
-  gitAutoPush: boolean;
-  
-  // Editor Settings
-  fontSize: number;
-  tabSize: number;
-  autoSave: boolean;
-  autoSaveDelay: number;
-  showLineNumbers: boolean;
-  wordWrap: boolean;
-  minimap: boolean;
-  
-  // Keyboard Settings
-  enableHotkeys: boolean;
-  customShortcuts: Record<string, string>;
-  
-  // Theme Settings
-  theme: 'light' | 'dark' | 'pure-black';
-  sidebarWidth: number;
-  fontFamily: string;
-}
-
-const defaultSettings: UserSettings = {
-  // AI Settings
-  defaultAIProvider: 'codestral' as AIProvider,
-  aiTemperature: 0.7,
-  aiMaxTokens: 100,
-  aiAutoComplete: true,
-  aiTriggerOnType: true,
-  
-  // Git Settings
-  gitAutoCommit: false,
-  gitCommitMessageTemplate: 'feat: {description}',
-  gitDefaultBranch: 'main',
-  gitAutoPush: false,
-  
-  // Editor Settings
-  fontSize: 14,
-  tabSize: 2,
-  autoSave: true,
-  autoSaveDelay: 1000,
-  showLineNumbers: true,
-  wordWrap: true,
-  minimap: false,
-  
-  // Keyboard Settings
-  enableHotkeys: true,
-  customShortcuts: {},
-  
-  // Theme Settings
-  theme: 'pure-black',
-  sidebarWidth: 280,
-  fontFamily: 'JetBrains Mono'
-};
-
 interface SettingsSection {
   id: string;
   name: string;
@@ -103,6 +42,12 @@ const settingsSections: SettingsSection[] = [
     icon: SparklesIcon,
     description: 'Configure AI completion and chat'
   },
+  {
+    id: 'usage',
+    name: 'AI Usage',
+    icon: ChartBarIcon,
+    description: 'Requests, tokens and latency'
+  },
   {
     id: 'git',
     name: 'Git',
@@ -129,28 +74,61 @@ const settingsSections: SettingsSection[] = [
   }
 ];
 
+function UsageTable({ title, rows }: { title: string; rows: Record<string, UsageTotals> }) {
+  const entries = Object.entries(rows).sort(([, a], [, b]) => b.requests - a.requests);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-300 mb-3">{title}</h4>
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-400">No requests yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-400 text-left border-b border-surface/20">
+              <th className="py-1 font-normal">Name</th>
+              <th className="py-1 font-normal text-right">Requests</th>
+              <th className="py-1 font-normal text-right">Errors</th>
+              <th className="py-1 font-normal text-right">Prompt tok.</th>
+              <th className="py-1 font-normal text-right">Completion tok.</th>
+              <th className="py-1 font-normal text-right">Avg latency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([name, totals]) => (
+              <tr key={name} className="border-b border-surface/20">
+                <td className="py-1 truncate max-w-[10rem]" title={name}>{name}</td>
+                <td className="py-1 text-right">{totals.requests}</td>
+                <td className={`py-1 text-right ${totals.errors ? 'text-red-400' : ''}`}>{totals.errors}</td>
+                <td className="py-1 text-right">{totals.promptTokens.toLocaleString()}</td>
+                <td className="py-1 text-right">{totals.completionTokens.toLocaleString()}</td>
+                <td className="py-1 text-right">{totals.avgLatencyMs} ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const { success, error } = useToast();
   const [settings, setSettings] = useState<UserSettings>(defaultSettings);
   const [activeSection, setActiveSection] = useState('general');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const { usage, isLoading: isUsageLoading, refetch: refetchUsage } = useUsage(
+    isOpen && activeSection === 'usage'
+  );
 
   // Load settings from localStorage on mount
   useEffect(() => {
-    const savedSettings = localStorage.getItem('ai-ide-settings');
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings({ ...defaultSettings, ...parsed });
-      } catch (err) {
-        console.error('Failed to load settings:', err);
-      }
-    }
+    setSettings(loadSettings());
   }, []);
 
   // Save settings to localStorage
   const saveSettings = () => {
-    localStorage.setItem('ai-ide-settings', JSON.stringify(settings));
+    storeSettings(settings);
     setHasUnsavedChanges(false);
     success('Settings saved successfully');
   };
@@ -165,7 +143,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
   // Update setting and mark as changed
   const updateSetting = (key: keyof UserSettings, value: any) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
+    setSettings((prev: UserSettings) => ({ ...prev, [key]: value }));
     setHasUnsavedChanges(true);
   };
 
@@ -254,15 +232,11 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         <div className="space-y-3">
           <div>
             <label className="block text-sm mb-1">Default AI Provider</label>
-            <select 
+            <ProviderSelect
               className="w-full px-3 py-2 bg-surface border border-surface/30 rounded text-sm"
               value={settings.defaultAIProvider}
-              onChange={(e) => updateSetting('defaultAIProvider', e.target.value as AIProvider)}
-            >
-              <option value="codestral">Codestral (Recommended)</option>
-              <option value="chatgpt-oss">ChatGPT-OSS</option>
-              <option value="dkimi">dKimi (Korean)</option>
-            </select>
+              onChange={(p) => updateSetting('defaultAIProvider', p)}
+            />
           </div>
           
           <div className="grid grid-cols-2 gap-4">
@@ -308,10 +282,11 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             />
           </label>
           <label className="flex items-center justify-between">
-            <span className="text-sm">Trigger on type (Ctrl+Space)</span>
+            <span className="text-sm">Suggest while typing (otherwise on Ctrl+Space)</span>
             <input
               type="checkbox"
               className="rounded bg-surface border border-surface/30"
+              disabled={!settings.aiAutoComplete}
               checked={settings.aiTriggerOnType}
               onChange={(e) => updateSetting('aiTriggerOnType', e.target.checked)}
             />
@@ -321,6 +296,43 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     </div>
   );
 
+  const renderUsageSettings = () => {
+    if (isUsageLoading) return <p className="text-sm text-gray-400">Loading usage…</p>;
+    if (!usage) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-yellow-400">
+          <ExclamationTriangleIcon className="w-4 h-4" />
+          Usage statistics are unavailable
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between text-sm">
+          <div className="text-gray-400">
+            {usage.totals.requests} requests • {(usage.totals.promptTokens + usage.totals.completionTokens).toLocaleString()} tokens
+            since {new Date(usage.since).toLocaleString()}
+          </div>
+          <button
+            onClick={() => refetchUsage()}
+            className="p-1 hover:bg-surface/50 rounded transition-colors"
+            title="Refresh"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <UsageTable title="By provider" rows={usage.byProvider} />
+        <UsageTable title="By route" rows={usage.byRoute} />
+        <UsageTable title="By client" rows={usage.byClient} />
+        <p className="text-xs text-gray-400">
+          Token counts are reported by the provider where its API returns them, estimated otherwise.
+          Counters reset when the backend restarts.
+        </p>
+      </div>
+    );
+  };
+
   const renderGitSettings = () => (
     <div className="space-y-6">
       <div>
@@ -511,6 +523,18 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             <span>AI completion</span>
             <kbd className="bg-surface px-2 py-1 rounded text-xs">Ctrl+Space</kbd>
           </div>
+          <div className="flex justify-between py-1 border-b border-surface/20">
+            <span>Accept suggestion / next word</span>
+            <kbd className="bg-surface px-2 py-1 rounded text-xs">Tab / Ctrl+→</kbd>
+          </div>
+          <div className="flex justify-between py-1 border-b border-surface/20">
+            <span>Next / previous suggestion</span>
+            <kbd className="bg-surface px-2 py-1 rounded text-xs">Alt+] / Alt+[</kbd>
+          </div>
+          <div className="flex justify-between py-1 border-b border-surface/20">
+            <span>Dismiss suggestion</span>
+            <kbd className="bg-surface px-2 py-1 rounded text-xs">Esc</kbd>
+          </div>
           <div className="flex justify-between py-1 border-b border-surface/20">
             <span>Toggle comment</span>
             <kbd className="bg-surface px-2 py-1 rounded text-xs">Ctrl+/</kbd>
@@ -581,6 +605,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     switch (activeSection) {
       case 'general': return renderGeneralSettings();
       case 'ai': return renderAISettings();
+      case 'usage': return renderUsageSettings();
       case 'git': return renderGitSettings();
       case 'editor': return renderEditorSettings();
       case 'keyboard': return renderKeyboardSettings();
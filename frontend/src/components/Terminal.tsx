@@ -14,6 +14,33 @@ interface TerminalLine {
   content: string;
   timestamp: Date;
   command?: string;
+  /** Set on a command's input line once it has exited */
+  commandId?: string;
+  exitCode?: number;
+}
+
+/**
+ * The input lines of commands that exited non-zero or wrote to stderr,
+ * by the index of the last line of their output.
+ */
+function failedCommands(lines: TerminalLine[]): Map<number, TerminalLine> {
+  const failed = new Map<number, TerminalLine>();
+  let input: TerminalLine | undefined;
+  let wroteErrors = false;
+  const close = (end: number) => {
+    if (input?.commandId && (wroteErrors || (input.exitCode ?? 0) !== 0)) failed.set(end, input);
+  };
+  lines.forEach((line, index) => {
+    if (line.type === 'input') {
+      close(index - 1);
+      input = line;
+      wroteErrors = false;
+    } else if (line.type === 'error') {
+      wroteErrors = true;
+    }
+  });
+  close(lines.length - 1);
+  return failed;
 }
 
 export const Terminal: React.FC<TerminalProps> = ({
@@ -64,6 +91,16 @@ export const Terminal: React.FC<TerminalProps> = ({
     });
   }, [onMessage]);
 
+  // A command proposed by Chat's "Fix" – put in the prompt, not run
+  useEffect(() => {
+    const handleInput = (e: Event) => {
+      setCurrentBuffer((e as CustomEvent<string>).detail);
+      inputRef.current?.focus();
+    };
+    window.addEventListener('terminal-input', handleInput);
+    return () => window.removeEventListener('terminal-input', handleInput);
+  }, []);
+
   // Auto-scroll to bottom
   useEffect(() => {
     if (scrollRef.current) {
@@ -92,7 +129,18 @@ export const Terminal: React.FC<TerminalProps> = ({
   const handleTerminalMessage = (message: any) => {
     switch (message.type) {
       case 'output':
-        addLine('output', message.data);
+        addLine(message.stream === 'stderr' ? 'error' : 'output', message.data);
+        setIsProcessing(false);
+        break;
+        
+      case 'exit':
+        // Commands run one at a time, so this is the last one sent
+        setLines(prev => {
+          const index = prev.map(line => line.type).lastIndexOf('input');
+          if (index === -1) return prev;
+          const exited = { ...prev[index], commandId: message.commandId, exitCode: message.exitCode };
+          return [...prev.slice(0, index), exited, ...prev.slice(index + 1)];
+        });
         setIsProcessing(false);
         break;
         
@@ -251,6 +299,15 @@ Tips:
     }
   };
 
+  // Hands a failed command to Chat, which asks about it by id
+  const explainCommand = (line: TerminalLine, mode: 'explain' | 'fix') => {
+    window.dispatchEvent(new CustomEvent('explain-command', {
+      detail: { commandId: line.commandId, command: line.command, mode }
+    }));
+  };
+
+  const failed = failedCommands(lines);
+
   const getPrompt = () => {
     const user = 'user';
     const host = 'ai-ide';
@@ -301,19 +358,40 @@ Tips:
         onClick={handleTerminalClick}
       >
         {lines.map((line, index) => (
-          <div key={index} className={`terminal-line terminal-line-${line.type}`}>
-            {line.type === 'input' && (
-              <span className="terminal-prompt">
-                {getPrompt()}
-              </span>
+          <React.Fragment key={index}>
+            <div className={`terminal-line terminal-line-${line.type}`}>
+              {line.type === 'input' && (
+                <span className="terminal-prompt">
+                  {getPrompt()}
+                </span>
+              )}
+              <span 
+                className="terminal-content-text"
+                dangerouslySetInnerHTML={{ 
+                  __html: line.content.replace(/\n/g, '<br>') 
+                }}
+              />
+            </div>
+            
+            {failed.has(index) && (
+              <div className="terminal-explain">
+                <button
+                  onClick={() => explainCommand(failed.get(index)!, 'explain')}
+                  className="terminal-button"
+                  title="Ask the AI why this failed"
+                >
+                  Explain
+                </button>
+                <button
+                  onClick={() => explainCommand(failed.get(index)!, 'fix')}
+                  className="terminal-button"
+                  title="Ask the AI for a corrected command or file change"
+                >
+                  Fix
+                </button>
+              </div>
             )}
-            <span 
-              className="terminal-content-text"
-              dangerouslySetInnerHTML={{ 
-                __html: line.content.replace(/\n/g, '<br>') 
-              }}
-            />
-          </div>
+          </React.Fragment>
         ))}
         
         {isConnected && (
@@ -1,29 +1,252 @@
 import axios from 'axios';
 import { AIProvider } from '@/types';
-import { CompletionRequest, CompletionResponse, ChatRequest } from '@/types';
+import {
+  AgentRun,
+  ChatMessage,
+  CompletionRequest,
+  CompletionResponse,
+  ChatRequest,
+  ChatResponse,
+  CodeSource,
+  CommitMessageResponse,
+  ReviewResponse,
+  ReviewScope,
+  EditRequest,
+  EditResponse,
+  InlineEditRequest,
+  StreamChunk,
+  TerminalExplainRequest,
+  TerminalFix,
+} from '@/types';
 
 // Use environment variable for API URL, with fallback for development
 const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:4000';
 
+/**
+ * POSTs to one of the SSE endpoints and yields the text of every chunk
+ * until the server sends `[DONE]`. Error chunks are rethrown; chunks that
+ * carry no text (e.g. `sources`) go to `onChunk`.
+ */
+async function* readEventStream(
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+  onChunk?: (chunk: StreamChunk) => void
+): AsyncGenerator<string> {
+  const res = await fetch(`${apiUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    throw new Error(`Stream request failed with status ${res.status}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (!event.startsWith('data:')) continue;
+
+        const data = event.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as StreamChunk;
+        if (chunk.type === 'error') throw new Error(chunk.error || 'Stream error');
+        if (chunk.data) yield chunk.data;
+        else onChunk?.(chunk);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const requestCompletion = async (
+  payload: CompletionRequest,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+): Promise<CompletionResponse> => {
+  const res = await axios.post<CompletionResponse>(
+    `${apiUrl}/api/ai/completion`,
+    { ...payload, provider },
+    { signal }
+  );
+  return res.data;
+};
+
+const chat = async (payload: ChatRequest, provider: AIProvider = 'codestral'): Promise<string> => {
+  const res = await axios.post<ChatResponse>(`${apiUrl}/api/ai/chat`, {
+    ...payload,
+    provider,
+  });
+  return res.data.reply;
+};
+
+/**
+ * Yields completion tokens as they arrive from the provider. Aborting
+ * `signal` closes the connection, which also cancels the upstream call.
+ */
+const streamCompletion = (
+  payload: CompletionRequest,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+) =>
+  readEventStream(
+    `/api/ai/completion/stream?provider=${encodeURIComponent(provider)}`,
+    payload,
+    signal
+  );
+
+/**
+ * Yields chat reply tokens as they arrive from the provider. With
+ * `payload.codebase` the cited workspace excerpts arrive via `onSources`
+ * before the first token.
+ */
+const streamChat = (
+  payload: ChatRequest,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal,
+  onSources?: (sources: CodeSource[]) => void
+) =>
+  readEventStream(
+    `/api/ai/chat/stream?provider=${encodeURIComponent(provider)}`,
+    { ...payload, provider },
+    signal,
+    (chunk) => {
+      if (chunk.type === 'sources' && chunk.sources) onSources?.(chunk.sources);
+    }
+  );
+
+/** Asks for a change to a saved file; the answer is a diff to review, nothing is written. */
+const requestEdit = async (
+  payload: EditRequest,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+): Promise<EditResponse> => {
+  const res = await axios.post<EditResponse>(`${apiUrl}/api/ai/edit`, { ...payload, provider }, { signal });
+  return res.data;
+};
+
+/**
+ * Yields the rewritten code for a selection as it arrives, already taken
+ * out of the model's code fence. Nothing is written anywhere.
+ */
+const streamInlineEdit = (
+  payload: InlineEditRequest,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+) =>
+  readEventStream(
+    `/api/ai/edit/stream?provider=${encodeURIComponent(provider)}`,
+    payload,
+    signal
+  );
+
+/**
+ * Yields Chat's answer about a command the terminal ran. A `fix` answer
+ * may end with a proposed command or file change, passed to `onFix` –
+ * nothing is run or written.
+ */
+const explainTerminalCommand = (
+  payload: TerminalExplainRequest,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal,
+  onFix?: (fix: TerminalFix) => void
+) =>
+  readEventStream(
+    `/api/ai/terminal/explain/stream?provider=${encodeURIComponent(provider)}`,
+    { ...payload, provider },
+    signal,
+    (chunk) => {
+      if (chunk.type === 'fix' && chunk.fix) onFix?.(chunk.fix);
+    }
+  );
+
+/** A commit message for what is staged in `repoPath`, following `template`. */
+const suggestCommitMessage = async (
+  repoPath: string,
+  template: string,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+): Promise<CommitMessageResponse> => {
+  const res = await axios.post<CommitMessageResponse>(
+    `${apiUrl}/api/git/commit-message`,
+    { path: repoPath, template, provider },
+    { signal }
+  );
+  return res.data;
+};
+
+/** AI review of the staged diff, or of the current branch against `base`. */
+const reviewChanges = async (
+  repoPath: string,
+  scope: ReviewScope,
+  base: string,
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+): Promise<ReviewResponse> => {
+  const res = await axios.post<ReviewResponse>(
+    `${apiUrl}/api/git/review`,
+    { path: repoPath, scope, base, provider },
+    { signal }
+  );
+  return res.data;
+};
+
+/**
+ * Starts a tool-calling agent run. It comes back once the model has
+ * answered or wants to write a file / run a command (`awaiting_approval`).
+ */
+const startAgent = async (
+  messages: ChatMessage[],
+  provider: AIProvider = 'codestral',
+  signal?: AbortSignal
+): Promise<AgentRun> => {
+  const res = await axios.post<AgentRun>(`${apiUrl}/api/ai/agent`, { messages, provider }, { signal });
+  return res.data;
+};
+
+/** Approves or rejects the pending action of a run and lets the agent continue. */
+const resolveAgentAction = async (
+  runId: string,
+  approved: boolean,
+  signal?: AbortSignal
+): Promise<AgentRun> => {
+  const res = await axios.post<AgentRun>(
+    `${apiUrl}/api/ai/agent/${encodeURIComponent(runId)}/approval`,
+    { approved },
+    { signal }
+  );
+  return res.data;
+};
+
+const api = {
+  requestCompletion,
+  chat,
+  streamCompletion,
+  streamChat,
+  requestEdit,
+  streamInlineEdit,
+  explainTerminalCommand,
+  suggestCommitMessage,
+  reviewChanges,
+  startAgent,
+  resolveAgentAction,
+};
+
+/** The AI endpoints. Nothing here depends on component state, so the object is the same on every render. */
 export function useAI() {
-  const requestCompletion = async (
-    payload: CompletionRequest,
-    provider: AIProvider = 'codestral'
-  ): Promise<CompletionResponse> => {
-    const res = await axios.post<CompletionResponse>(`${apiUrl}/api/ai/completion`, {
-      ...payload,
-      provider,
-    });
-    return res.data;
-  };
-
-  const chat = async (payload: ChatRequest, provider: AIProvider = 'codestral'): Promise<string> => {
-    const res = await axios.post<{ reply: string }>(`${apiUrl}/api/ai/chat`, {
-      ...payload,
-      provider,
-    });
-    return res.data.reply;
-  };
-
-  return { requestCompletion, chat };
-}
\ No newline at end of file
+  return api;
+}
@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from 'react';
+
+/** What other panels may read from the focused editor tab. */
+export interface ActiveEditor {
+  path: string;
+  language: string;
+  /** Current text of the tab and of the selection ('' when nothing is selected) */
+  read: () => { content: string; selection: string };
+}
+
+let active: ActiveEditor | null = null;
+const listeners = new Set<() => void>();
+
+/** Called by the Editor whenever the visible tab changes; `null` when none is open. */
+export function setActiveEditor(editor: ActiveEditor | null) {
+  active = editor;
+  listeners.forEach((listener) => listener());
+}
+
+export function getActiveEditor() {
+  return active;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** The active editor tab, for components that render something about it. */
+export function useActiveEditor() {
+  return useSyncExternalStore(subscribe, getActiveEditor);
+}
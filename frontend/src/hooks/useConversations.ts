@@ -0,0 +1,51 @@
+import axios from 'axios';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Conversation, ConversationSummary } from '@/types';
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+
+/** Chat threads stored on the backend, with the calls that change them. */
+export function useConversations() {
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['ai-conversations'],
+    queryFn: async () => {
+      const res = await axios.get<{ conversations: ConversationSummary[] }>(`${apiUrl}/api/ai/conversations`);
+      return res.data.conversations;
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['ai-conversations'] });
+
+  const getConversation = async (id: string) => {
+    const res = await axios.get<Conversation>(`${apiUrl}/api/ai/conversations/${id}`);
+    return res.data;
+  };
+
+  const createConversation = async (title?: string) => {
+    const res = await axios.post<Conversation>(`${apiUrl}/api/ai/conversations`, { title });
+    refresh();
+    return res.data;
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    await axios.patch(`${apiUrl}/api/ai/conversations/${id}`, { title });
+    refresh();
+  };
+
+  const deleteConversation = async (id: string) => {
+    await axios.delete(`${apiUrl}/api/ai/conversations/${id}`);
+    refresh();
+  };
+
+  return {
+    conversations: data ?? [],
+    isLoading,
+    error,
+    refresh,
+    getConversation,
+    createConversation,
+    renameConversation,
+    deleteConversation,
+  };
+}
@@ -0,0 +1,20 @@
+import axios from 'axios';
+import { useQuery } from '@tanstack/react-query';
+import { ModelsResponse } from '@/types';
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+
+/** Models registered on the backend, refreshed every minute so health and availability stay current. */
+export function useModels() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['ai-models'],
+    queryFn: async () => {
+      const res = await axios.get<ModelsResponse>(`${apiUrl}/api/ai/models`);
+      return res.data.models;
+    },
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+  });
+
+  return { models: data ?? [], isLoading, error };
+}
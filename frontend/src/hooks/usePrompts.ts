@@ -0,0 +1,20 @@
+import axios from 'axios';
+import { useQuery } from '@tanstack/react-query';
+import { PromptTemplate } from '@/types';
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+
+/** Chat slash commands – built-ins plus the workspace's `.aiide/prompts/*.md`. */
+export function usePrompts() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['ai-prompts'],
+    queryFn: async () => {
+      const res = await axios.get<{ prompts: PromptTemplate[] }>(`${apiUrl}/api/ai/prompts`);
+      return res.data.prompts;
+    },
+    // Teams edit templates while the IDE is open
+    staleTime: 30_000,
+  });
+
+  return { prompts: data ?? [], isLoading, error };
+}
@@ -0,0 +1,53 @@
+import { useSyncExternalStore } from 'react';
+import { ReviewFinding, ReviewResponse, ReviewScope } from '@/types';
+
+/** The latest AI review, shared by the Git panel, the Review panel and the editor gutter. */
+export interface ReviewState {
+  scope: ReviewScope;
+  base?: string;
+  running: boolean;
+  findings: ReviewFinding[];
+  truncated: boolean;
+}
+
+let review: ReviewState | null = null;
+const listeners = new Set<() => void>();
+
+function publish(next: ReviewState | null) {
+  review = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function startedReview(scope: ReviewScope, base?: string) {
+  publish({ scope, base, running: true, findings: [], truncated: false });
+}
+
+export function finishedReview(result: ReviewResponse) {
+  publish({
+    scope: result.scope,
+    base: result.base,
+    running: false,
+    findings: result.findings,
+    truncated: result.truncated,
+  });
+}
+
+/** Closes the Review panel and removes the gutter markers. */
+export function clearReview() {
+  publish(null);
+}
+
+/** Opens the finding's file and moves the cursor to its line. */
+export function revealFinding(finding: ReviewFinding) {
+  window.dispatchEvent(new CustomEvent('select-file', { detail: finding.file }));
+  window.dispatchEvent(new CustomEvent('reveal-line', { detail: { path: finding.file, line: finding.line } }));
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function useReview() {
+  return useSyncExternalStore(subscribe, () => review);
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { AIProvider } from '@/types';
+
+export interface UserSettings {
+  // AI Settings
+  defaultAIProvider: AIProvider;
+  aiTemperature: number;
+  aiMaxTokens: number;
+  aiAutoComplete: boolean;
+  aiTriggerOnType: boolean;
+
+  // Git Settings
+  gitAutoCommit: boolean;
+  gitCommitMessageTemplate: string;
+  gitDefaultBranch: string;
+  gitAutoPush: boolean;
+
+  // Editor Settings
+  fontSize: number;
+  tabSize: number;
+  autoSave: boolean;
+  autoSaveDelay: number;
+  showLineNumbers: boolean;
+  wordWrap: boolean;
+  minimap: boolean;
+
+  // Keyboard Settings
+  enableHotkeys: boolean;
+  customShortcuts: Record<string, string>;
+
+  // Theme Settings
+  theme: 'light' | 'dark' | 'pure-black';
+  sidebarWidth: number;
+  fontFamily: string;
+}
+
+export const defaultSettings: UserSettings = {
+  // AI Settings
+  defaultAIProvider: 'codestral' as AIProvider,
+  aiTemperature: 0.7,
+  aiMaxTokens: 100,
+  aiAutoComplete: true,
+  aiTriggerOnType: true,
+
+  // Git Settings
+  gitAutoCommit: false,
+  gitCommitMessageTemplate: 'feat: {description}',
+  gitDefaultBranch: 'main',
+  gitAutoPush: false,
+
+  // Editor Settings
+  fontSize: 14,
+  tabSize: 2,
+  autoSave: true,
+  autoSaveDelay: 1000,
+  showLineNumbers: true,
+  wordWrap: true,
+  minimap: false,
+
+  // Keyboard Settings
+  enableHotkeys: true,
+  customShortcuts: {},
+
+  // Theme Settings
+  theme: 'pure-black',
+  sidebarWidth: 280,
+  fontFamily: 'JetBrains Mono'
+};
+
+const STORAGE_KEY = 'ai-ide-settings';
+
+/** Saved settings merged over the defaults. */
+export function loadSettings(): UserSettings {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return defaultSettings;
+  try {
+    return { ...defaultSettings, ...JSON.parse(saved) };
+  } catch (err) {
+    console.error('Failed to load settings:', err);
+    return defaultSettings;
+  }
+}
+
+/** Persists `settings` and tells every `useSettings` consumer. */
+export function storeSettings(settings: UserSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new CustomEvent('settings-changed'));
+}
+
+/** The saved settings, updated whenever the settings modal saves. */
+export function useSettings() {
+  const [settings, setSettings] = useState<UserSettings>(loadSettings);
+
+  useEffect(() => {
+    const reload = () => setSettings(loadSettings());
+    window.addEventListener('settings-changed', reload);
+    return () => window.removeEventListener('settings-changed', reload);
+  }, []);
+
+  return settings;
+}
@@ -0,0 +1,20 @@
+import axios from 'axios';
+import { useQuery } from '@tanstack/react-query';
+import { UsageSnapshot } from '@/types';
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+
+/** AI usage counters from the backend, refreshed while `enabled`. */
+export function useUsage(enabled = true) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['ai-usage'],
+    queryFn: async () => {
+      const res = await axios.get<UsageSnapshot>(`${apiUrl}/api/ai/usage`);
+      return res.data;
+    },
+    enabled,
+    refetchInterval: enabled ? 10_000 : false,
+  });
+
+  return { usage: data, isLoading, error, refetch };
+}
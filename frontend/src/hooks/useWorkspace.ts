@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import axios from 'axios';
 import { FileNode } from '@/types';
 
@@ -52,7 +52,15 @@ export function useWorkspace() {
     await deleteFile(oldPath);
   }, [loadFile]);
 
-  const selectFile = (path: string) => setCurrentFile(path);
+  // Every component has its own copy of this hook; the `select-file` event keeps them in step
+  const selectFile = (path: string) =>
+    window.dispatchEvent(new CustomEvent('select-file', { detail: path }));
+
+  useEffect(() => {
+    const handleSelect = (e: Event) => setCurrentFile((e as CustomEvent<string>).detail);
+    window.addEventListener('select-file', handleSelect);
+    return () => window.removeEventListener('select-file', handleSelect);
+  }, []);
 
   const getFileStats = useCallback(async (path: string) => {
     const response = await axios.get(`${apiUrl}/api/workspace/file`, { 
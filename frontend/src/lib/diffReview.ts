@@ -0,0 +1,201 @@
+import { EditorState, Facet, RangeSetBuilder, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+import { DiffHunk } from '@/types';
+
+/** A hunk under review, reduced to the lines it actually changes. */
+interface PendingChange {
+  id: number;
+  /** Start of the first replaced line */
+  from: number;
+  /** Start of the line after the last replaced one (== from for pure insertions) */
+  to: number;
+  added: string[];
+}
+
+export interface DiffReviewOptions {
+  /** Called after a hunk was accepted or rejected, with how many are still pending */
+  onResolve?: (view: EditorView, accepted: boolean, remaining: number) => void;
+}
+
+const reviewOptions = Facet.define<DiffReviewOptions, DiffReviewOptions>({
+  combine: (values) => values[0] ?? {},
+});
+
+const setReview = StateEffect.define<PendingChange[]>();
+const resolveChange = StateEffect.define<number>();
+
+const reviewField = StateField.define<PendingChange[]>({
+  create: () => [],
+  update(changes, tr) {
+    let next = tr.docChanged
+      ? changes.map((c) => ({
+          ...c,
+          from: tr.changes.mapPos(c.from, -1),
+          to: tr.changes.mapPos(c.to, c.to === c.from ? -1 : 1),
+        }))
+      : changes;
+    for (const effect of tr.effects) {
+      if (effect.is(setReview)) next = effect.value;
+      if (effect.is(resolveChange)) next = next.filter((c) => c.id !== effect.value);
+    }
+    return next;
+  },
+});
+
+/**
+ * Positions of the changed lines of `hunk` in `doc`. Context lines at either
+ * end are dropped so accepting one hunk never rewrites lines it shares
+ * with its neighbour.
+ */
+function toPendingChange(doc: Text, hunk: DiffHunk, id: number): PendingChange {
+  let first = 0;
+  while (first < hunk.lines.length && hunk.lines[first][0] === ' ') first++;
+  let last = hunk.lines.length - 1;
+  while (last > first && hunk.lines[last][0] === ' ') last--;
+  const changed = hunk.lines.slice(first, last + 1);
+
+  const startLine = (hunk.oldLines ? hunk.oldStart : hunk.oldStart + 1) + first;
+  const removed = changed.filter((l: string) => l[0] !== '+').length;
+  const lineStart = (n: number) => (n <= doc.lines ? doc.line(n).from : doc.length);
+  const from = lineStart(startLine);
+  // The last line of a file without a trailing newline ends at doc.length
+  const to = removed ? Math.min(lineStart(startLine + removed), doc.length) : from;
+  return { id, from, to, added: changed.filter((l: string) => l[0] !== '-').map((l: string) => l.slice(1)) };
+}
+
+class ProposedLinesWidget extends WidgetType {
+  constructor(private change: PendingChange) {
+    super();
+  }
+
+  eq(other: ProposedLinesWidget) {
+    return other.change.id === this.change.id && other.change.added.join('\n') === this.change.added.join('\n');
+  }
+
+  toDOM(view: EditorView) {
+    const wrap = document.createElement('div');
+    wrap.className = 'cm-diff-proposal';
+
+    if (this.change.added.length) {
+      const pre = document.createElement('pre');
+      pre.className = 'cm-diff-added';
+      pre.textContent = this.change.added.join('\n');
+      wrap.appendChild(pre);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'cm-diff-actions';
+    const button = (label: string, accepted: boolean) => {
+      const el = document.createElement('button');
+      el.textContent = label;
+      el.className = accepted ? 'cm-diff-accept' : 'cm-diff-reject';
+      el.onmousedown = (e) => e.preventDefault();
+      el.onclick = () => (accepted ? acceptChange : rejectChange)(view, this.change.id);
+      return el;
+    };
+    actions.append(button('Accept', true), button('Reject', false));
+    wrap.appendChild(actions);
+    return wrap;
+  }
+
+  ignoreEvent() {
+    return true;
+  }
+}
+
+function buildDecorations(state: EditorState): DecorationSet {
+  const { doc } = state;
+  const builder = new RangeSetBuilder<Decoration>();
+  const removedLine = Decoration.line({ class: 'cm-diff-removed' });
+  const changes = [...state.field(reviewField)].sort((a, b) => a.from - b.from);
+
+  for (const change of changes) {
+    if (change.to > change.from) {
+      const lastLine = doc.lineAt(Math.max(change.from, change.to - 1));
+      for (let pos = change.from; pos <= lastLine.from; ) {
+        const line = doc.lineAt(pos);
+        builder.add(line.from, line.from, removedLine);
+        pos = line.to + 1;
+      }
+      builder.add(lastLine.to, lastLine.to, Decoration.widget({
+        widget: new ProposedLinesWidget(change),
+        block: true,
+        side: 1,
+      }));
+    } else {
+      builder.add(change.from, change.from, Decoration.widget({
+        widget: new ProposedLinesWidget(change),
+        block: true,
+        side: -1,
+      }));
+    }
+  }
+  return builder.finish();
+}
+
+const reviewTheme = EditorView.baseTheme({
+  '.cm-diff-removed': { backgroundColor: 'rgba(239, 68, 68, 0.15)', textDecoration: 'line-through' },
+  '.cm-diff-proposal': { borderLeft: '2px solid rgb(34, 197, 94)', margin: '2px 0' },
+  '.cm-diff-added': { backgroundColor: 'rgba(34, 197, 94, 0.15)', margin: 0, padding: '0 4px', font: 'inherit' },
+  '.cm-diff-actions': { display: 'flex', gap: '6px', padding: '2px 4px', fontSize: '12px' },
+  '.cm-diff-accept': { color: 'rgb(74, 222, 128)', cursor: 'pointer' },
+  '.cm-diff-reject': { color: 'rgb(248, 113, 113)', cursor: 'pointer' },
+});
+
+/**
+ * Shows proposed hunks inline: replaced lines struck through, new lines in
+ * a block under them, each with Accept / Reject. The document only changes
+ * when a hunk is accepted.
+ */
+export function diffReview(options: DiffReviewOptions = {}) {
+  return [
+    reviewOptions.of(options),
+    reviewField,
+    EditorView.decorations.compute([reviewField], buildDecorations),
+    reviewTheme,
+  ];
+}
+
+/** Starts reviewing `hunks`, which must be a diff against the current document. */
+export function startReview(view: EditorView, hunks: DiffHunk[]) {
+  const changes = hunks.map((hunk, i) => toPendingChange(view.state.doc, hunk, i));
+  view.dispatch({ effects: setReview.of(changes) });
+}
+
+export function pendingReviewCount(state: EditorState) {
+  return state.field(reviewField, false)?.length ?? 0;
+}
+
+function acceptChange(view: EditorView, id: number) {
+  const change = view.state.field(reviewField).find((c) => c.id === id);
+  if (!change) return;
+
+  const { doc } = view.state;
+  let from = change.from;
+  let insert = change.added.map((line) => `${line}\n`).join('');
+  // Keep a missing final newline missing
+  if (doc.length && change.to === doc.length && !doc.sliceString(doc.length - 1).endsWith('\n')) {
+    if (!insert && from > 0) from--;
+    else insert = from === doc.length ? `\n${insert.slice(0, -1)}` : insert.slice(0, -1);
+  }
+  view.dispatch({
+    changes: { from, to: change.to, insert },
+    effects: resolveChange.of(id),
+    userEvent: 'input.ai-edit',
+  });
+  view.state.facet(reviewOptions).onResolve?.(view, true, pendingReviewCount(view.state));
+}
+
+function rejectChange(view: EditorView, id: number) {
+  view.dispatch({ effects: resolveChange.of(id) });
+  view.state.facet(reviewOptions).onResolve?.(view, false, pendingReviewCount(view.state));
+}
+
+/** Accepts (or rejects) every pending hunk, bottom first so positions stay valid. */
+export function resolveAll(view: EditorView, accepted: boolean) {
+  const ids = [...view.state.field(reviewField)].sort((a, b) => b.from - a.from).map((c) => c.id);
+  for (const id of ids) {
+    if (accepted) acceptChange(view, id);
+    else rejectChange(view, id);
+  }
+}
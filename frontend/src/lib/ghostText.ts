@@ -0,0 +1,274 @@
+import { EditorState, Facet, Prec, StateEffect, StateField, Transaction } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType, keymap } from '@codemirror/view';
+
+export interface GhostTextOptions {
+  /**
+   * Up to `count` suggestions for the cursor at `pos`, best first; `signal`
+   * aborts once the user types on or moves away
+   */
+  suggest: (state: EditorState, pos: number, signal: AbortSignal, count: number) => Promise<string[]>;
+  /** Suggestions asked for once the user cycles through them (default 3); typing asks for one */
+  cycleCount?: number;
+  /** Whether typing asks for suggestions by itself – read on every edit, so settings apply at once */
+  triggerOnType: () => boolean;
+  /** Pause in typing before asking (default 300 ms) */
+  debounceMs?: number;
+  onError?: (err: Error) => void;
+}
+
+/** Suggestions shown after `pos`; `index` is the one on screen. */
+interface Ghost {
+  pos: number;
+  candidates: string[];
+  index: number;
+  /** Whether there is nothing more to ask for – several came back, or cycling already asked */
+  complete: boolean;
+}
+
+const DEFAULT_DEBOUNCE_MS = 300;
+const DEFAULT_CYCLE_COUNT = 3;
+
+/** Leading whitespace (newlines included) and then one word or one run of punctuation. */
+const NEXT_WORD = /^\s*(?:[\w$]+|[^\w\s]+)|^\s+/;
+
+const ghostOptions = Facet.define<GhostTextOptions, GhostTextOptions | null>({
+  combine: (values) => values[0] ?? null,
+});
+
+const setGhost = StateEffect.define<Ghost | null>();
+
+/**
+ * Keeps the suggestions the user is typing along with, less what they
+ * typed. Any other edit dismisses them.
+ */
+function typedAhead(ghost: Ghost, tr: Transaction): Ghost | null {
+  const inserted: { from: number; to: number; text: string }[] = [];
+  tr.changes.iterChanges((from, to, _fromB, _toB, text) => inserted.push({ from, to, text: text.toString() }));
+  if (inserted.length !== 1 || inserted[0].from !== ghost.pos || inserted[0].to !== ghost.pos) return null;
+
+  const typed = inserted[0].text;
+  const pos = ghost.pos + typed.length;
+  if (tr.state.selection.main.head !== pos) return null;
+
+  const current = ghost.candidates[ghost.index];
+  const candidates = ghost.candidates.filter((c) => c.length > typed.length && c.startsWith(typed));
+  if (!candidates.length) return null;
+  return {
+    pos,
+    candidates: candidates.map((c) => c.slice(typed.length)),
+    index: Math.max(candidates.indexOf(current), 0),
+    complete: ghost.complete,
+  };
+}
+
+const ghostField = StateField.define<Ghost | null>({
+  create: () => null,
+  update(ghost, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setGhost)) return effect.value;
+    }
+    if (!ghost) return null;
+    if (tr.docChanged) return typedAhead(ghost, tr);
+    if (tr.selection && tr.state.selection.main.head !== ghost.pos) return null;
+    return ghost;
+  },
+});
+
+class GhostWidget extends WidgetType {
+  constructor(
+    readonly text: string,
+    readonly position: string
+  ) {
+    super();
+  }
+
+  eq(other: GhostWidget) {
+    return other.text === this.text && other.position === this.position;
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = 'cm-ghost-text';
+    el.textContent = this.text;
+    if (this.position) {
+      const count = document.createElement('span');
+      count.className = 'cm-ghost-count';
+      count.textContent = this.position;
+      el.appendChild(count);
+    }
+    return el;
+  }
+}
+
+function buildDecorations(state: EditorState): DecorationSet {
+  const ghost = state.field(ghostField);
+  if (!ghost) return Decoration.none;
+  const { candidates, index } = ghost;
+  const position = candidates.length > 1 ? `${index + 1}/${candidates.length}` : '';
+  return Decoration.set([
+    Decoration.widget({ widget: new GhostWidget(candidates[index], position), side: 1 }).range(ghost.pos),
+  ]);
+}
+
+/**
+ * Asks for suggestions once typing pauses. Typing on, moving the cursor or
+ * closing the editor aborts the request in flight.
+ */
+class GhostFetcher {
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+
+  constructor(private view: EditorView) {}
+
+  update(update: ViewUpdate) {
+    if (!update.docChanged && !update.selectionSet) return;
+    this.cancel();
+    const options = update.state.facet(ghostOptions);
+    const typed = update.transactions.some((tr) => tr.isUserEvent('input.type') || tr.isUserEvent('delete'));
+    if (!typed || !options?.triggerOnType()) return;
+    // Typing along with a suggestion keeps it; no need to ask again
+    if (update.state.field(ghostField) || !update.state.selection.main.empty) return;
+    this.timer = setTimeout(() => this.request(), options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  /**
+   * Asks for `count` suggestions. Ones for the suggestion on screen are added
+   * after it, and `step` moves from it to the next (1) or previous (-1).
+   */
+  async request(count = 1, step = 0) {
+    const options = this.view.state.facet(ghostOptions);
+    if (!options) return;
+    this.cancel();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const { state } = this.view;
+    const pos = state.selection.main.head;
+    try {
+      const candidates = (await options.suggest(state, pos, controller.signal, count)).filter((c) => c.trim());
+      if (controller.signal.aborted || !candidates.length) return;
+      const shown = this.view.state.field(ghostField);
+      let ghost: Ghost = { pos, candidates, index: 0, complete: count > 1 || candidates.length > 1 };
+      if (shown?.pos === pos) {
+        const current = shown.candidates[shown.index];
+        const all = [current, ...candidates.filter((c) => c !== current)];
+        ghost = { pos, candidates: all, index: (step + all.length) % all.length, complete: true };
+      }
+      this.view.dispatch({ effects: setGhost.of(ghost) });
+    } catch (err) {
+      if (!controller.signal.aborted) options.onError?.(err as Error);
+    } finally {
+      if (this.controller === controller) this.controller = undefined;
+    }
+  }
+
+  cancel() {
+    clearTimeout(this.timer);
+    this.controller?.abort();
+    this.controller = undefined;
+  }
+
+  destroy() {
+    this.cancel();
+  }
+}
+
+const ghostFetcher = ViewPlugin.fromClass(GhostFetcher);
+
+/** Asks for a suggestion at the cursor now, whether or not typing would have. */
+export function requestGhostText(view: EditorView) {
+  view.plugin(ghostFetcher)?.request();
+  return true;
+}
+
+function cycleCount(view: EditorView) {
+  return view.state.facet(ghostOptions)?.cycleCount ?? DEFAULT_CYCLE_COUNT;
+}
+
+/** Inserts `text` of the suggestion on screen, and shows `rest` of it after that. */
+function accept(view: EditorView, ghost: Ghost, text: string, rest: string) {
+  const pos = ghost.pos + text.length;
+  view.dispatch({
+    changes: { from: ghost.pos, insert: text },
+    selection: { anchor: pos },
+    effects: setGhost.of(rest ? { pos, candidates: [rest], index: 0, complete: false } : null),
+    userEvent: 'input.complete',
+  });
+  return true;
+}
+
+/** Tab – takes the whole suggestion. */
+export function acceptGhostText(view: EditorView) {
+  const ghost = view.state.field(ghostField, false);
+  if (!ghost) return false;
+  return accept(view, ghost, ghost.candidates[ghost.index], '');
+}
+
+/** Ctrl-→ – takes the suggestion up to the end of its next word. */
+export function acceptGhostWord(view: EditorView) {
+  const ghost = view.state.field(ghostField, false);
+  if (!ghost) return false;
+  const text = ghost.candidates[ghost.index];
+  const word = text.match(NEXT_WORD)?.[0] ?? text;
+  return accept(view, ghost, word, text.slice(word.length));
+}
+
+/** Escape – hides the suggestion without touching the document. */
+export function dismissGhostText(view: EditorView) {
+  if (!view.state.field(ghostField, false)) return false;
+  view.dispatch({ effects: setGhost.of(null) });
+  return true;
+}
+
+/**
+ * Alt-] / Alt-[ – shows the next (or previous) suggestion, wrapping at
+ * either end. Typing asks for one suggestion, so the first cycle asks for
+ * the others; with none on screen, it asks for them all.
+ */
+export function cycleGhostText(forward: boolean) {
+  return (view: EditorView) => {
+    const ghost = view.state.field(ghostField, false);
+    const fetcher = view.plugin(ghostFetcher);
+    if (!ghost) {
+      fetcher?.request(cycleCount(view));
+      return true;
+    }
+    if (!ghost.complete) {
+      fetcher?.request(cycleCount(view), forward ? 1 : -1);
+      return true;
+    }
+    const n = ghost.candidates.length;
+    view.dispatch({ effects: setGhost.of({ ...ghost, index: (ghost.index + (forward ? 1 : n - 1)) % n }) });
+    return true;
+  };
+}
+
+const ghostTheme = EditorView.baseTheme({
+  '.cm-ghost-text': { color: 'rgb(107, 114, 128)', whiteSpace: 'pre', pointerEvents: 'none' },
+  '.cm-ghost-count': { marginLeft: '8px', fontSize: '11px', opacity: 0.7 },
+});
+
+/**
+ * Copilot‑style inline suggestions: grey text after the cursor that is not
+ * part of the document until accepted with Tab, or word by word with
+ * Ctrl-→. Escape, an unrelated edit or moving the cursor dismisses it.
+ */
+export function ghostText(options: GhostTextOptions) {
+  return [
+    ghostOptions.of(options),
+    ghostField,
+    ghostFetcher,
+    EditorView.decorations.compute([ghostField], buildDecorations),
+    // Ahead of indentWithTab and the default Escape handling
+    Prec.highest(
+      keymap.of([
+        { key: 'Tab', run: acceptGhostText },
+        { key: 'Ctrl-ArrowRight', mac: 'Cmd-ArrowRight', run: acceptGhostWord },
+        { key: 'Escape', run: dismissGhostText },
+        { key: 'Alt-]', run: cycleGhostText(true) },
+        { key: 'Alt-[', run: cycleGhostText(false) },
+      ])
+    ),
+    ghostTheme,
+  ];
+}
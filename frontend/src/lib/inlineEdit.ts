@@ -0,0 +1,174 @@
+import { EditorState, Facet, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+import { isolateHistory } from '@codemirror/commands';
+
+/** The range being rewritten and the new code for it so far. */
+interface InlineEditPreview {
+  from: number;
+  to: number;
+  text: string;
+  /** Whether the stream has ended, so the rewrite can be accepted */
+  done: boolean;
+}
+
+export interface InlineEditOptions {
+  /** Called after the preview was accepted or rejected, from the editor or from its buttons */
+  onResolve?: (view: EditorView, accepted: boolean) => void;
+}
+
+const inlineEditOptions = Facet.define<InlineEditOptions, InlineEditOptions>({
+  combine: (values) => values[0] ?? {},
+});
+
+const setPreview = StateEffect.define<InlineEditPreview | null>();
+const appendPreview = StateEffect.define<string>();
+
+const previewField = StateField.define<InlineEditPreview | null>({
+  create: () => null,
+  update(preview, tr) {
+    // An edit inside the range makes the rewrite meaningless; elsewhere it just moves it
+    if (preview && tr.docChanged) {
+      preview = tr.changes.touchesRange(preview.from, preview.to)
+        ? null
+        : { ...preview, from: tr.changes.mapPos(preview.from, 1), to: tr.changes.mapPos(preview.to, -1) };
+    }
+    for (const effect of tr.effects) {
+      if (effect.is(setPreview)) preview = effect.value;
+      if (effect.is(appendPreview) && preview) preview = { ...preview, text: preview.text + effect.value };
+    }
+    return preview;
+  },
+});
+
+class RewriteWidget extends WidgetType {
+  constructor(
+    readonly text: string,
+    readonly done: boolean
+  ) {
+    super();
+  }
+
+  eq(other: RewriteWidget) {
+    return other.text === this.text && other.done === this.done;
+  }
+
+  toDOM(view: EditorView) {
+    const wrap = document.createElement('div');
+    wrap.className = 'cm-inline-edit';
+
+    const pre = document.createElement('pre');
+    pre.className = 'cm-inline-edit-new';
+    pre.textContent = this.text || ' ';
+    wrap.appendChild(pre);
+
+    const actions = document.createElement('div');
+    actions.className = 'cm-inline-edit-actions';
+    if (this.done) {
+      const button = (label: string, accepted: boolean) => {
+        const el = document.createElement('button');
+        el.textContent = label;
+        el.className = accepted ? 'cm-inline-edit-accept' : 'cm-inline-edit-reject';
+        el.onmousedown = (e) => e.preventDefault();
+        el.onclick = () => (accepted ? acceptInlineEdit : rejectInlineEdit)(view);
+        return el;
+      };
+      actions.append(button('Accept', true), button('Reject', false));
+    } else {
+      actions.textContent = 'Generating…';
+    }
+    wrap.appendChild(actions);
+    return wrap;
+  }
+
+  ignoreEvent() {
+    return true;
+  }
+}
+
+function buildDecorations(state: EditorState): DecorationSet {
+  const preview = state.field(previewField);
+  if (!preview) return Decoration.none;
+  const widget = Decoration.widget({
+    widget: new RewriteWidget(preview.text, preview.done),
+    block: true,
+    side: 1,
+  });
+  const ranges = [widget.range(state.doc.lineAt(preview.to).to)];
+  if (preview.to > preview.from) {
+    ranges.unshift(Decoration.mark({ class: 'cm-inline-edit-old' }).range(preview.from, preview.to));
+  }
+  return Decoration.set(ranges);
+}
+
+const inlineEditTheme = EditorView.baseTheme({
+  '.cm-inline-edit-old': { backgroundColor: 'rgba(239, 68, 68, 0.15)', textDecoration: 'line-through' },
+  '.cm-inline-edit': { borderLeft: '2px solid rgb(34, 197, 94)', margin: '2px 0' },
+  '.cm-inline-edit-new': { backgroundColor: 'rgba(34, 197, 94, 0.15)', margin: 0, padding: '0 4px', font: 'inherit' },
+  '.cm-inline-edit-actions': { display: 'flex', gap: '6px', padding: '2px 4px', fontSize: '12px', color: 'rgb(156, 163, 175)' },
+  '.cm-inline-edit-accept': { color: 'rgb(74, 222, 128)', cursor: 'pointer' },
+  '.cm-inline-edit-reject': { color: 'rgb(248, 113, 113)', cursor: 'pointer' },
+});
+
+/**
+ * Previews an AI rewrite of a range: the old code struck through, the new
+ * code growing in a block under it as it streams in. The document only
+ * changes when the rewrite is accepted, in one transaction that a single
+ * undo takes back.
+ */
+export function inlineEdit(options: InlineEditOptions = {}) {
+  return [
+    inlineEditOptions.of(options),
+    previewField,
+    EditorView.decorations.compute([previewField], buildDecorations),
+    inlineEditTheme,
+  ];
+}
+
+/** Starts previewing a rewrite of `from`–`to`, replacing any preview already shown. */
+export function startInlineEdit(view: EditorView, from: number, to: number) {
+  view.dispatch({ effects: setPreview.of({ from, to, text: '', done: false }) });
+}
+
+/** Adds streamed code to the preview; ignored once the preview is gone. */
+export function appendInlineEdit(view: EditorView, text: string) {
+  if (view.state.field(previewField, false)) view.dispatch({ effects: appendPreview.of(text) });
+}
+
+/**
+ * Marks the stream as ended. Models end code blocks with a newline, which
+ * is dropped again when the original range didn't end with one.
+ */
+export function finishInlineEdit(view: EditorView) {
+  const preview = view.state.field(previewField, false);
+  if (!preview) return;
+  const original = view.state.sliceDoc(preview.from, preview.to);
+  const text = preview.text.endsWith('\n') && !original.endsWith('\n') ? preview.text.slice(0, -1) : preview.text;
+  view.dispatch({ effects: setPreview.of({ ...preview, text, done: true }) });
+}
+
+/** The preview on screen, if any, and whether it can be accepted yet. */
+export function inlineEditStatus(state: EditorState): 'none' | 'streaming' | 'ready' {
+  const preview = state.field(previewField, false);
+  return !preview ? 'none' : preview.done ? 'ready' : 'streaming';
+}
+
+export function acceptInlineEdit(view: EditorView) {
+  const preview = view.state.field(previewField, false);
+  if (!preview?.done) return false;
+  view.dispatch({
+    changes: { from: preview.from, to: preview.to, insert: preview.text },
+    selection: { anchor: preview.from, head: preview.from + preview.text.length },
+    effects: setPreview.of(null),
+    annotations: isolateHistory.of('full'),
+    userEvent: 'input.ai-edit',
+  });
+  view.state.facet(inlineEditOptions).onResolve?.(view, true);
+  return true;
+}
+
+export function rejectInlineEdit(view: EditorView) {
+  if (!view.state.field(previewField, false)) return false;
+  view.dispatch({ effects: setPreview.of(null) });
+  view.state.facet(inlineEditOptions).onResolve?.(view, false);
+  return true;
+}
@@ -0,0 +1,80 @@
+import { RangeSet, RangeSetBuilder, StateEffect, StateField, Text } from '@codemirror/state';
+import { EditorView, GutterMarker, gutter } from '@codemirror/view';
+import { ReviewFinding } from '@/types';
+
+const SEVERITY_RANK: Record<ReviewFinding['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+/** A dot in the gutter for the worst finding on a line; hovering lists all of them. */
+class FindingMarker extends GutterMarker {
+  constructor(
+    readonly severity: ReviewFinding['severity'],
+    readonly messages: string[]
+  ) {
+    super();
+  }
+
+  eq(other: FindingMarker) {
+    return other.severity === this.severity && other.messages.join('\n') === this.messages.join('\n');
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = `cm-review-marker cm-review-${this.severity}`;
+    el.textContent = '●';
+    el.title = this.messages.join('\n');
+    return el;
+  }
+}
+
+const setFindings = StateEffect.define<ReviewFinding[]>();
+
+function buildMarkers(doc: Text, findings: ReviewFinding[]): RangeSet<FindingMarker> {
+  const byLine = new Map<number, ReviewFinding[]>();
+  for (const finding of findings) {
+    if (finding.line > doc.lines) continue;
+    byLine.set(finding.line, [...(byLine.get(finding.line) ?? []), finding]);
+  }
+
+  const builder = new RangeSetBuilder<FindingMarker>();
+  for (const line of [...byLine.keys()].sort((a, b) => a - b)) {
+    const onLine = byLine.get(line)!.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    const from = doc.line(line).from;
+    builder.add(from, from, new FindingMarker(
+      onLine[0].severity,
+      onLine.map((f) => `${f.severity}: ${f.message}`)
+    ));
+  }
+  return builder.finish();
+}
+
+const markerField = StateField.define<RangeSet<FindingMarker>>({
+  create: () => RangeSet.empty,
+  update(markers, tr) {
+    let next = markers.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (effect.is(setFindings)) next = buildMarkers(tr.state.doc, effect.value);
+    }
+    return next;
+  },
+});
+
+const markerTheme = EditorView.baseTheme({
+  '.cm-review-gutter .cm-gutterElement': { padding: '0 2px', cursor: 'default' },
+  '.cm-review-error': { color: 'rgb(248, 113, 113)' },
+  '.cm-review-warning': { color: 'rgb(250, 204, 21)' },
+  '.cm-review-info': { color: 'rgb(96, 165, 250)' },
+});
+
+/** Gutter markers for AI review findings; markers follow their line as the document is edited. */
+export function reviewMarkers() {
+  return [
+    markerField,
+    gutter({ class: 'cm-review-gutter', markers: (view) => view.state.field(markerField) }),
+    markerTheme,
+  ];
+}
+
+/** Replaces the markers with `findings`, which must all belong to the document in `view`. */
+export function showReviewFindings(view: EditorView, findings: ReviewFinding[]) {
+  view.dispatch({ effects: setFindings.of(findings) });
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, waitFor, act, fireEvent, screen } from '@testing-library/react';
+import { EditorView } from '@codemirror/view';
+import Editor from '../components/Editor';
+import { acceptGhostWord } from '../lib/ghostText';
+
+const { post, loadFile, saveFile } = vi.hoisted(() => ({
+  post: vi.fn(),
+  loadFile: vi.fn(async () => 'const x = '),
+  saveFile: vi.fn(async () => {}),
+}));
+
+// The real useAI, so a hook that changes on every render would rebuild the editor here too
+vi.mock('axios', () => ({ default: { post } }));
+
+vi.mock('@/hooks/useWorkspace', () => {
+  const workspace = { currentFile: 'src/app.ts', loadFile, saveFile };
+  return { useWorkspace: () => workspace };
+});
+
+vi.mock('@/hooks/useSettings', () => {
+  const settings = { aiAutoComplete: true, aiTriggerOnType: true };
+  return { useSettings: () => settings };
+});
+
+/** The editor's CodeMirror view once the file has loaded into it. */
+async function openEditor(text = 'const x = ') {
+  const { container } = render(<Editor />);
+  let view: EditorView | null = null;
+  await waitFor(() => {
+    const content = container.querySelector('.cm-content');
+    view = content && EditorView.findFromDOM(content as HTMLElement);
+    expect(view?.state.doc.toString()).toBe(text);
+  });
+  return { container, view: view! };
+}
+
+/** Types `text` at the cursor the way a keystroke does. */
+function type(view: EditorView, text: string) {
+  const pos = view.state.selection.main.head;
+  act(() => {
+    view.dispatch({
+      changes: { from: pos, insert: text },
+      selection: { anchor: pos + text.length },
+      userEvent: 'input.type',
+    });
+  });
+}
+
+describe('Editor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    post.mockResolvedValue({ data: { completion: 'compute(1);', candidates: ['compute(1);'] } });
+  });
+
+  it('should show ghost text after typing pauses, in the same view', async () => {
+    const { container, view } = await openEditor();
+    act(() => view.dispatch({ selection: { anchor: view.state.doc.length } }));
+
+    type(view, 'a');
+    type(view, ' ');
+
+    await waitFor(() => expect(container.querySelector('.cm-ghost-text')?.textContent).toBe('compute(1);'));
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][1]).toMatchObject({ prefix: 'const x = a ', path: 'src/app.ts', n: 1 });
+    // Typing re-rendered the component without replacing the editor
+    expect(EditorView.findFromDOM(container.querySelector('.cm-content') as HTMLElement)).toBe(view);
+    expect(view.state.doc.toString()).toBe('const x = a ');
+    expect(loadFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the rest of a suggestion after accepting a word of it', async () => {
+    const { container, view } = await openEditor();
+    act(() => view.dispatch({ selection: { anchor: view.state.doc.length } }));
+    type(view, 'a');
+    await waitFor(() => expect(container.querySelector('.cm-ghost-text')).not.toBeNull());
+
+    act(() => {
+      acceptGhostWord(view);
+    });
+
+    expect(view.state.doc.toString()).toBe('const x = acompute');
+    expect(container.querySelector('.cm-ghost-text')?.textContent).toBe('(1);');
+  });
+
+  it('should save the file once after accepting every proposed hunk', async () => {
+    const before = 'a\nb\nc\nd\ne\nf\ng\nh\n';
+    loadFile.mockResolvedValueOnce(before);
+    post.mockImplementation(async (url: string) =>
+      url.endsWith('/api/ai/edit')
+        ? {
+            data: {
+              hunks: [
+                { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-a', '+A'] },
+                { oldStart: 4, oldLines: 1, newStart: 4, newLines: 2, lines: ['-d', '+D', '+d2'] },
+                { oldStart: 8, oldLines: 1, newStart: 9, newLines: 1, lines: ['-h', '+H'] },
+              ],
+            },
+          }
+        : { data: { completion: '' } }
+    );
+    const { view } = await openEditor(before);
+
+    fireEvent.click(screen.getByText('AI Edit'));
+    fireEvent.change(screen.getByPlaceholderText(/Describe the change/), { target: { value: 'capitalize' } });
+    fireEvent.click(screen.getByText('Propose'));
+    await screen.findByText('3 proposed changes to review');
+
+    fireEvent.click(screen.getByText('Accept all'));
+
+    const after = 'A\nb\nc\nD\nd2\ne\nf\ng\nH\n';
+    expect(view.state.doc.toString()).toBe(after);
+    await waitFor(() => expect(screen.queryByText('● Unsaved')).toBeNull());
+    expect(saveFile).toHaveBeenCalledTimes(1);
+    expect(saveFile).toHaveBeenCalledWith('src/app.ts', after);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import {
+  acceptGhostText,
+  acceptGhostWord,
+  cycleGhostText,
+  dismissGhostText,
+  ghostText,
+  requestGhostText,
+} from '../lib/ghostText';
+
+const views: EditorView[] = [];
+
+/** An editor with `doc` and the cursor at its end, suggesting `candidates` when asked. */
+async function editorWithGhost(doc: string, candidates: string[]) {
+  const suggest = vi.fn(async (..._args: unknown[]) => candidates);
+  const view = new EditorView({
+    state: EditorState.create({
+      doc,
+      selection: { anchor: doc.length },
+      extensions: ghostText({ suggest, triggerOnType: () => false }),
+    }),
+    parent: document.body,
+  });
+  views.push(view);
+  requestGhostText(view);
+  await vi.waitFor(() => expect(ghostOf(view)).not.toBeNull());
+  return { view, suggest };
+}
+
+const ghostOf = (view: EditorView) => view.dom.querySelector('.cm-ghost-text');
+
+afterEach(() => {
+  views.splice(0).forEach((view) => view.destroy());
+});
+
+describe('ghostText', () => {
+  it('should show a suggestion without changing the document', async () => {
+    const { view } = await editorWithGhost('const x = ', ['compute(1);']);
+    expect(ghostOf(view)?.textContent).toBe('compute(1);');
+    expect(view.state.doc.toString()).toBe('const x = ');
+  });
+
+  it('should insert the whole suggestion on accept', async () => {
+    const { view } = await editorWithGhost('const x = ', ['compute(1);']);
+    expect(acceptGhostText(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe('const x = compute(1);');
+    expect(view.state.selection.main.head).toBe(view.state.doc.length);
+    expect(ghostOf(view)).toBeNull();
+  });
+
+  it('should accept word by word and keep showing the rest', async () => {
+    const { view } = await editorWithGhost('return ', ['items.map(fn)']);
+    acceptGhostWord(view);
+    expect(view.state.doc.toString()).toBe('return items');
+    expect(ghostOf(view)?.textContent).toBe('.map(fn)');
+    acceptGhostWord(view);
+    acceptGhostWord(view);
+    expect(view.state.doc.toString()).toBe('return items.map');
+  });
+
+  it('should dismiss on Escape and on unrelated edits, but not when typing along', async () => {
+    const { view } = await editorWithGhost('let a = ', ['foo + bar']);
+    view.dispatch({ changes: { from: 8, insert: 'fo' }, selection: { anchor: 10 }, userEvent: 'input.type' });
+    expect(ghostOf(view)?.textContent).toBe('o + bar');
+
+    view.dispatch({ changes: { from: 10, insert: 'x' }, selection: { anchor: 11 }, userEvent: 'input.type' });
+    expect(ghostOf(view)).toBeNull();
+    expect(dismissGhostText(view)).toBe(false);
+
+    requestGhostText(view);
+    await vi.waitFor(() => expect(ghostOf(view)).not.toBeNull());
+    expect(dismissGhostText(view)).toBe(true);
+    expect(ghostOf(view)).toBeNull();
+  });
+
+  it('should cycle through the candidates', async () => {
+    const { view } = await editorWithGhost('x = ', ['1', '2', '3']);
+    cycleGhostText(false)(view);
+    expect(ghostOf(view)?.textContent).toBe('33/3');
+    cycleGhostText(true)(view);
+    expect(ghostOf(view)?.textContent).toBe('11/3');
+  });
+
+  it('should ask for one suggestion, and for the others only when cycling', async () => {
+    const { view, suggest } = await editorWithGhost('x = ', ['1']);
+    expect(suggest).toHaveBeenLastCalledWith(expect.anything(), 4, expect.anything(), 1);
+    expect(ghostOf(view)?.textContent).toBe('1');
+
+    suggest.mockResolvedValue(['2', '1', '3']);
+    cycleGhostText(true)(view);
+    await vi.waitFor(() => expect(ghostOf(view)?.textContent).toBe('22/3'));
+    expect(suggest).toHaveBeenLastCalledWith(expect.anything(), 4, expect.anything(), 3);
+
+    cycleGhostText(true)(view);
+    expect(ghostOf(view)?.textContent).toBe('33/3');
+    expect(suggest).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { history, undo } from '@codemirror/commands';
+import {
+  acceptInlineEdit,
+  appendInlineEdit,
+  finishInlineEdit,
+  inlineEdit,
+  inlineEditStatus,
+  rejectInlineEdit,
+  startInlineEdit,
+} from '../lib/inlineEdit';
+
+const views: EditorView[] = [];
+
+function editor(doc: string, onResolve = vi.fn()) {
+  const view = new EditorView({
+    state: EditorState.create({ doc, extensions: [history(), inlineEdit({ onResolve })] }),
+    parent: document.body,
+  });
+  views.push(view);
+  return { view, onResolve };
+}
+
+/** Previews the rewrite of `from`–`to` streamed in as `tokens`. */
+function preview(view: EditorView, from: number, to: number, ...tokens: string[]) {
+  startInlineEdit(view, from, to);
+  tokens.forEach((token) => appendInlineEdit(view, token));
+  finishInlineEdit(view);
+}
+
+afterEach(() => {
+  views.splice(0).forEach((view) => view.destroy());
+});
+
+describe('inlineEdit', () => {
+  const doc = 'load().then(run);\nnext();';
+
+  it('should stream the rewrite into a preview without touching the document', () => {
+    const { view } = editor(doc);
+    startInlineEdit(view, 0, 17);
+    appendInlineEdit(view, 'await load();');
+    expect(inlineEditStatus(view.state)).toBe('streaming');
+    expect(acceptInlineEdit(view)).toBe(false);
+    expect(view.dom.querySelector('.cm-inline-edit-new')?.textContent).toBe('await load();');
+    expect(view.state.doc.toString()).toBe(doc);
+  });
+
+  it('should apply the rewrite as one transaction that one undo takes back', () => {
+    const { view, onResolve } = editor(doc);
+    preview(view, 0, 17, 'await load();\n', 'run();\n');
+    expect(inlineEditStatus(view.state)).toBe('ready');
+
+    expect(acceptInlineEdit(view)).toBe(true);
+    // The selection didn't end in a newline, so the model's last one is dropped
+    expect(view.state.doc.toString()).toBe('await load();\nrun();\nnext();');
+    expect(onResolve).toHaveBeenCalledWith(view, true);
+
+    undo(view);
+    expect(view.state.doc.toString()).toBe(doc);
+  });
+
+  it('should leave the document alone when rejected', () => {
+    const { view, onResolve } = editor(doc);
+    preview(view, 0, 17, 'x();');
+    expect(rejectInlineEdit(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe(doc);
+    expect(inlineEditStatus(view.state)).toBe('none');
+    expect(onResolve).toHaveBeenCalledWith(view, false);
+  });
+
+  it('should follow edits elsewhere and drop the preview on edits inside it', () => {
+    const { view } = editor(doc);
+    preview(view, 18, 25, 'done();');
+    view.dispatch({ changes: { from: 0, insert: '// start\n' } });
+    acceptInlineEdit(view);
+    expect(view.state.doc.toString()).toBe('// start\nload().then(run);\ndone();');
+
+    preview(view, 0, 8, '// begin');
+    view.dispatch({ changes: { from: 3, insert: 'x' } });
+    expect(inlineEditStatus(view.state)).toBe('none');
+  });
+});
@@ -1,29 +1,42 @@
-export type AIProvider = 'codestral' | 'chatgpt-oss' | 'dkimi';
-
-export interface CompletionRequest {
-  prefix: string;
-  suffix?: string;
-  language: string;
-  maxTokens?: number;
-}
-
-export interface CompletionResponse {
-  completion: string;
-}
-
-export interface ChatMessage {
-  role: 'system' | 'assistant' | 'user';
-  content: string;
-}
-
-export interface ChatRequest {
-  messages: ChatMessage[];
-  temperature?: number;
-  model?: string;
-}
-
-export interface FileNode {
-  name: string;
-  type: 'file' | 'directory';
-  children?: FileNode[];
-}
\ No newline at end of file
+/**
+ * Wire types come from the shared API contract, so a change on either side
+ * of a request shows up as a type error on the other. Type-only imports keep
+ * zod out of the bundle.
+ */
+export type {
+  AIProvider,
+  AIModel,
+  ModelsResponse,
+  ProviderHealth,
+  CompletionRequest,
+  CompletionResponse,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  Conversation,
+  ConversationSummary,
+  PromptRequest,
+  PromptTemplate,
+  CodeSource,
+  DiffHunk,
+  EditRequest,
+  EditResponse,
+  InlineEditRequest,
+  TerminalExplainRequest,
+  TerminalFix,
+  CommitMessageResponse,
+  ReviewScope,
+  ReviewFinding,
+  ReviewResponse,
+  AgentToolName,
+  AgentStep,
+  AgentRun,
+  StreamChunk,
+  UsageTotals,
+  UsageSnapshot,
+  FileNode,
+  GitStatus,
+  SocketResult,
+  ServerToClientEvents,
+  ClientToServerEvents,
+} from '@ai-ide/shared';
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { providerChoiceSchema } from './ai';
+
+/* -----------------------------------------------------------------
+   Tool-calling agent – /api/ai/agent
+   ----------------------------------------------------------------- */
+
+export const agentToolNameSchema = z.enum(['read_file', 'list_tree', 'search', 'write_file', 'run_command']);
+export type AgentToolName = z.infer<typeof agentToolNameSchema>;
+
+/**
+ * One entry of an agent transcript: either something the model said, or a
+ * tool call together with what came of it. `write_file` and `run_command`
+ * wait in `pending` until the user approves or rejects them.
+ */
+export const agentStepSchema = z.object({
+  id: z.string(),
+  type: z.enum(['message', 'tool']),
+  content: z.string().optional(),
+  tool: agentToolNameSchema.optional(),
+  args: z.record(z.unknown()).optional(),
+  status: z.enum(['pending', 'approved', 'rejected', 'done', 'error']).optional(),
+  output: z.string().optional(),
+});
+export type AgentStep = z.infer<typeof agentStepSchema>;
+
+export const agentRunSchema = z.object({
+  id: z.string(),
+  provider: z.string(),
+  status: z.enum(['running', 'awaiting_approval', 'done', 'error']),
+  steps: z.array(agentStepSchema),
+  error: z.string().optional(),
+});
+export type AgentRun = z.infer<typeof agentRunSchema>;
+
+// POST /api/ai/agent
+export const agentStartSchema = providerChoiceSchema.extend({
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string().min(1),
+      })
+    )
+    .min(1, 'At least one message required'),
+});
+export type AgentStartRequest = z.input<typeof agentStartSchema>;
+
+// POST /api/ai/agent/:id/approval
+export const agentApprovalSchema = z.object({
+  approved: z.boolean(),
+});
+export type AgentApprovalRequest = z.input<typeof agentApprovalSchema>;
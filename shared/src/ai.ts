@@ -0,0 +1,331 @@
+import { z } from 'zod';
+
+/** Provider id as registered on the backend – see GET /api/ai/models */
+export const providerIdSchema = z.string().min(1);
+export type AIProvider = z.infer<typeof providerIdSchema>;
+
+/**
+ * Which provider answers a request: `model`, else `provider`. Routes also
+ * take `?provider=` or an `X-AI-Provider` header.
+ */
+export const providerChoiceSchema = z.object({
+  model: providerIdSchema.optional(),
+  provider: providerIdSchema.optional(),
+});
+
+/**
+ * What had to be left out for a prompt to fit the answering model's context
+ * window. Token counts are what was cut; fields are absent when nothing was.
+ */
+export const truncationSchema = z.object({
+  contextWindow: z.number(),
+  /** Prompt tokens allowed once room for the reply is set aside */
+  budget: z.number(),
+  /** Prompt tokens actually sent */
+  promptTokens: z.number(),
+  /** Cut from the start of the prefix */
+  prefixTokens: z.number().optional(),
+  /** Cut from the end of the suffix */
+  suffixTokens: z.number().optional(),
+  /** Repository context left out */
+  contextTokens: z.number().optional(),
+  /** Older chat turns left out */
+  droppedMessages: z.number().optional(),
+  /** Whether a short summary of the dropped turns was sent in their place */
+  summarized: z.boolean().optional(),
+  /** Messages shortened in the middle because they did not fit even on their own */
+  clippedMessages: z.number().optional(),
+});
+export type Truncation = z.infer<typeof truncationSchema>;
+
+/* -----------------------------------------------------------------
+   Completion – POST /api/ai/completion, POST /api/ai/completion/stream
+   ----------------------------------------------------------------- */
+
+export const completionRequestSchema = providerChoiceSchema.extend({
+  /** Code before the cursor */
+  prefix: z.string(),
+  /** Code after the cursor */
+  suffix: z.string().optional(),
+  language: z.string().optional(),
+  maxTokens: z.number().min(1).max(4000).optional().default(100),
+  temperature: z.number().min(0).max(2).optional().default(0.7),
+  context: z.string().optional(),
+  /** Workspace-relative path of the edited file, used to gather repository context */
+  path: z.string().optional(),
+  /** Paths of the other open tabs */
+  openFiles: z.array(z.string()).max(50).optional(),
+  /** How many distinct suggestions to ask for; streaming always yields one */
+  n: z.number().int().min(1).max(10).optional(),
+});
+export type CompletionRequest = z.input<typeof completionRequestSchema>;
+
+export const completionResponseSchema = z.object({
+  text: z.string(),
+  completion: z.string().optional(),
+  /** Distinct suggestions, best first; `text` is the first of them */
+  candidates: z.array(z.string()).optional(),
+  tokens: z.number().optional(),
+  model: z.string().optional(),
+  provider: z.string().optional(),
+  truncation: truncationSchema.optional(),
+});
+export type CompletionResponse = z.infer<typeof completionResponseSchema>;
+
+/* -----------------------------------------------------------------
+   Chat – POST /api/ai/chat, POST /api/ai/chat/stream
+   ----------------------------------------------------------------- */
+
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string().min(1),
+});
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+/** Slash command; the server renders its template in place of the last user message */
+export const promptRequestSchema = z.object({
+  name: z.string().min(1),
+  input: z.string().optional(),
+  code: z.string().optional(),
+  path: z.string().optional(),
+  language: z.string().optional(),
+});
+export type PromptRequest = z.infer<typeof promptRequestSchema>;
+
+export const chatRequestSchema = providerChoiceSchema.extend({
+  messages: z.array(chatMessageSchema).min(1, 'At least one message required'),
+  maxTokens: z.number().min(1).max(4000).optional().default(1000),
+  temperature: z.number().min(0).max(2).optional().default(0.7),
+  /** Ground the answer in workspace code and cite it */
+  codebase: z.boolean().optional().default(false),
+  prompt: promptRequestSchema.optional(),
+  /** Stored thread to continue: its history is sent along and the exchange appended */
+  conversationId: z.string().optional(),
+});
+export type ChatRequest = z.input<typeof chatRequestSchema>;
+
+/** A workspace excerpt an answer was grounded in. */
+export const codeSourceSchema = z.object({
+  path: z.string(),
+  startLine: z.number(),
+  endLine: z.number(),
+  score: z.number(),
+});
+export type CodeSource = z.infer<typeof codeSourceSchema>;
+
+export const chatResponseSchema = z.object({
+  reply: z.string(),
+  tokens: z.number().optional(),
+  model: z.string().optional(),
+  provider: z.string().optional(),
+  sources: z.array(codeSourceSchema).optional(),
+  truncation: truncationSchema.optional(),
+});
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+
+/** One Server-Sent Event of the streaming routes; the stream ends with `data: [DONE]`. */
+export const streamChunkSchema = z.object({
+  type: z.enum(['completion', 'chat', 'edit', 'sources', 'truncation', 'fix', 'error', 'done']),
+  data: z.string().optional(),
+  error: z.string().optional(),
+  token: z.string().optional(),
+  sources: z.array(codeSourceSchema).optional(),
+  /** Sent before the first token when the prompt had to be cut */
+  truncation: truncationSchema.optional(),
+  /** Sent after the last token of a terminal `fix` answer that proposes one (defined further down) */
+  fix: z.lazy(() => terminalFixSchema).optional(),
+});
+export type StreamChunk = z.infer<typeof streamChunkSchema>;
+
+/* -----------------------------------------------------------------
+   Edit – POST /api/ai/edit
+   ----------------------------------------------------------------- */
+
+export const editRequestSchema = providerChoiceSchema.extend({
+  path: z.string().min(1, 'File path is required'),
+  instruction: z.string().min(1, 'Instruction is required'),
+  /** 1-based, inclusive; without it the whole file may change */
+  selection: z
+    .object({
+      startLine: z.number().int().min(1),
+      endLine: z.number().int().min(1),
+    })
+    .refine((s) => s.endLine >= s.startLine, 'endLine must not be before startLine')
+    .optional(),
+});
+export type EditRequest = z.input<typeof editRequestSchema>;
+
+/** One hunk of a unified diff; `lines` keep their ' ', '-' or '+' prefix. */
+export const diffHunkSchema = z.object({
+  oldStart: z.number(),
+  oldLines: z.number(),
+  newStart: z.number(),
+  newLines: z.number(),
+  lines: z.array(z.string()),
+});
+export type DiffHunk = z.infer<typeof diffHunkSchema>;
+
+/** A proposed change to one file, for the user to review hunk by hunk. */
+export const editResponseSchema = z.object({
+  path: z.string(),
+  /** The same change as `hunks`, as unified diff text */
+  diff: z.string(),
+  hunks: z.array(diffHunkSchema),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+});
+export type EditResponse = z.infer<typeof editResponseSchema>;
+
+/* -----------------------------------------------------------------
+   Inline edit – POST /api/ai/edit/stream
+   ----------------------------------------------------------------- */
+
+/** A rewrite of code the user selected in the editor, streamed back as `edit` chunks of the new code. */
+export const inlineEditRequestSchema = providerChoiceSchema.extend({
+  instruction: z.string().min(1, 'Instruction is required'),
+  /** The selected code, exactly as in the editor – unsaved changes included */
+  code: z.string(),
+  /** Lines just above and below the selection, for reference */
+  before: z.string().optional(),
+  after: z.string().optional(),
+  language: z.string().optional(),
+  path: z.string().optional(),
+});
+export type InlineEditRequest = z.input<typeof inlineEditRequestSchema>;
+
+/* -----------------------------------------------------------------
+   Terminal – POST /api/ai/terminal/explain/stream
+   ----------------------------------------------------------------- */
+
+/** Asks Chat about a command the terminal ran; the server has its output and working directory. */
+export const terminalExplainRequestSchema = providerChoiceSchema.extend({
+  /** As sent in the terminal's `exit` message */
+  commandId: z.string().min(1, 'Command id is required'),
+  /** `fix` also asks for a corrected command or a file edit */
+  mode: z.enum(['explain', 'fix']).optional().default('explain'),
+  /** Stored thread the exchange is appended to */
+  conversationId: z.string().optional(),
+});
+export type TerminalExplainRequest = z.input<typeof terminalExplainRequestSchema>;
+
+/** What a `fix` answer proposes – a command to run instead, a change to a file, or both. */
+export const terminalFixSchema = z.object({
+  command: z.string().optional(),
+  edit: editResponseSchema.optional(),
+});
+export type TerminalFix = z.infer<typeof terminalFixSchema>;
+
+/* -----------------------------------------------------------------
+   Codebase search – POST /api/ai/search, GET /api/ai/index
+   ----------------------------------------------------------------- */
+
+export const searchRequestSchema = z.object({
+  query: z.string().min(1, 'Query is required'),
+  limit: z.number().int().min(1).max(50).optional().default(10),
+});
+export type SearchRequest = z.input<typeof searchRequestSchema>;
+
+export const codeSearchHitSchema = codeSourceSchema.extend({
+  text: z.string(),
+});
+export type CodeSearchHit = z.infer<typeof codeSearchHitSchema>;
+
+export const searchResponseSchema = z.object({
+  hits: z.array(codeSearchHitSchema),
+});
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+
+export const codebaseIndexStatusSchema = z.object({
+  embedder: z.string(),
+  ready: z.boolean(),
+  files: z.number(),
+  chunks: z.number(),
+});
+export type CodebaseIndexStatus = z.infer<typeof codebaseIndexStatusSchema>;
+
+/* -----------------------------------------------------------------
+   Models, prompts, cache and usage – the GET routes under /api/ai
+   ----------------------------------------------------------------- */
+
+/** Last health probe of a provider; `unknown` until one has run. */
+export const providerHealthSchema = z.object({
+  status: z.enum(['ok', 'error', 'unknown']),
+  latencyMs: z.number().optional(),
+  checkedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+export type ProviderHealth = z.infer<typeof providerHealthSchema>;
+
+export const aiModelSchema = z.object({
+  id: providerIdSchema,
+  name: z.string(),
+  provider: z.string(),
+  description: z.string(),
+  capabilities: z.array(z.string()),
+  /** Tokens the model accepts, prompt and reply together */
+  contextWindow: z.number(),
+  supports: z.object({
+    /** Completions use the code after the cursor natively */
+    fim: z.boolean(),
+    chat: z.boolean(),
+    streaming: z.boolean(),
+  }),
+  /** Its API key or endpoint is set */
+  configured: z.boolean(),
+  /** Configured, allowed by ALLOWED_PROVIDERS and not failing its health check */
+  available: z.boolean(),
+  /** Why it isn't available */
+  reason: z.string().optional(),
+  health: providerHealthSchema,
+});
+export type AIModel = z.infer<typeof aiModelSchema>;
+
+export const modelsResponseSchema = z.object({
+  models: z.array(aiModelSchema),
+});
+export type ModelsResponse = z.infer<typeof modelsResponseSchema>;
+
+/** A Chat slash command, e.g. `/explain`. */
+export const promptTemplateSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  source: z.enum(['builtin', 'workspace']),
+  /** Whether the template injects the active editor tab's code */
+  usesCode: z.boolean(),
+});
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+export const promptsResponseSchema = z.object({
+  prompts: z.array(promptTemplateSchema),
+});
+export type PromptsResponse = z.infer<typeof promptsResponseSchema>;
+
+export const cacheStatsSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  evictions: z.number(),
+  size: z.number(),
+  maxEntries: z.number(),
+  ttlMs: z.number(),
+  hitRate: z.number(),
+});
+export type CacheStats = z.infer<typeof cacheStatsSchema>;
+
+export const usageTotalsSchema = z.object({
+  requests: z.number(),
+  errors: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalLatencyMs: z.number(),
+  avgLatencyMs: z.number(),
+});
+export type UsageTotals = z.infer<typeof usageTotalsSchema>;
+
+export const usageSnapshotSchema = z.object({
+  since: z.string(),
+  totals: usageTotalsSchema,
+  byProvider: z.record(usageTotalsSchema),
+  byRoute: z.record(usageTotalsSchema),
+  byClient: z.record(usageTotalsSchema),
+});
+export type UsageSnapshot = z.infer<typeof usageSnapshotSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { chatMessageSchema } from './ai';
+
+/* -----------------------------------------------------------------
+   Stored chat threads – /api/ai/conversations
+   ----------------------------------------------------------------- */
+
+/** A chat thread stored on the server. */
+export const conversationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messages: z.array(chatMessageSchema),
+});
+export type Conversation = z.infer<typeof conversationSchema>;
+
+export const conversationSummarySchema = conversationSchema
+  .omit({ messages: true })
+  .extend({ messageCount: z.number() });
+export type ConversationSummary = z.infer<typeof conversationSummarySchema>;
+
+export const conversationListResponseSchema = z.object({
+  conversations: z.array(conversationSummarySchema),
+});
+export type ConversationListResponse = z.infer<typeof conversationListResponseSchema>;
+
+// POST /api/ai/conversations
+export const createConversationSchema = z.object({
+  title: z.string().max(200).optional(),
+  messages: z.array(chatMessageSchema).optional(),
+});
+export type CreateConversationRequest = z.input<typeof createConversationSchema>;
+
+// PATCH /api/ai/conversations/:id
+export const renameConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+});
+export type RenameConversationRequest = z.input<typeof renameConversationSchema>;
+
+// POST /api/ai/conversations/:id/messages
+export const appendMessagesSchema = z.object({
+  messages: z.array(chatMessageSchema).min(1, 'At least one message required'),
+});
+export type AppendMessagesRequest = z.input<typeof appendMessagesSchema>;
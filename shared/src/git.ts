@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { providerChoiceSchema } from './ai';
+
+/* -----------------------------------------------------------------
+   Git – /api/git. Every body and query names the repository in `path`.
+   ----------------------------------------------------------------- */
+
+const repoPath = z.string().min(1, 'Repository path is required');
+
+/** A branch, tag or revision; never starts with `-`, so git can't read it as an option. */
+const gitRef = z.string().regex(/^(?!-)[\w./~^-]+$/, 'Not a valid git ref');
+
+/** Query strings only carry text, so `?staged=true` has to be read as a flag. */
+const queryFlag = z.preprocess((v) => v === true || v === 'true' || v === '1', z.boolean());
+
+// POST /api/git/init, GET /api/git/status, GET /api/git/branches
+export const repoSchema = z.object({
+  path: repoPath,
+});
+export type RepoRequest = z.input<typeof repoSchema>;
+
+export const gitFileStatusSchema = z.object({
+  index: z.string(),
+  working_dir: z.string(),
+  path: z.string(),
+});
+
+export const gitStatusSchema = z.object({
+  status: z.enum(['clean', 'dirty']),
+  ahead: z.number(),
+  behind: z.number(),
+  staged: z.array(z.string()),
+  modified: z.array(z.string()),
+  not_added: z.array(z.string()),
+  deleted: z.array(z.string()),
+  renamed: z.array(z.string()),
+  files: z.array(gitFileStatusSchema),
+});
+export type GitStatus = z.infer<typeof gitStatusSchema>;
+
+export const gitStatusResponseSchema = gitStatusSchema.extend({
+  success: z.literal(true),
+});
+export type GitStatusResponse = z.infer<typeof gitStatusResponseSchema>;
+
+// POST /api/git/commit
+export const commitSchema = z.object({
+  path: repoPath,
+  message: z.string().min(1, 'Commit message is required'),
+  /** Files to stage first; without them everything is added */
+  files: z.array(z.string()).optional(),
+  /** Commit the index as it is – nothing is added, so the commit is exactly the staged diff */
+  stagedOnly: z.boolean().optional(),
+});
+export type CommitRequest = z.input<typeof commitSchema>;
+
+export const commitResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  hash: z.string(),
+  summary: z.object({
+    changes: z.number(),
+    insertions: z.number(),
+    deletions: z.number(),
+  }),
+});
+export type CommitResponse = z.infer<typeof commitResponseSchema>;
+
+// POST /api/git/commit-message
+export const commitMessageRequestSchema = providerChoiceSchema.extend({
+  path: repoPath,
+  /** The gitCommitMessageTemplate setting, e.g. "feat: {description}" */
+  template: z.string().optional().default('{description}'),
+});
+export type CommitMessageRequest = z.input<typeof commitMessageRequestSchema>;
+
+/** A suggested message for the staged changes, for the user to edit before committing. */
+export const commitMessageResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  /** Files in the staged diff */
+  files: z.array(z.string()),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+});
+export type CommitMessageResponse = z.infer<typeof commitMessageResponseSchema>;
+
+// POST /api/git/review
+export const reviewScopeSchema = z.enum(['staged', 'branch']);
+export type ReviewScope = z.infer<typeof reviewScopeSchema>;
+
+export const reviewRequestSchema = providerChoiceSchema.extend({
+  path: repoPath,
+  scope: reviewScopeSchema.optional().default('staged'),
+  base: gitRef.optional().default('main'),
+});
+export type ReviewRequest = z.input<typeof reviewRequestSchema>;
+
+/** One problem an AI review found in a diff; `line` is 1‑based in the new file. */
+export const reviewFindingSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  severity: z.enum(['error', 'warning', 'info']),
+  message: z.string(),
+});
+export type ReviewFinding = z.infer<typeof reviewFindingSchema>;
+
+export const reviewResponseSchema = z.object({
+  success: z.literal(true),
+  /** What was reviewed: the staged diff, or the current branch against `base` */
+  scope: reviewScopeSchema,
+  base: z.string().optional(),
+  findings: z.array(reviewFindingSchema),
+  /** Files in the reviewed diff */
+  files: z.array(z.string()),
+  /** True when the diff was too long to send in full */
+  truncated: z.boolean(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+});
+export type ReviewResponse = z.infer<typeof reviewResponseSchema>;
+
+// POST /api/git/pull, POST /api/git/push
+export const remoteSchema = z.object({
+  path: repoPath,
+  remote: z.string().optional().default('origin'),
+  branch: z.string().optional().default('main'),
+});
+export type RemoteRequest = z.input<typeof remoteSchema>;
+
+// GET /api/git/log
+export const logQuerySchema = z.object({
+  path: repoPath,
+  limit: z.coerce.number().min(1).max(100).optional().default(10),
+  file: z.string().optional(),
+});
+export type LogQuery = z.input<typeof logQuerySchema>;
+
+export const logResponseSchema = z.object({
+  success: z.literal(true),
+  commits: z.array(
+    z.object({
+      hash: z.string(),
+      date: z.string(),
+      message: z.string(),
+      author_name: z.string(),
+      author_email: z.string(),
+    })
+  ),
+  total: z.number(),
+});
+export type LogResponse = z.infer<typeof logResponseSchema>;
+
+// GET /api/git/diff
+export const diffQuerySchema = z.object({
+  path: repoPath,
+  file: z.string().optional(),
+  staged: queryFlag.optional().default(false),
+  /** Diff the current branch against this one instead of the working tree */
+  base: gitRef.optional(),
+});
+export type DiffQuery = z.input<typeof diffQuerySchema>;
+
+export const diffResponseSchema = z.object({
+  success: z.literal(true),
+  diff: z.string(),
+  staged: z.boolean(),
+  file: z.string().optional(),
+  base: z.string().optional(),
+});
+export type DiffResponse = z.infer<typeof diffResponseSchema>;
+
+// POST /api/git/branch
+export const createBranchSchema = z.object({
+  path: repoPath,
+  name: z.string().min(1, 'Branch name is required'),
+  from: z.string().optional().default('current'),
+});
+export type CreateBranchRequest = z.input<typeof createBranchSchema>;
+
+export const branchesResponseSchema = z.object({
+  success: z.literal(true),
+  current: z.string(),
+  all: z.array(z.string()),
+  local: z.array(z.string()),
+  remote: z.array(z.string()),
+});
+export type BranchesResponse = z.infer<typeof branchesResponseSchema>;
+
+// POST /api/git/checkout – a branch to switch to, or a file to restore from HEAD
+export const checkoutSchema = z.object({
+  path: repoPath,
+  branch: z.string().optional(),
+  file: z.string().optional(),
+});
+export type CheckoutRequest = z.input<typeof checkoutSchema>;
+
+/** Body of the git routes' own failures, e.g. nothing staged for a commit message. */
+export const gitErrorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  message: z.string().optional(),
+  details: z.string().optional(),
+});
+export type GitErrorResponse = z.infer<typeof gitErrorResponseSchema>;
@@ -0,0 +1,12 @@
+/**
+ * The API contract between the frontend and the backend: a zod schema for
+ * every REST body, query and response, the types inferred from them, and
+ * the Socket.IO event maps. The backend validates with the schemas; both
+ * sides compile against the types.
+ */
+export * from './ai';
+export * from './agent';
+export * from './conversations';
+export * from './git';
+export * from './workspace';
+export * from './socket';
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { providerIdSchema } from './ai';
+import { GitStatus, remoteSchema } from './git';
+import { FileNode } from './workspace';
+
+/* -----------------------------------------------------------------
+   Socket.IO events. Pass the two maps to `Server` / `Socket` so both
+   ends are checked: `new Server<ClientToServerEvents, ServerToClientEvents>()`
+   on the backend, `Socket<ServerToClientEvents, ClientToServerEvents>` in
+   the browser.
+   ----------------------------------------------------------------- */
+
+/** Ack of a request that either worked or says why not. */
+export type SocketResult<T = object> = ({ ok: true } & T) | { ok: false; error: string };
+
+// workspace:write
+export const socketWriteSchema = z.object({
+  path: z.string().min(1, 'File path is required'),
+  content: z.string(),
+});
+export type SocketWriteRequest = z.infer<typeof socketWriteSchema>;
+
+// ai:complete – tokens arrive as `ai:completionChunk`, the ack says how it ended
+export const socketCompletionSchema = z.object({
+  provider: providerIdSchema,
+  prefix: z.string(),
+  suffix: z.string().optional(),
+  language: z.string().optional(),
+  /** Client-chosen id; a new request with the same id, or `ai:cancel`, stops the old one */
+  requestId: z.string().optional(),
+  /** Workspace-relative path of the edited file, used to gather repository context */
+  path: z.string().optional(),
+  /** Paths of the other open tabs */
+  openFiles: z.array(z.string()).max(50).optional(),
+});
+export type SocketCompletionRequest = z.infer<typeof socketCompletionSchema>;
+
+export type SocketCompletionResult = { done: true } | { cancelled: true } | { error: string };
+
+/** A streamed token, tagged with the `requestId` of the request it belongs to (if it had one). */
+export interface SocketCompletionChunk {
+  requestId?: string;
+  token: string;
+}
+
+// git:pull, git:push
+export const socketRemoteSchema = remoteSchema;
+export type SocketRemoteRequest = z.input<typeof socketRemoteSchema>;
+
+export interface ServerToClientEvents {
+  'workspace:fileChanged': (path: string) => void;
+  'workspace:fileDeleted': (path: string) => void;
+  'ai:completionChunk': (chunk: SocketCompletionChunk) => void;
+}
+
+export interface ClientToServerEvents {
+  'workspace:getTree': (_: unknown, ack: (tree: FileNode[]) => void) => void;
+  'workspace:read': (path: string, ack: (result: SocketResult<{ content: string }>) => void) => void;
+  'workspace:write': (req: SocketWriteRequest, ack: (result: SocketResult) => void) => void;
+  'workspace:delete': (path: string, ack: (result: SocketResult) => void) => void;
+  'ai:complete': (req: SocketCompletionRequest, ack: (result: SocketCompletionResult) => void) => void;
+  'ai:cancel': (requestId: string) => void;
+  'git:status': (repoPath: string, ack: (result: SocketResult<{ status: GitStatus }>) => void) => void;
+  'git:pull': (req: SocketRemoteRequest, ack: (result: SocketResult) => void) => void;
+  'git:push': (req: SocketRemoteRequest, ack: (result: SocketResult) => void) => void;
+}
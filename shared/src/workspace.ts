@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+/* -----------------------------------------------------------------
+   Workspace files – /api/workspace. Paths are relative to the workspace root.
+   ----------------------------------------------------------------- */
+
+// GET /api/workspace/files
+export const listFilesSchema = z.object({
+  path: z.string().optional().default(''),
+});
+export type ListFilesQuery = z.input<typeof listFilesSchema>;
+
+export const workspaceFileSchema = z.object({
+  name: z.string(),
+  type: z.enum(['file', 'directory']),
+  size: z.number(),
+  modified: z.string(),
+  path: z.string(),
+});
+export type WorkspaceFile = z.infer<typeof workspaceFileSchema>;
+
+export const listFilesResponseSchema = z.object({
+  files: z.array(workspaceFileSchema),
+});
+export type ListFilesResponse = z.infer<typeof listFilesResponseSchema>;
+
+// GET /api/workspace/file, DELETE /api/workspace/file, POST /api/workspace/mkdir
+export const filePathSchema = z.object({
+  path: z.string().min(1, 'File path is required'),
+});
+export type FilePathRequest = z.input<typeof filePathSchema>;
+
+export const fileContentResponseSchema = z.object({
+  content: z.string(),
+  path: z.string(),
+  modified: z.string(),
+  size: z.number(),
+});
+export type FileContentResponse = z.infer<typeof fileContentResponseSchema>;
+
+// POST /api/workspace/file
+export const saveFileSchema = z.object({
+  path: z.string().min(1, 'File path is required'),
+  content: z.string().default(''),
+});
+export type SaveFileRequest = z.input<typeof saveFileSchema>;
+
+export const saveFileResponseSchema = z.object({
+  message: z.string(),
+  path: z.string(),
+  modified: z.string(),
+  size: z.number(),
+});
+export type SaveFileResponse = z.infer<typeof saveFileResponseSchema>;
+
+/** Body of the workspace routes' failures, e.g. a path outside the workspace. */
+export const workspaceErrorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string(),
+});
+export type WorkspaceErrorResponse = z.infer<typeof workspaceErrorResponseSchema>;
+
+/** An entry of the explorer tree; directories carry their children. */
+export interface FileNode {
+  name: string;
+  type: 'file' | 'directory';
+  children?: FileNode[];
+}
+
+export const fileNodeSchema: z.ZodType<FileNode> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    type: z.enum(['file', 'directory']),
+    children: z.array(fileNodeSchema).optional(),
+  })
+);